@@ -36,6 +36,8 @@ self.addEventListener('push', (event) => {
   const options = {
     body: data.body,
     icon: data.icon || '/pwa-192x192.png',
+    // The event's snapshot, where the platform shows one
+    image: data.image,
     badge: data.badge || '/pwa-64x64.png',
     tag: data.tag || 'detection',
     data: data.data,
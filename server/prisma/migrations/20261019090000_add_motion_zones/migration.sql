@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "DetectionEvent" ADD COLUMN "zoneId" TEXT;
+ALTER TABLE "DetectionEvent" ADD COLUMN "zoneName" TEXT;
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN "motionZones" TEXT;
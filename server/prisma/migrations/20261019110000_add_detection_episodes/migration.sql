@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DetectionEvent" ADD COLUMN "endedAt" DATETIME;
+ALTER TABLE "DetectionEvent" ADD COLUMN "duration" INTEGER;
+ALTER TABLE "DetectionEvent" ADD COLUMN "peakConfidence" REAL;
+ALTER TABLE "DetectionEvent" ADD COLUMN "averageConfidence" REAL;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "inactivityMinutes" INTEGER;
+ALTER TABLE "Room" ADD COLUMN "inactivityStart" TEXT;
+ALTER TABLE "Room" ADD COLUMN "inactivityEnd" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
+ALTER TABLE "Room" ADD COLUMN "armSchedule" TEXT;
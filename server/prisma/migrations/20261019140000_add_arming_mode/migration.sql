@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "armingMode" TEXT NOT NULL DEFAULT 'away';
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "armingMode" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN "health" TEXT;
+ALTER TABLE "Device" ADD COLUMN "healthReportedAt" DATETIME;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN "offlineSince" DATETIME;
+ALTER TABLE "Device" ADD COLUMN "offlineNotifiedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "DeviceStatusEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL,
+    "reason" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deviceId" TEXT NOT NULL,
+    CONSTRAINT "DeviceStatusEvent_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Device_isOnline_lastSeen_idx" ON "Device"("isOnline", "lastSeen");
+
+-- CreateIndex
+CREATE INDEX "DeviceStatusEvent_deviceId_timestamp_idx" ON "DeviceStatusEvent"("deviceId", "timestamp");
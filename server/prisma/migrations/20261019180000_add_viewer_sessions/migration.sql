@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ViewerSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "participantSid" TEXT NOT NULL,
+    "identity" TEXT NOT NULL,
+    "joinedAt" DATETIME NOT NULL,
+    "leftAt" DATETIME,
+    "duration" INTEGER,
+    "roomId" TEXT NOT NULL,
+    CONSTRAINT "ViewerSession_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ViewerSession_participantSid_key" ON "ViewerSession"("participantSid");
+
+-- CreateIndex
+CREATE INDEX "ViewerSession_roomId_joinedAt_idx" ON "ViewerSession"("roomId", "joinedAt");
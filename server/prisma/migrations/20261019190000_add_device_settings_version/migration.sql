@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN "settingsVersion" INTEGER NOT NULL DEFAULT 0;
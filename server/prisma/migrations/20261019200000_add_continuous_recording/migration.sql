@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "continuousRecording" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Room" ADD COLUMN "recordingRetentionHours" INTEGER NOT NULL DEFAULT 24;
+
+-- AlterTable
+ALTER TABLE "Recording" ADD COLUMN "mimeType" TEXT NOT NULL DEFAULT 'video/webm';
+ALTER TABLE "Recording" ADD COLUMN "deviceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Recording_roomId_startedAt_idx" ON "Recording"("roomId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "Recording_deviceId_startedAt_idx" ON "Recording"("deviceId", "startedAt");
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "ClipPart" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "index" INTEGER NOT NULL,
+    "storagePath" TEXT NOT NULL,
+    "storageType" TEXT NOT NULL DEFAULT 'local',
+    "fileSize" INTEGER NOT NULL,
+    "duration" INTEGER,
+    "clipId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ClipPart_clipId_fkey" FOREIGN KEY ("clipId") REFERENCES "Clip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DetectionEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL DEFAULT 'motion',
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" DATETIME,
+    "duration" INTEGER,
+    "deviceId" TEXT NOT NULL,
+    "confidence" REAL,
+    "peakConfidence" REAL,
+    "averageConfidence" REAL,
+    "zoneId" TEXT,
+    "zoneName" TEXT,
+    "soundClass" TEXT,
+    "thumbnailPath" TEXT,
+    "notificationSent" BOOLEAN NOT NULL DEFAULT false,
+    "markedFalsePositive" BOOLEAN NOT NULL DEFAULT false,
+    "roomId" TEXT NOT NULL,
+    "clipId" TEXT,
+    CONSTRAINT "DetectionEvent_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DetectionEvent_clipId_fkey" FOREIGN KEY ("clipId") REFERENCES "Clip" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_DetectionEvent" ("averageConfidence", "confidence", "deviceId", "duration", "endedAt", "id", "markedFalsePositive", "notificationSent", "peakConfidence", "roomId", "soundClass", "thumbnailPath", "timestamp", "type", "zoneId", "zoneName") SELECT "averageConfidence", "confidence", "deviceId", "duration", "endedAt", "id", "markedFalsePositive", "notificationSent", "peakConfidence", "roomId", "soundClass", "thumbnailPath", "timestamp", "type", "zoneId", "zoneName" FROM "DetectionEvent";
+DROP TABLE "DetectionEvent";
+ALTER TABLE "new_DetectionEvent" RENAME TO "DetectionEvent";
+CREATE INDEX "DetectionEvent_roomId_idx" ON "DetectionEvent"("roomId");
+CREATE INDEX "DetectionEvent_timestamp_idx" ON "DetectionEvent"("timestamp");
+CREATE INDEX "DetectionEvent_deviceId_idx" ON "DetectionEvent"("deviceId");
+CREATE INDEX "DetectionEvent_type_idx" ON "DetectionEvent"("type");
+CREATE INDEX "DetectionEvent_clipId_idx" ON "DetectionEvent"("clipId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ClipPart_storagePath_idx" ON "ClipPart"("storagePath");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClipPart_clipId_index_key" ON "ClipPart"("clipId", "index");
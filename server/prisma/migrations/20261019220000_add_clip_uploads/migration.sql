@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "ClipUpload" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "mimeType" TEXT NOT NULL,
+    "totalSize" INTEGER NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "receivedBytes" INTEGER NOT NULL DEFAULT 0,
+    "duration" INTEGER,
+    "storagePath" TEXT NOT NULL,
+    "storageType" TEXT NOT NULL DEFAULT 'local',
+    "multipartId" TEXT,
+    "uploadedParts" TEXT NOT NULL DEFAULT '[]',
+    "deviceId" TEXT NOT NULL,
+    "detectionType" TEXT NOT NULL,
+    "confidence" REAL NOT NULL,
+    "recordedAt" DATETIME NOT NULL,
+    "eventIds" TEXT,
+    "clipId" TEXT,
+    "partIndex" INTEGER,
+    "resultId" TEXT,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ClipUpload_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ClipUpload_expiresAt_idx" ON "ClipUpload"("expiresAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Clip" ADD COLUMN "checksum" TEXT;
+
+-- AlterTable
+ALTER TABLE "ClipPart" ADD COLUMN "checksum" TEXT;
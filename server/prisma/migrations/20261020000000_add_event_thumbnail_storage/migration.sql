@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DetectionEvent" ADD COLUMN "thumbnailStorageType" TEXT;
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { isArmed } from '../services/armSchedule.js';
+
+describe('isArmed', () => {
+  // Wednesday 2026-10-21
+  const at = (time: string) => new Date(`2026-10-21T${time}:00Z`);
+
+  it('evaluates windows in the room timezone', () => {
+    const windows = [{ day: 3, start: '09:00', end: '17:00' }];
+    // 08:30 UTC is 10:30 in Berlin (CEST)
+    expect(isArmed(windows, 'Europe/Berlin', at('08:30'))).toBe(true);
+    expect(isArmed(windows, 'UTC', at('08:30'))).toBe(false);
+  });
+
+  it('carries overnight windows into the next day', () => {
+    const windows = [{ day: 2, start: '22:00', end: '06:00' }];
+    expect(isArmed(windows, 'UTC', at('05:59'))).toBe(true);
+    expect(isArmed(windows, 'UTC', at('06:00'))).toBe(false);
+  });
+
+  it('is always armed without windows', () => {
+    expect(isArmed(null, 'UTC', at('12:00'))).toBe(true);
+    expect(isArmed([], 'UTC', at('12:00'))).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+import { sendRoomData } from '../services/livekit.service.js';
+import { sendDetectionNotification } from '../services/pushNotifications.js';
+
+// Mode changes go out through the LiveKit server API; capture them instead
+vi.mock('../services/livekit.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/livekit.service.js')>()),
+  sendRoomData: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../services/pushNotifications.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/pushNotifications.js')>()),
+  isConfigured: () => true,
+  sendDetectionNotification: vi.fn().mockResolvedValue({ sent: 1, failed: 0 }),
+}));
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  vi.mocked(sendRoomData).mockClear();
+  vi.mocked(sendDetectionNotification).mockClear();
+});
+
+describe('account arming mode', () => {
+  it('defaults to away', async () => {
+    const user = await createTestUser();
+    await createTestRoom(user.id);
+
+    const res = await request(app).get('/api/arming').set('x-test-clerk-id', user.clerkId);
+
+    expect(res.status).toBe(200);
+    expect(res.body.mode).toBe('away');
+    expect(res.body.rooms[0]).toMatchObject({ mode: 'away', roomMode: null });
+  });
+
+  it('pushes the new mode to rooms that follow the account', async () => {
+    const user = await createTestUser();
+    const following = await createTestRoom(user.id);
+    const overridden = await createTestRoom(user.id);
+
+    await request(app)
+      .put(`/api/rooms/${overridden.id}/mode`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ mode: 'off' });
+    vi.mocked(sendRoomData).mockClear();
+
+    const res = await request(app)
+      .put('/api/arming')
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ mode: 'home' });
+
+    expect(res.status).toBe(200);
+    expect(sendRoomData).toHaveBeenCalledTimes(1);
+    expect(sendRoomData).toHaveBeenCalledWith(following.livekitRoom, {
+      type: 'arming_mode',
+      mode: 'home',
+    });
+
+    const config = await request(app)
+      .get(`/api/rooms/${overridden.id}/camera-config`)
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(config.body.config.mode).toBe('off');
+  });
+
+  it('rejects unknown modes', async () => {
+    const user = await createTestUser();
+
+    const res = await request(app)
+      .put('/api/arming')
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ mode: 'vacation' });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('room arming mode', () => {
+  it('overrides the account mode and falls back when cleared', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+
+    const set = await request(app)
+      .put(`/api/rooms/${room.id}/mode`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ mode: 'off' });
+
+    expect(set.body).toEqual({ mode: 'off', roomMode: 'off' });
+    expect(sendRoomData).toHaveBeenCalledWith(room.livekitRoom, { type: 'arming_mode', mode: 'off' });
+
+    const cleared = await request(app)
+      .put(`/api/rooms/${room.id}/mode`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ mode: null });
+
+    expect(cleared.body).toEqual({ mode: 'away', roomMode: null });
+  });
+
+  it("does not let users change another user's room", async () => {
+    const owner = await createTestUser();
+    const other = await createTestUser();
+    const room = await createTestRoom(owner.id);
+
+    const res = await request(app)
+      .put(`/api/rooms/${room.id}/mode`)
+      .set('x-test-clerk-id', other.clerkId)
+      .send({ mode: 'off' });
+
+    expect(res.status).toBe(404);
+    expect(sendRoomData).not.toHaveBeenCalled();
+  });
+
+  it('is returned on device token refresh', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { authHeader } = await createTestDevice(room.id, user.id);
+
+    await request(app)
+      .put(`/api/rooms/${room.id}/mode`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ mode: 'home' });
+
+    const res = await request(app).post('/api/tokens/device').set('Authorization', authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.armingMode).toBe('home');
+  });
+});
+
+describe('home mode', () => {
+  it('records events without sending push notifications', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    await request(app)
+      .put(`/api/rooms/${room.id}/mode`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ mode: 'home' });
+
+    const res = await request(app)
+      .post('/api/events')
+      .set('Authorization', authHeader)
+      .send({ roomId: room.id, type: 'motion', deviceId: device.id, confidence: 0.9, sendNotification: true });
+
+    expect(res.status).toBe(201);
+    expect(res.body.event.notificationSent).toBe(false);
+    expect(sendDetectionNotification).not.toHaveBeenCalled();
+  });
+
+  it('still notifies in away mode', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .post('/api/events')
+      .set('Authorization', authHeader)
+      .send({ roomId: room.id, type: 'motion', deviceId: device.id, confidence: 0.9, sendNotification: true });
+
+    expect(res.status).toBe(201);
+    expect(sendDetectionNotification).toHaveBeenCalledTimes(1);
+  });
+});
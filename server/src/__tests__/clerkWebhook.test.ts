@@ -4,7 +4,7 @@ import crypto from 'crypto';
 import type { Express } from 'express';
 import { createApp } from '../app.js';
 import { prisma } from '../lib/prisma.js';
-import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+import { createTestUser, createTestRoom, createTestDevice, fakeWebm } from './helpers.js';
 
 const WEBHOOK_KEY = crypto.randomBytes(24);
 const WEBHOOK_SECRET = `whsec_${WEBHOOK_KEY.toString('base64')}`;
@@ -87,7 +87,7 @@ describe('POST /api/auth/clerk-webhook', () => {
     await request(app)
       .post('/api/clips')
       .set('Authorization', authHeader)
-      .attach('video', Buffer.from('fake-webm-bytes'), {
+      .attach('video', fakeWebm(), {
         filename: 'clip.webm',
         contentType: 'video/webm',
       })
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { Readable } from 'stream';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { getStorageProvider } from '../services/storage/index.js';
+import { signStorageUrl } from '../services/storage/signedUrls.js';
+import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+
+const CONTENT = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+
+let app: Express;
+let tmpDir: string;
+let clerkId: string;
+let url: string;
+let clipId: string;
+let storagePath: string;
+
+// responseType keeps the body as a raw Buffer, multipart included
+function get(headers: Record<string, string> = {}) {
+  return request(app).get(url).set('x-test-clerk-id', clerkId).set(headers).responseType('blob');
+}
+
+beforeAll(async () => {
+  // Streaming is tested against real files, not the memory provider
+  tmpDir = mkdtempSync(path.join(os.tmpdir(), 'clip-streaming-'));
+  process.env.STORAGE_PATH = tmpDir;
+  app = createApp();
+
+  const user = await createTestUser();
+  const room = await createTestRoom(user.id);
+  const { device } = await createTestDevice(room.id, user.id);
+  storagePath = `clips/${user.id}/${room.id}/clip.webm`;
+  await getStorageProvider('local').put(storagePath, Readable.from([CONTENT]), 'video/webm');
+  const clip = await prisma.clip.create({
+    data: {
+      filename: 'clip.webm',
+      storagePath,
+      storageType: 'local',
+      mimeType: 'video/webm',
+      fileSize: CONTENT.length,
+      detectionType: 'motion',
+      confidence: 0.9,
+      userId: user.id,
+      roomId: room.id,
+      deviceId: device.id,
+      recordedAt: new Date(),
+    },
+  });
+
+  clipId = clip.id;
+  clerkId = user.clerkId;
+  url = `/api/clips/file/${storagePath}`;
+});
+
+afterAll(() => {
+  delete process.env.STORAGE_PATH;
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('GET /api/clips/file/*', () => {
+  it('sends the whole file with validators when no range is asked for', async () => {
+    const res = await get();
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(CONTENT);
+    expect(res.headers['accept-ranges']).toBe('bytes');
+    expect(res.headers['content-length']).toBe(String(CONTENT.length));
+    expect(res.headers.etag).toMatch(/^"[0-9a-f]+-[0-9a-f]+"$/);
+    expect(res.headers['last-modified']).toBeDefined();
+  });
+
+  it('sends a single range as 206 with Content-Range', async () => {
+    const res = await get({ Range: 'bytes=10-14' });
+
+    expect(res.status).toBe(206);
+    expect(res.body.toString()).toBe('abcde');
+    expect(res.headers['content-range']).toBe(`bytes 10-14/${CONTENT.length}`);
+    expect(res.headers['content-length']).toBe('5');
+    expect(res.headers['content-type']).toBe('video/webm');
+  });
+
+  it('handles open-ended and suffix ranges', async () => {
+    const open = await get({ Range: 'bytes=30-' });
+    expect(open.status).toBe(206);
+    expect(open.body.toString()).toBe('uvwxyz');
+
+    const suffix = await get({ Range: 'bytes=-3' });
+    expect(suffix.status).toBe(206);
+    expect(suffix.body.toString()).toBe('xyz');
+    expect(suffix.headers['content-range']).toBe(`bytes 33-35/${CONTENT.length}`);
+  });
+
+  it('sends several ranges as multipart/byteranges', async () => {
+    const res = await get({ Range: 'bytes=0-2, 20-22' });
+
+    expect(res.status).toBe(206);
+    const boundary = /boundary=(\S+)/.exec(res.headers['content-type'])?.[1];
+    expect(res.headers['content-type']).toMatch(/^multipart\/byteranges; boundary=/);
+    expect(res.headers['content-length']).toBe(String(res.body.length));
+
+    const body = res.body.toString();
+    expect(body).toContain(`Content-Range: bytes 0-2/${CONTENT.length}\r\n\r\n012\r\n--${boundary}`);
+    expect(body).toContain(`Content-Range: bytes 20-22/${CONTENT.length}\r\n\r\nklm\r\n--${boundary}--`);
+  });
+
+  it('merges overlapping ranges', async () => {
+    const res = await get({ Range: 'bytes=0-4, 3-7' });
+
+    expect(res.status).toBe(206);
+    expect(res.body.toString()).toBe('01234567');
+  });
+
+  it('answers 416 for a range past the end', async () => {
+    const res = await get({ Range: `bytes=${CONTENT.length}-` });
+
+    expect(res.status).toBe(416);
+    expect(res.headers['content-range']).toBe(`bytes */${CONTENT.length}`);
+  });
+
+  it('ignores ranges in units other than bytes', async () => {
+    const res = await get({ Range: 'seconds=0-5' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(CONTENT);
+  });
+
+  it('answers 304 when the ETag or date still matches', async () => {
+    const first = await get();
+
+    const byEtag = await get({ 'If-None-Match': first.headers.etag });
+    expect(byEtag.status).toBe(304);
+
+    const byDate = await get({ 'If-Modified-Since': first.headers['last-modified'] });
+    expect(byDate.status).toBe(304);
+
+    const changed = await get({ 'If-None-Match': '"something-else"' });
+    expect(changed.status).toBe(200);
+  });
+
+  it('honors Range only when If-Range still matches', async () => {
+    const { headers } = await get();
+
+    const byEtag = await get({ Range: 'bytes=0-1', 'If-Range': headers.etag });
+    expect(byEtag.status).toBe(206);
+    expect(byEtag.body.toString()).toBe('01');
+
+    const byDate = await get({ Range: 'bytes=0-1', 'If-Range': headers['last-modified'] });
+    expect(byDate.status).toBe(206);
+
+    const stale = await get({ Range: 'bytes=0-1', 'If-Range': '"stale"' });
+    expect(stale.status).toBe(200);
+    expect(stale.body).toEqual(CONTENT);
+
+    const staleDate = await get({
+      Range: 'bytes=0-1',
+      'If-Range': new Date(Date.parse(headers['last-modified']) - 60_000).toUTCString(),
+    });
+    expect(staleDate.status).toBe(200);
+  });
+
+  it('answers HEAD with the same headers and no body', async () => {
+    const full = await request(app).head(url).set('x-test-clerk-id', clerkId);
+    expect(full.status).toBe(200);
+    expect(full.headers['content-length']).toBe(String(CONTENT.length));
+    expect(full.headers.etag).toBeDefined();
+    expect(full.text).toBeFalsy();
+
+    const ranged = await request(app).head(url).set('x-test-clerk-id', clerkId).set('Range', 'bytes=5-9');
+    expect(ranged.status).toBe(206);
+    expect(ranged.headers['content-range']).toBe(`bytes 5-9/${CONTENT.length}`);
+    expect(ranged.headers['content-length']).toBe('5');
+  });
+
+  it('does not serve other users’ clips', async () => {
+    const stranger = await createTestUser();
+    const res = await request(app).get(url).set('x-test-clerk-id', stranger.clerkId);
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('signed links to local files', () => {
+  async function signedUrl() {
+    const res = await request(app).get(`/api/clips/${clipId}/url`).set('x-test-clerk-id', clerkId);
+    expect(res.status).toBe(200);
+    expect(res.body.expiresIn).toBe(3600);
+    return res.body.url as string;
+  }
+
+  it('plays without a Clerk session, ranges included', async () => {
+    const link = await signedUrl();
+    expect(link).toMatch(/^\/api\/files\/clips\/.+\?expires=\d+&signature=/);
+
+    const full = await request(app).get(link).responseType('blob');
+    expect(full.status).toBe(200);
+    expect(full.body).toEqual(CONTENT);
+    expect(full.headers['content-type']).toBe('video/webm');
+
+    const ranged = await request(app).get(link).set('Range', 'bytes=0-3').responseType('blob');
+    expect(ranged.status).toBe(206);
+    expect(ranged.body.toString()).toBe('0123');
+
+    const head = await request(app).head(link);
+    expect(head.status).toBe(200);
+    expect(head.headers['content-length']).toBe(String(CONTENT.length));
+  });
+
+  it('rejects tampered, missing and expired signatures', async () => {
+    const link = new URL(await signedUrl(), 'http://local');
+
+    const tampered = new URL(link);
+    tampered.searchParams.set('signature', 'A'.repeat(43));
+    expect((await request(app).get(tampered.pathname + tampered.search)).status).toBe(403);
+
+    const extended = new URL(link);
+    extended.searchParams.set('expires', String(Number(link.searchParams.get('expires')) + 3600));
+    expect((await request(app).get(extended.pathname + extended.search)).status).toBe(403);
+
+    expect((await request(app).get(link.pathname)).status).toBe(403);
+
+    expect((await request(app).get(signStorageUrl(storagePath, -1))).status).toBe(403);
+  });
+
+  it('is scoped to the one key it was signed for', async () => {
+    const link = new URL(await signedUrl(), 'http://local');
+    const otherPath = link.pathname.replace(/clip\.webm$/, 'other.webm');
+
+    expect((await request(app).get(otherPath + link.search)).status).toBe(403);
+  });
+
+  it('only allows reads', async () => {
+    const link = await signedUrl();
+
+    const res = await request(app).delete(link);
+    expect(res.status).toBe(405);
+    expect(res.headers.allow).toBe('GET, HEAD');
+  });
+
+  it('refuses to serve files that are not video', async () => {
+    await getStorageProvider('local').put('clips/x/page.html', Readable.from(['<script>']), 'text/html');
+
+    const res = await request(app).get(signStorageUrl('clips/x/page.html', 60));
+    expect(res.status).toBe(403);
+  });
+});
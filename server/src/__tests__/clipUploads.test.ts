@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+import { pruneClipUploads } from '../services/clipUploads.js';
+import { createClip } from '../services/clips.js';
+import {
+  writeUploadChunk,
+  completeUpload,
+  abortUpload,
+  deleteClip,
+} from '../services/storage.service.js';
+
+// Chunks written per storage path, so completed files can be read back
+const stored = vi.hoisted(() => new Map<string, Buffer[]>());
+// Paths whose parts have been assembled into the final file
+const assembled = vi.hoisted(() => new Set<string>());
+
+// Tiny chunks keep the bodies readable
+vi.mock('../services/storage.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/storage.service.js')>()),
+  getUploadChunkSize: vi.fn(() => 4),
+  beginUpload: vi.fn(async (userId: string, roomId: string) => ({
+    path: `clips/${userId}/${roomId}/${Math.random().toString(36).slice(2)}.webm`,
+    storageType: 'memory',
+    multipartId: 'upload-1',
+  })),
+  writeUploadChunk: vi.fn(async (target: { path: string }, partNumber: number, chunk: Buffer) => {
+    const chunks = stored.get(target.path) ?? [];
+    chunks[partNumber - 1] = chunk;
+    stored.set(target.path, chunks);
+    return { partNumber, etag: String(partNumber) };
+  }),
+  completeUpload: vi.fn(async (target: { path: string }) => {
+    assembled.add(target.path);
+  }),
+  getClipStats: vi.fn(async (path: string) =>
+    assembled.has(path) ? { key: path, size: 0, lastModified: new Date() } : null
+  ),
+  getClipStream: vi.fn(async (path: string) => Readable.from([Buffer.concat(stored.get(path) ?? [])])),
+  abortUpload: vi.fn(async () => {}),
+  deleteClip: vi.fn(async () => {}),
+}));
+
+vi.mock('../services/clips.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/clips.js')>();
+  return { ...actual, createClip: vi.fn(actual.createClip) };
+});
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  vi.mocked(writeUploadChunk).mockClear();
+  vi.mocked(completeUpload).mockClear();
+  vi.mocked(abortUpload).mockClear();
+  vi.mocked(deleteClip).mockClear();
+});
+
+// A WebM file starts with the EBML magic; chunks are 4 bytes in these tests
+const HEAD = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+
+function sha256(...parts: (string | Buffer)[]) {
+  return createHash('sha256').update(Buffer.concat(parts.map((part) => Buffer.from(part)))).digest('hex');
+}
+
+async function setup() {
+  const user = await createTestUser();
+  const room = await createTestRoom(user.id);
+  const camera = await createTestDevice(room.id, user.id);
+  return { user, room, ...camera };
+}
+
+function createUpload(
+  authHeader: string,
+  body: { roomId: string; deviceId: string } & Record<string, unknown>
+) {
+  return request(app)
+    .post('/api/clips/uploads')
+    .set('Authorization', authHeader)
+    .send({
+      detectionType: 'motion',
+      confidence: 0.8,
+      recordedAt: new Date().toISOString(),
+      mimeType: 'video/webm',
+      size: 10,
+      ...body,
+    });
+}
+
+function putChunk(authHeader: string, id: string, start: number, bytes: string | Buffer, total = 10) {
+  const body = Buffer.from(bytes);
+  return request(app)
+    .put(`/api/clips/uploads/${id}`)
+    .set('Authorization', authHeader)
+    .set('Content-Type', 'application/octet-stream')
+    .set('Content-Range', `bytes ${start}-${start + body.length - 1}/${total}`)
+    .send(body);
+}
+
+function complete(authHeader: string, id: string, checksum?: string) {
+  return request(app)
+    .post(`/api/clips/uploads/${id}/complete`)
+    .set('Authorization', authHeader)
+    .send(checksum ? { checksum } : {});
+}
+
+describe('resumable clip uploads', () => {
+  it('assembles chunks into a clip linked to its events', async () => {
+    const { room, device, authHeader } = await setup();
+    const event = await prisma.detectionEvent.create({
+      data: { roomId: room.id, deviceId: device.id, type: 'motion' },
+    });
+
+    const created = await createUpload(authHeader, {
+      roomId: room.id,
+      deviceId: device.id,
+      eventIds: [event.id],
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.upload).toMatchObject({ chunkSize: 4, receivedBytes: 0, totalSize: 10 });
+    const { id } = created.body.upload;
+
+    expect((await putChunk(authHeader, id, 0, HEAD)).body.upload.receivedBytes).toBe(4);
+    expect((await putChunk(authHeader, id, 4, 'efgh')).body.upload.receivedBytes).toBe(8);
+    expect((await putChunk(authHeader, id, 8, 'ij')).body.upload.receivedBytes).toBe(10);
+
+    const done = await complete(authHeader, id);
+
+    expect(done.status).toBe(201);
+    expect(done.body.clip).toMatchObject({ roomId: room.id, deviceId: device.id, fileSize: 10 });
+    expect(completeUpload).toHaveBeenCalledTimes(1);
+    const linked = await prisma.detectionEvent.findUnique({ where: { id: event.id } });
+    expect(linked?.clipId).toBe(done.body.clip.id);
+  });
+
+  it('tells the camera where to resume', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (await createUpload(authHeader, { roomId: room.id, deviceId: device.id })).body.upload;
+    await putChunk(authHeader, id, 0, HEAD);
+
+    const status = await request(app).get(`/api/clips/uploads/${id}`).set('Authorization', authHeader);
+    expect(status.body.upload.receivedBytes).toBe(4);
+
+    // Skipping ahead is refused with the real offset
+    const gap = await putChunk(authHeader, id, 8, 'ij');
+    expect(gap.status).toBe(409);
+    expect(gap.body.receivedBytes).toBe(4);
+
+    // Resending a stored chunk is harmless
+    const replay = await putChunk(authHeader, id, 0, HEAD);
+    expect(replay.status).toBe(200);
+    expect(replay.body.upload.receivedBytes).toBe(4);
+    expect(writeUploadChunk).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects short chunks before the last one', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (await createUpload(authHeader, { roomId: room.id, deviceId: device.id })).body.upload;
+
+    const res = await putChunk(authHeader, id, 0, 'ab');
+
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a first chunk that is not a video', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (await createUpload(authHeader, { roomId: room.id, deviceId: device.id })).body.upload;
+
+    const res = await putChunk(authHeader, id, 0, '<svg');
+
+    expect(res.status).toBe(415);
+    expect(writeUploadChunk).not.toHaveBeenCalled();
+  });
+
+  it('rejects a Content-Range for a different size', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (await createUpload(authHeader, { roomId: room.id, deviceId: device.id })).body.upload;
+
+    const res = await putChunk(authHeader, id, 0, HEAD, 12);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('refuses to complete until every byte has arrived', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (await createUpload(authHeader, { roomId: room.id, deviceId: device.id })).body.upload;
+    await putChunk(authHeader, id, 0, HEAD);
+
+    const res = await complete(authHeader, id);
+
+    expect(res.status).toBe(409);
+    expect(res.body.receivedBytes).toBe(4);
+    expect(completeUpload).not.toHaveBeenCalled();
+  });
+
+  it('discards the file when the checksum does not match', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (
+      await createUpload(authHeader, { roomId: room.id, deviceId: device.id, size: 4 })
+    ).body.upload;
+    await putChunk(authHeader, id, 0, HEAD, 4);
+
+    const res = await complete(authHeader, id, sha256('something else'));
+
+    expect(res.status).toBe(422);
+    expect(deleteClip).toHaveBeenCalledTimes(1);
+    expect(await prisma.clipUpload.findUnique({ where: { id } })).toBeNull();
+    expect(await prisma.clip.count({ where: { roomId: room.id } })).toBe(0);
+  });
+
+  it('answers a repeated complete with the same clip', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (
+      await createUpload(authHeader, { roomId: room.id, deviceId: device.id, size: 4 })
+    ).body.upload;
+    await putChunk(authHeader, id, 0, HEAD, 4);
+
+    const first = await complete(authHeader, id);
+    const second = await complete(authHeader, id);
+
+    expect(second.status).toBe(200);
+    expect(second.body.clip.id).toBe(first.body.clip.id);
+    expect(await prisma.clip.count({ where: { roomId: room.id } })).toBe(1);
+  });
+
+  it('finishes on a retry after completion failed partway', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (
+      await createUpload(authHeader, { roomId: room.id, deviceId: device.id, size: 4 })
+    ).body.upload;
+    await putChunk(authHeader, id, 0, HEAD, 4);
+    vi.mocked(createClip).mockRejectedValueOnce(new Error('database is locked'));
+
+    const failed = await complete(authHeader, id, sha256(HEAD));
+    expect(failed.status).toBe(500);
+    expect((await prisma.clipUpload.findUnique({ where: { id } }))?.status).toBe('open');
+
+    const retried = await complete(authHeader, id, sha256(HEAD));
+
+    expect(retried.status).toBe(201);
+    expect(retried.body.clip).toMatchObject({ fileSize: 4, checksum: sha256(HEAD) });
+    // The file was assembled once; the retry picked it up from storage
+    expect(completeUpload).toHaveBeenCalledTimes(1);
+    expect(await prisma.clip.count({ where: { roomId: room.id } })).toBe(1);
+  });
+
+  it('refuses a second complete while the first is assembling', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (
+      await createUpload(authHeader, { roomId: room.id, deviceId: device.id, size: 4 })
+    ).body.upload;
+    await putChunk(authHeader, id, 0, HEAD, 4);
+    await prisma.clipUpload.update({
+      where: { id },
+      data: { status: 'assembling', expiresAt: new Date(Date.now() + 60_000) },
+    });
+
+    const res = await complete(authHeader, id);
+
+    expect(res.status).toBe(409);
+    expect(completeUpload).not.toHaveBeenCalled();
+  });
+
+  it('uploads a later part of an existing clip', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id: firstId } = (
+      await createUpload(authHeader, { roomId: room.id, deviceId: device.id, size: 4 })
+    ).body.upload;
+    await putChunk(authHeader, firstId, 0, HEAD, 4);
+    const clip = (await complete(authHeader, firstId)).body.clip;
+
+    const { id } = (
+      await createUpload(authHeader, {
+        roomId: room.id,
+        deviceId: device.id,
+        size: 4,
+        clipId: clip.id,
+        partIndex: 1,
+      })
+    ).body.upload;
+    await putChunk(authHeader, id, 0, HEAD, 4);
+    const res = await complete(authHeader, id);
+
+    expect(res.status).toBe(201);
+    expect(res.body.part).toMatchObject({ clipId: clip.id, index: 1, fileSize: 4, checksum: sha256(HEAD) });
+    const updated = await prisma.clip.findUnique({ where: { id: clip.id } });
+    expect(updated?.fileSize).toBe(8);
+  });
+
+  it("hides uploads from another room's camera", async () => {
+    const { user, room, device, authHeader } = await setup();
+    const { id } = (await createUpload(authHeader, { roomId: room.id, deviceId: device.id })).body.upload;
+    const other = await createTestDevice((await createTestRoom(user.id)).id, user.id);
+
+    const res = await putChunk(other.authHeader, id, 0, HEAD);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('prunes expired uploads and aborts their storage', async () => {
+    const { room, device, authHeader } = await setup();
+    const { id } = (await createUpload(authHeader, { roomId: room.id, deviceId: device.id })).body.upload;
+    await prisma.clipUpload.update({ where: { id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+
+    await pruneClipUploads();
+
+    expect(abortUpload).toHaveBeenCalledTimes(1);
+    expect(await prisma.clipUpload.findUnique({ where: { id } })).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createHash } from 'crypto';
+import type { Readable } from 'stream';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createTestUser, createTestRoom, createTestDevice, fakeWebm } from './helpers.js';
+import { uploadClip, deleteClip } from '../services/storage.service.js';
+import { addClipPart } from '../services/clips.js';
+
+vi.mock('../services/storage.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/storage.service.js')>()),
+  uploadClip: vi.fn(async (userId: string, roomId: string, body: Readable) => {
+    let size = 0;
+    for await (const chunk of body) size += chunk.length;
+    const path = `clips/${userId}/${roomId}/${Math.random().toString(36).slice(2)}.webm`;
+    return { path, size, storageType: 'memory' };
+  }),
+  deleteClip: vi.fn(async () => {}),
+}));
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  vi.mocked(uploadClip).mockClear();
+  vi.mocked(deleteClip).mockClear();
+});
+
+async function setup() {
+  const user = await createTestUser();
+  const room = await createTestRoom(user.id);
+  const camera = await createTestDevice(room.id, user.id);
+  return { user, room, ...camera };
+}
+
+function createEvent(roomId: string, deviceId: string) {
+  return prisma.detectionEvent.create({ data: { roomId, deviceId, type: 'motion' } });
+}
+
+function uploadFirstPart(authHeader: string, roomId: string, deviceId: string, eventIds: string[]) {
+  return request(app)
+    .post('/api/clips')
+    .set('Authorization', authHeader)
+    .field('roomId', roomId)
+    .field('deviceId', deviceId)
+    .field('detectionType', 'motion')
+    .field('confidence', '0.8')
+    .field('recordedAt', new Date().toISOString())
+    .field('eventIds', eventIds.join(','))
+    .attach('video', fakeWebm('webm'), { filename: 'clip.webm', contentType: 'video/webm' });
+}
+
+function uploadPart(authHeader: string, clipId: string, index: number, eventIds: string[] = []) {
+  return request(app)
+    .post(`/api/clips/${clipId}/parts`)
+    .set('Authorization', authHeader)
+    .field('index', String(index))
+    .field('eventIds', eventIds.join(','))
+    .attach('video', fakeWebm('more webm'), { filename: 'part.webm', contentType: 'video/webm' });
+}
+
+describe('POST /api/clips', () => {
+  it('links the clip to every event it covers', async () => {
+    const { room, device, authHeader } = await setup();
+    const first = await createEvent(room.id, device.id);
+    const second = await createEvent(room.id, device.id);
+
+    const res = await uploadFirstPart(authHeader, room.id, device.id, [first.id, second.id]);
+
+    expect(res.status).toBe(201);
+    const linked = await prisma.detectionEvent.findMany({ where: { clipId: res.body.clip.id } });
+    expect(linked.map((e) => e.id).sort()).toEqual([first.id, second.id].sort());
+  });
+
+  it('ignores event ids from other rooms', async () => {
+    const { room, device, authHeader } = await setup();
+    const other = await setup();
+    const foreign = await createEvent(other.room.id, other.device.id);
+
+    const res = await uploadFirstPart(authHeader, room.id, device.id, [foreign.id]);
+
+    expect(res.status).toBe(201);
+    const event = await prisma.detectionEvent.findUnique({ where: { id: foreign.id } });
+    expect(event?.clipId).toBeNull();
+  });
+
+  it('records the checksum of the bytes received', async () => {
+    const { room, device, authHeader } = await setup();
+
+    const res = await uploadFirstPart(authHeader, room.id, device.id, []);
+
+    expect(res.status).toBe(201);
+    expect(res.body.clip.checksum).toBe(createHash('sha256').update(fakeWebm('webm')).digest('hex'));
+  });
+
+  it('rejects files that are not video, whatever their declared type', async () => {
+    const { room, device, authHeader } = await setup();
+
+    const res = await request(app)
+      .post('/api/clips')
+      .set('Authorization', authHeader)
+      .field('roomId', room.id)
+      .field('deviceId', device.id)
+      .field('detectionType', 'motion')
+      .field('confidence', '0.8')
+      .field('recordedAt', new Date().toISOString())
+      .attach('video', Buffer.from('<html>not a video</html>'), {
+        filename: 'clip.webm',
+        contentType: 'video/webm',
+      });
+
+    expect(res.status).toBe(415);
+    expect(await prisma.clip.count({ where: { roomId: room.id } })).toBe(0);
+  });
+
+  it('discards the stored file when the room check fails', async () => {
+    const { user, device, authHeader } = await setup();
+    const otherRoom = await createTestRoom(user.id);
+
+    const res = await uploadFirstPart(authHeader, otherRoom.id, device.id, []);
+
+    expect(res.status).toBe(403);
+    expect(deleteClip).toHaveBeenCalledOnce();
+  });
+});
+
+describe('POST /api/clips/:id/parts', () => {
+  it('appends parts and grows the clip', async () => {
+    const { user, room, device, authHeader } = await setup();
+    const clip = (await uploadFirstPart(authHeader, room.id, device.id, [])).body.clip;
+    const later = await createEvent(room.id, device.id);
+
+    const res = await uploadPart(authHeader, clip.id, 1, [later.id]);
+
+    expect(res.status).toBe(201);
+    expect(res.body.part).toMatchObject({ clipId: clip.id, index: 1, fileSize: 13 });
+
+    const get = await request(app).get(`/api/clips/${clip.id}`).set('x-test-clerk-id', user.clerkId);
+    expect(get.body.clip.fileSize).toBe(8 + 13);
+    expect(get.body.clip.parts).toEqual([{ index: 1, duration: null, fileSize: 13 }]);
+    expect(get.body.clip.events.map((e: { id: string }) => e.id)).toEqual([later.id]);
+  });
+
+  it('treats a repeated part as already stored', async () => {
+    const { room, device, authHeader } = await setup();
+    const clip = (await uploadFirstPart(authHeader, room.id, device.id, [])).body.clip;
+
+    await uploadPart(authHeader, clip.id, 1);
+    const retry = await uploadPart(authHeader, clip.id, 1);
+
+    expect(retry.status).toBe(200);
+    expect(uploadClip).toHaveBeenCalledTimes(2);
+    expect(await prisma.clipPart.count({ where: { clipId: clip.id } })).toBe(1);
+  });
+
+  it('adds up parts that finish at the same time', async () => {
+    const { room, device, authHeader } = await setup();
+    const created = (await uploadFirstPart(authHeader, room.id, device.id, [])).body.clip;
+    const clip = await prisma.clip.update({ where: { id: created.id }, data: { duration: 10 } });
+    const part = (index: number, duration: number) =>
+      addClipPart(
+        clip,
+        index,
+        {
+          path: `part-${index}.webm`,
+          storageType: 'memory',
+          size: 5,
+          mimeType: 'video/webm',
+          checksum: createHash('sha256').update(`part-${index}`).digest('hex'),
+          duration,
+        },
+        []
+      );
+
+    // Both start from the same snapshot of the clip
+    await Promise.all([part(1, 20), part(2, 30)]);
+
+    const updated = await prisma.clip.findUnique({ where: { id: clip.id } });
+    expect(updated).toMatchObject({ duration: 60, fileSize: 8 + 10 });
+  });
+
+  it("rejects parts for another room's clip", async () => {
+    const { room, device, authHeader } = await setup();
+    const clip = (await uploadFirstPart(authHeader, room.id, device.id, [])).body.clip;
+    const otherCamera = await createTestDevice((await createTestRoom(clip.userId)).id, clip.userId);
+
+    const res = await uploadPart(otherCamera.authHeader, clip.id, 1);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('rejects part 0, which is the clip upload itself', async () => {
+    const { room, device, authHeader } = await setup();
+    const clip = (await uploadFirstPart(authHeader, room.id, device.id, [])).body.clip;
+
+    const res = await uploadPart(authHeader, clip.id, 0);
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('DELETE /api/clips/:id', () => {
+  it('removes the files of every part', async () => {
+    const { user, room, device, authHeader } = await setup();
+    const clip = (await uploadFirstPart(authHeader, room.id, device.id, [])).body.clip;
+    await uploadPart(authHeader, clip.id, 1);
+    await uploadPart(authHeader, clip.id, 2);
+
+    const res = await request(app).delete(`/api/clips/${clip.id}`).set('x-test-clerk-id', user.clerkId);
+
+    expect(res.status).toBe(200);
+    expect(deleteClip).toHaveBeenCalledTimes(3);
+    expect(await prisma.clipPart.count({ where: { clipId: clip.id } })).toBe(0);
+  });
+});
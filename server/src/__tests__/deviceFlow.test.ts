@@ -3,7 +3,7 @@ import request from 'supertest';
 import type { Express } from 'express';
 import { createApp } from '../app.js';
 import { prisma } from '../lib/prisma.js';
-import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+import { createTestUser, createTestRoom, createTestDevice, fakeWebm } from './helpers.js';
 
 let app: Express;
 
@@ -104,6 +104,33 @@ describe('POST /api/events with device credentials', () => {
     expect(stored?.roomId).toBe(room.id);
   });
 
+  it('stores the sound class on sound events', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .post('/api/events')
+      .set('Authorization', authHeader)
+      .send({ roomId: room.id, type: 'sound', deviceId: device.id, confidence: 0.7, soundClass: 'bark' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.event.soundClass).toBe('bark');
+  });
+
+  it('rejects unknown sound classes', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .post('/api/events')
+      .set('Authorization', authHeader)
+      .send({ roomId: room.id, type: 'sound', deviceId: device.id, soundClass: 'doorbell' });
+
+    expect(res.status).toBe(400);
+  });
+
   it("rejects events for another room — even the same owner's", async () => {
     const user = await createTestUser();
     const room = await createTestRoom(user.id);
@@ -126,6 +153,82 @@ describe('POST /api/events with device credentials', () => {
   });
 });
 
+describe('PATCH /api/events/:id/episode', () => {
+  it('records episode duration and reports active minutes', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const created = await request(app)
+      .post('/api/events')
+      .set('Authorization', authHeader)
+      .send({ roomId: room.id, type: 'sound', deviceId: device.id, confidence: 0.6 });
+    const eventId = created.body.event.id;
+
+    const res = await request(app)
+      .patch(`/api/events/${eventId}/episode`)
+      .set('Authorization', authHeader)
+      .send({ durationSeconds: 150, peakConfidence: 0.95, averageConfidence: 0.7, ended: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.event.duration).toBe(150);
+    expect(
+      new Date(res.body.event.endedAt).getTime() - new Date(res.body.event.timestamp).getTime()
+    ).toBe(150_000);
+
+    const stats = await request(app)
+      .get(`/api/events/stats/${room.id}`)
+      .set('x-test-clerk-id', user.clerkId);
+    expect(stats.body.stats.activeMinutes.total).toBe(2.5);
+
+    const list = await request(app)
+      .get('/api/events')
+      .query({ roomId: room.id })
+      .set('x-test-clerk-id', user.clerkId);
+    expect(list.body.activeMinutes).toBe(2.5);
+    expect(list.body.events[0].peakConfidence).toBe(0.95);
+  });
+
+  it('leaves ongoing episodes open', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const created = await request(app)
+      .post('/api/events')
+      .set('Authorization', authHeader)
+      .send({ roomId: room.id, type: 'motion', deviceId: device.id, confidence: 0.6 });
+
+    const res = await request(app)
+      .patch(`/api/events/${created.body.event.id}/episode`)
+      .set('Authorization', authHeader)
+      .send({ durationSeconds: 20, peakConfidence: 0.8, averageConfidence: 0.7 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.event.endedAt).toBeNull();
+    expect(res.body.event.duration).toBe(20);
+  });
+
+  it("rejects updates to another room's events", async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const otherRoom = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+    const { authHeader: otherAuth } = await createTestDevice(otherRoom.id, user.id);
+
+    const event = await prisma.detectionEvent.create({
+      data: { type: 'motion', deviceId: device.id, roomId: room.id },
+    });
+
+    const res = await request(app)
+      .patch(`/api/events/${event.id}/episode`)
+      .set('Authorization', otherAuth)
+      .send({ durationSeconds: 5, peakConfidence: 0.5, averageConfidence: 0.5, ended: true });
+
+    expect(res.status).toBe(403);
+  });
+});
+
 describe('POST /api/clips with device credentials', () => {
   it('uploads a clip into its own room', async () => {
     const user = await createTestUser();
@@ -135,7 +238,7 @@ describe('POST /api/clips with device credentials', () => {
     const res = await request(app)
       .post('/api/clips')
       .set('Authorization', authHeader)
-      .attach('video', Buffer.from('fake-webm-bytes'), {
+      .attach('video', fakeWebm(), {
         filename: 'clip.webm',
         contentType: 'video/webm',
       })
@@ -159,7 +262,7 @@ describe('POST /api/clips with device credentials', () => {
     const res = await request(app)
       .post('/api/clips')
       .set('Authorization', authHeader)
-      .attach('video', Buffer.from('fake-webm-bytes'), {
+      .attach('video', fakeWebm(), {
         filename: 'clip.webm',
         contentType: 'video/webm',
       })
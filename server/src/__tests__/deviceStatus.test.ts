@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+import { sendDeviceStatusNotification } from '../services/pushNotifications.js';
+import {
+  sweepDevices,
+  markDeviceSeen,
+  OFFLINE_AFTER_MS,
+  OFFLINE_ALERT_GRACE_MS,
+} from '../services/deviceStatus.js';
+
+vi.mock('../services/pushNotifications.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/pushNotifications.js')>()),
+  sendDeviceStatusNotification: vi.fn().mockResolvedValue({ sent: 1, failed: 0 }),
+}));
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  vi.mocked(sendDeviceStatusNotification).mockClear();
+});
+
+async function createCamera(state: {
+  isOnline: boolean;
+  lastSeen?: Date;
+  offlineSince?: Date;
+  offlineNotifiedAt?: Date;
+}) {
+  const user = await createTestUser();
+  const room = await createTestRoom(user.id);
+  const camera = await createTestDevice(room.id, user.id);
+  await prisma.device.update({ where: { id: camera.device.id }, data: state });
+  return { user, ...camera };
+}
+
+function notificationsFor(deviceId: string) {
+  return vi
+    .mocked(sendDeviceStatusNotification)
+    .mock.calls.filter(([, event]) => event.deviceId === deviceId)
+    .map(([, event]) => event);
+}
+
+describe('offline sweeper', () => {
+  it('marks silent cameras offline and records the transition', async () => {
+    const now = new Date();
+    const { user, device } = await createCamera({
+      isOnline: true,
+      lastSeen: new Date(now.getTime() - OFFLINE_AFTER_MS - 1000),
+    });
+
+    await sweepDevices(now);
+
+    const updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated.isOnline).toBe(false);
+    expect(updated.offlineSince).toEqual(now);
+
+    const res = await request(app)
+      .get(`/api/devices/${device.id}/status-events`)
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(res.body.events).toHaveLength(1);
+    expect(res.body.events[0]).toMatchObject({ status: 'offline', reason: 'heartbeat_timeout' });
+
+    // Still inside the grace period
+    expect(notificationsFor(device.id)).toHaveLength(0);
+  });
+
+  it('leaves cameras that were seen recently alone', async () => {
+    const now = new Date();
+    const { device } = await createCamera({ isOnline: true, lastSeen: now });
+
+    await sweepDevices(now);
+
+    const updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated.isOnline).toBe(true);
+  });
+
+  it('alerts once after the grace period', async () => {
+    const now = new Date();
+    const { device } = await createCamera({
+      isOnline: false,
+      offlineSince: new Date(now.getTime() - OFFLINE_ALERT_GRACE_MS - 1000),
+    });
+
+    await sweepDevices(now);
+    await sweepDevices(new Date(now.getTime() + 60_000));
+
+    const sent = notificationsFor(device.id);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].status).toBe('offline');
+
+    const updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated.offlineNotifiedAt).toEqual(now);
+  });
+});
+
+describe('coming back online', () => {
+  it('sends a back-online notice when the camera reconnects after an alert', async () => {
+    const offlineSince = new Date(Date.now() - 30 * 60_000);
+    const { device, authHeader } = await createCamera({
+      isOnline: false,
+      offlineSince,
+      offlineNotifiedAt: new Date(offlineSince.getTime() + OFFLINE_ALERT_GRACE_MS),
+    });
+
+    const res = await request(app).post('/api/tokens/device').set('Authorization', authHeader);
+    expect(res.status).toBe(200);
+
+    const updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated).toMatchObject({ isOnline: true, offlineSince: null, offlineNotifiedAt: null });
+
+    const events = await prisma.deviceStatusEvent.findMany({ where: { deviceId: device.id } });
+    expect(events.map((e) => e.status)).toEqual(['online']);
+
+    const sent = notificationsFor(device.id);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ status: 'online', offlineMinutes: 30 });
+  });
+
+  it('stays quiet when the outage was shorter than the grace period', async () => {
+    const { device } = await createCamera({
+      isOnline: false,
+      offlineSince: new Date(Date.now() - 60_000),
+    });
+
+    await markDeviceSeen(device.id);
+
+    const events = await prisma.deviceStatusEvent.findMany({ where: { deviceId: device.id } });
+    expect(events.map((e) => e.status)).toEqual(['online']);
+    expect(notificationsFor(device.id)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,399 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+const couchZone = {
+  id: 'zone_couch',
+  name: 'Couch',
+  kind: 'include',
+  enabled: true,
+  points: [
+    { x: 0.1, y: 0.5 },
+    { x: 0.6, y: 0.5 },
+    { x: 0.6, y: 0.9 },
+    { x: 0.1, y: 0.9 },
+  ],
+};
+
+describe('motion zones', () => {
+  it('lets the owner save zones and the camera read them back', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const put = await request(app)
+      .put(`/api/devices/${device.id}/zones`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ zones: [couchZone] });
+
+    expect(put.status).toBe(200);
+
+    const get = await request(app)
+      .get(`/api/devices/${device.id}/zones`)
+      .set('Authorization', authHeader);
+
+    expect(get.status).toBe(200);
+    expect(get.body.zones).toEqual([couchZone]);
+  });
+
+  it('rejects zones with coordinates outside the frame', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .put(`/api/devices/${device.id}/zones`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ zones: [{ ...couchZone, points: [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 1 }] }] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("does not let a camera read another device's zones", async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { authHeader } = await createTestDevice(room.id, user.id);
+    const { device: other } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .get(`/api/devices/${other.id}/zones`)
+      .set('Authorization', authHeader);
+
+    expect(res.status).toBe(403);
+  });
+
+  it("does not let another user edit a device's zones", async () => {
+    const owner = await createTestUser();
+    const room = await createTestRoom(owner.id);
+    const { device } = await createTestDevice(room.id, owner.id);
+    const stranger = await createTestUser();
+
+    const res = await request(app)
+      .put(`/api/devices/${device.id}/zones`)
+      .set('x-test-clerk-id', stranger.clerkId)
+      .send({ zones: [couchZone] });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('stores the zone that fired on the detection event', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .post('/api/events')
+      .set('Authorization', authHeader)
+      .send({
+        roomId: room.id,
+        type: 'motion',
+        deviceId: device.id,
+        confidence: 0.8,
+        zoneId: couchZone.id,
+        zoneName: couchZone.name,
+      });
+
+    expect(res.status).toBe(201);
+    const stored = await prisma.detectionEvent.findUnique({
+      where: { id: res.body.event.id },
+    });
+    expect(stored?.zoneId).toBe('zone_couch');
+    expect(stored?.zoneName).toBe('Couch');
+  });
+});
+
+describe('detection settings', () => {
+  it('returns defaults for a new device', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .get(`/api/devices/${device.id}/settings`)
+      .set('Authorization', authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.settings).toMatchObject({
+      motionEnabled: true,
+      soundEnabled: true,
+      motionSensitivity: 0.5,
+      cooldownSeconds: 30,
+    });
+  });
+
+  it('persists viewer edits for the camera to load', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const patch = await request(app)
+      .patch(`/api/devices/${device.id}/settings`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ motionSensitivity: 0.8, cooldownSeconds: 120 });
+
+    expect(patch.status).toBe(200);
+
+    // A second partial update keeps the first
+    await request(app)
+      .patch(`/api/devices/${device.id}/settings`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ soundEnabled: false });
+
+    const get = await request(app)
+      .get(`/api/devices/${device.id}/settings`)
+      .set('Authorization', authHeader);
+
+    expect(get.body.settings).toMatchObject({
+      motionSensitivity: 0.8,
+      cooldownSeconds: 120,
+      soundEnabled: false,
+    });
+  });
+
+  it('rejects out-of-range values', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .patch(`/api/devices/${device.id}/settings`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ motionSensitivity: 3 });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("does not let a camera read another device's settings", async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { authHeader } = await createTestDevice(room.id, user.id);
+    const { device: other } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .get(`/api/devices/${other.id}/settings`)
+      .set('Authorization', authHeader);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('ignores stored keys that are no longer valid', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    await prisma.device.update({
+      where: { id: device.id },
+      data: { detectionSettings: JSON.stringify({ motionSensitivity: 'high', cooldownSeconds: 60 }) },
+    });
+
+    const res = await request(app)
+      .get(`/api/devices/${device.id}/settings`)
+      .set('Authorization', authHeader);
+
+    expect(res.body.settings.motionSensitivity).toBe(0.5);
+    expect(res.body.settings.cooldownSeconds).toBe(60);
+  });
+});
+
+describe('device health', () => {
+  const health = {
+    battery: { level: 0.42, charging: false },
+    thermal: null,
+    video: { fps: 24, width: 1280, height: 720 },
+    connectionQuality: 'good',
+    syncQueue: 3,
+    uptimeSeconds: 3600,
+  };
+
+  it('stores the latest snapshot reported by the camera', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const put = await request(app)
+      .put(`/api/devices/${device.id}/health`)
+      .set('Authorization', authHeader)
+      .send(health);
+
+    expect(put.status).toBe(200);
+
+    const get = await request(app)
+      .get(`/api/devices/${device.id}/health`)
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(get.status).toBe(200);
+    expect(get.body.health).toEqual(health);
+    expect(get.body.reportedAt).toBeTruthy();
+  });
+
+  it('returns null before the first report', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .get(`/api/devices/${device.id}/health`)
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(res.body).toEqual({ health: null, reportedAt: null });
+  });
+
+  it('rejects malformed telemetry', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .put(`/api/devices/${device.id}/health`)
+      .set('Authorization', authHeader)
+      .send({ ...health, battery: { level: 42, charging: false } });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('does not let a camera report for another device', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { authHeader } = await createTestDevice(room.id, user.id);
+    const { device: other } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .put(`/api/devices/${other.id}/health`)
+      .set('Authorization', authHeader)
+      .send(health);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('requires device credentials to report', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .put(`/api/devices/${device.id}/health`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send(health);
+
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('device heartbeat', () => {
+  it('marks the camera online and returns directives', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .post(`/api/devices/${device.id}/heartbeat`)
+      .set('Authorization', authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      armingMode: 'away',
+      armed: true,
+      settingsVersion: 0,
+      continuousRecording: false,
+      repairRequired: false,
+    });
+
+    const updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated.isOnline).toBe(true);
+    expect(updated.lastSeen).not.toBeNull();
+  });
+
+  it('stores telemetry sent along with the heartbeat', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+    const health = {
+      battery: null,
+      thermal: 'fair',
+      video: null,
+      connectionQuality: 'excellent',
+      syncQueue: 0,
+      uptimeSeconds: 12,
+    };
+
+    await request(app)
+      .post(`/api/devices/${device.id}/heartbeat`)
+      .set('Authorization', authHeader)
+      .send({ health });
+
+    const res = await request(app)
+      .get(`/api/devices/${device.id}/health`)
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(res.body.health).toEqual(health);
+  });
+
+  it('bumps the settings version when settings or zones change', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    await request(app)
+      .patch(`/api/devices/${device.id}/settings`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ cooldownSeconds: 90 });
+    await request(app)
+      .put(`/api/devices/${device.id}/zones`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ zones: [] });
+
+    const res = await request(app)
+      .post(`/api/devices/${device.id}/heartbeat`)
+      .set('Authorization', authHeader);
+
+    expect(res.body.settingsVersion).toBe(2);
+  });
+
+  it('reports the room arming mode override', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+    await prisma.room.update({ where: { id: room.id }, data: { armingMode: 'off' } });
+
+    const res = await request(app)
+      .post(`/api/devices/${device.id}/heartbeat`)
+      .set('Authorization', authHeader);
+
+    expect(res.body).toMatchObject({ armingMode: 'off', armed: false });
+  });
+
+  it('tells a camera removed from its room to pair again', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+    await prisma.device.update({ where: { id: device.id }, data: { roomId: null } });
+
+    const res = await request(app)
+      .post(`/api/devices/${device.id}/heartbeat`)
+      .set('Authorization', authHeader);
+
+    expect(res.status).toBe(403);
+    expect(res.body.repairRequired).toBe(true);
+  });
+
+  it('no longer accepts viewer sessions', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .post(`/api/devices/${device.id}/heartbeat`)
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+import { sendDetectionNotification } from '../services/pushNotifications.js';
+import { MAX_THUMBNAIL_BYTES } from '../services/eventThumbnails.js';
+
+vi.mock('../services/pushNotifications.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/pushNotifications.js')>()),
+  isConfigured: () => true,
+  sendDetectionNotification: vi.fn().mockResolvedValue({ sent: 1, failed: 0 }),
+}));
+
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.from('fake-jpeg-bytes')]);
+
+// A signed link to a locally stored snapshot
+const SIGNED_THUMBNAIL = /^\/api\/files\/thumbnails\/.+\.jpg\?expires=\d+&signature=/;
+
+let app: Express;
+let tmpDir: string;
+
+beforeAll(() => {
+  // Local storage signs its links, like S3 and R2 do in production
+  tmpDir = mkdtempSync(path.join(os.tmpdir(), 'event-thumbnails-'));
+  process.env.STORAGE_TYPE = 'local';
+  process.env.STORAGE_PATH = tmpDir;
+  app = createApp();
+});
+
+afterAll(() => {
+  process.env.STORAGE_TYPE = 'memory';
+  delete process.env.STORAGE_PATH;
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.mocked(sendDetectionNotification).mockClear();
+});
+
+async function setup() {
+  const user = await createTestUser();
+  const room = await createTestRoom(user.id);
+  const camera = await createTestDevice(room.id, user.id);
+  return { user, room, ...camera };
+}
+
+function createEvent(authHeader: string, roomId: string, deviceId: string, extra: object = {}) {
+  return request(app)
+    .post('/api/events')
+    .set('Authorization', authHeader)
+    .send({ roomId, type: 'motion', deviceId, confidence: 0.9, ...extra });
+}
+
+function uploadThumbnail(authHeader: string, eventId: string, image: Buffer = JPEG) {
+  return request(app)
+    .put(`/api/events/${eventId}/thumbnail`)
+    .set('Authorization', authHeader)
+    .set('Content-Type', 'image/jpeg')
+    .send(image);
+}
+
+describe('PUT /api/events/:id/thumbnail', () => {
+  it('stores the snapshot behind a link an img tag can load', async () => {
+    const { user, room, device, authHeader } = await setup();
+    const created = await createEvent(authHeader, room.id, device.id, { sendNotification: false });
+
+    const res = await uploadThumbnail(authHeader, created.body.event.id);
+
+    expect(res.status).toBe(200);
+    expect(res.body.event.thumbnailPath).toMatch(new RegExp(`^thumbnails/${user.id}/${room.id}/.+\\.jpg$`));
+    expect(res.body.event.thumbnailUrl).toMatch(SIGNED_THUMBNAIL);
+
+    const list = await request(app)
+      .get(`/api/events?roomId=${room.id}`)
+      .set('x-test-clerk-id', user.clerkId);
+    expect(list.body.events[0].thumbnailUrl).toMatch(SIGNED_THUMBNAIL);
+
+    // No session: the signature is the only credential
+    const image = await request(app).get(res.body.event.thumbnailUrl).responseType('blob');
+    expect(image.status).toBe(200);
+    expect(image.headers['content-type']).toBe('image/jpeg');
+    expect(image.body).toEqual(JPEG);
+  });
+
+  it('gives no link when the backend cannot sign one', async () => {
+    const { user, room, device, authHeader } = await setup();
+    const created = await createEvent(authHeader, room.id, device.id, { sendNotification: false });
+    process.env.STORAGE_TYPE = 'memory';
+
+    const res = await uploadThumbnail(authHeader, created.body.event.id).finally(() => {
+      process.env.STORAGE_TYPE = 'local';
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.event.thumbnailUrl).toBeNull();
+
+    // The owner can still fetch it with their session
+    const image = await request(app)
+      .get(`/api/events/${created.body.event.id}/thumbnail`)
+      .set('x-test-clerk-id', user.clerkId)
+      .responseType('blob');
+    expect(image.status).toBe(200);
+    expect(image.body).toEqual(JPEG);
+  });
+
+  it('rejects anything that is not a JPEG', async () => {
+    const { room, device, authHeader } = await setup();
+    const created = await createEvent(authHeader, room.id, device.id, { sendNotification: false });
+
+    const res = await uploadThumbnail(authHeader, created.body.event.id, Buffer.from('<svg onload=alert(1)>'));
+
+    expect(res.status).toBe(415);
+  });
+
+  it('rejects oversized images', async () => {
+    const { room, device, authHeader } = await setup();
+    const created = await createEvent(authHeader, room.id, device.id, { sendNotification: false });
+
+    const huge = Buffer.concat([JPEG, Buffer.alloc(MAX_THUMBNAIL_BYTES)]);
+    const res = await uploadThumbnail(authHeader, created.body.event.id, huge);
+
+    expect(res.status).toBe(413);
+  });
+
+  it('refuses a camera from another room', async () => {
+    const { user, room, device, authHeader } = await setup();
+    const otherRoom = await createTestRoom(user.id);
+    const otherCamera = await createTestDevice(otherRoom.id, user.id);
+    const created = await createEvent(authHeader, room.id, device.id, { sendNotification: false });
+
+    const res = await uploadThumbnail(otherCamera.authHeader, created.body.event.id);
+
+    expect(res.status).toBe(403);
+  });
+
+  it("hides other users' thumbnails", async () => {
+    const { room, device, authHeader } = await setup();
+    const stranger = await createTestUser();
+    const created = await createEvent(authHeader, room.id, device.id, { sendNotification: false });
+    await uploadThumbnail(authHeader, created.body.event.id);
+
+    const res = await request(app)
+      .get(`/api/events/${created.body.event.id}/thumbnail`)
+      .set('x-test-clerk-id', stranger.clerkId);
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('push notifications with a pending thumbnail', () => {
+  it('holds the push until the snapshot arrives, then includes it', async () => {
+    const { room, device, authHeader } = await setup();
+
+    const created = await createEvent(authHeader, room.id, device.id, { thumbnailPending: true });
+    expect(created.status).toBe(201);
+    expect(sendDetectionNotification).not.toHaveBeenCalled();
+
+    await uploadThumbnail(authHeader, created.body.event.id);
+
+    await vi.waitFor(() => expect(sendDetectionNotification).toHaveBeenCalledTimes(1));
+    expect(vi.mocked(sendDetectionNotification).mock.calls[0][1]).toMatchObject({
+      type: 'motion',
+      image: expect.stringMatching(SIGNED_THUMBNAIL),
+    });
+    await vi.waitFor(async () => {
+      const event = await prisma.detectionEvent.findUnique({ where: { id: created.body.event.id } });
+      expect(event?.notificationSent).toBe(true);
+    });
+  });
+
+  it('sends right away when no snapshot is coming', async () => {
+    const { room, device, authHeader } = await setup();
+
+    await createEvent(authHeader, room.id, device.id);
+
+    expect(sendDetectionNotification).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(sendDetectionNotification).mock.calls[0][1].image).toBeUndefined();
+  });
+});
+
+describe('clip thumbnails', () => {
+  it('uses the snapshot of the first event the clip recorded', async () => {
+    const { user, room, device, authHeader } = await setup();
+    const created = await createEvent(authHeader, room.id, device.id, { sendNotification: false });
+    const uploaded = await uploadThumbnail(authHeader, created.body.event.id);
+    await prisma.clip.create({
+      data: {
+        filename: 'clip.webm',
+        storagePath: `clips/${user.id}/${room.id}/clip.webm`,
+        storageType: 'memory',
+        fileSize: 10,
+        detectionType: 'motion',
+        confidence: 0.9,
+        userId: user.id,
+        roomId: room.id,
+        deviceId: device.id,
+        recordedAt: new Date(),
+        events: { connect: { id: created.body.event.id } },
+      },
+    });
+
+    const res = await request(app).get(`/api/clips?roomId=${room.id}`).set('x-test-clerk-id', user.clerkId);
+
+    expect(res.status).toBe(200);
+    // Same key, signed afresh
+    const unsigned = (url: string) => url.split('?')[0];
+    expect(unsigned(res.body.clips[0].thumbnailUrl)).toBe(unsigned(uploaded.body.event.thumbnailUrl));
+    expect(res.body.clips[0].events).toBeUndefined();
+  });
+});
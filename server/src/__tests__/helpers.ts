@@ -59,3 +59,8 @@ export async function createTestDevice(roomId: string, userId: string) {
   });
   return { device, secret, authHeader: `Device ${device.id}.${secret}` };
 }
+
+/** Upload bytes that pass the video signature check: an EBML header, then filler */
+export function fakeWebm(filler = 'fake-webm-bytes'): Buffer {
+  return Buffer.concat([Buffer.from([0x1a, 0x45, 0xdf, 0xa3]), Buffer.from(filler)]);
+}
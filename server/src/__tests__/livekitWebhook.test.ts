@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import crypto from 'crypto';
+import type { Express } from 'express';
+import { AccessToken } from 'livekit-server-sdk';
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+// Sign the way LiveKit does: a JWT from our API key carrying the body's sha256
+async function sign(body: string, secret = process.env.LIVEKIT_API_SECRET!): Promise<string> {
+  const token = new AccessToken(process.env.LIVEKIT_API_KEY, secret);
+  token.sha256 = crypto.createHash('sha256').update(body).digest('base64');
+  return token.toJwt();
+}
+
+async function deliver(payload: Record<string, unknown>) {
+  const body = JSON.stringify({ id: `EV_${crypto.randomBytes(6).toString('hex')}`, ...payload });
+  return request(app)
+    .post('/api/livekit/webhook')
+    .set('Content-Type', 'application/webhook+json')
+    .set('Authorization', await sign(body))
+    .send(body);
+}
+
+const seconds = (date: Date) => String(Math.floor(date.getTime() / 1000));
+
+function participant(identity: string, joinedAt = new Date()) {
+  return { sid: `PA_${crypto.randomBytes(6).toString('hex')}`, identity, joinedAt: seconds(joinedAt) };
+}
+
+describe('POST /api/livekit/webhook', () => {
+  it('rejects unsigned requests', async () => {
+    const res = await request(app)
+      .post('/api/livekit/webhook')
+      .set('Content-Type', 'application/webhook+json')
+      .send(JSON.stringify({ event: 'room_finished' }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects a body that does not match the signature', async () => {
+    const signed = JSON.stringify({ event: 'room_started' });
+    const res = await request(app)
+      .post('/api/livekit/webhook')
+      .set('Content-Type', 'application/webhook+json')
+      .set('Authorization', await sign(signed))
+      .send(JSON.stringify({ event: 'room_finished' }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const body = JSON.stringify({ event: 'room_finished' });
+    const res = await request(app)
+      .post('/api/livekit/webhook')
+      .set('Content-Type', 'application/webhook+json')
+      .set('Authorization', await sign(body, 'some-other-secret-some-other-secret'))
+      .send(body);
+
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('camera presence', () => {
+  it('tracks cameras joining and leaving', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+    const camera = participant(device.participantId);
+
+    const joined = await deliver({
+      event: 'participant_joined',
+      room: { name: room.livekitRoom },
+      participant: camera,
+      createdAt: seconds(new Date()),
+    });
+    expect(joined.status).toBe(200);
+
+    let updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated.isOnline).toBe(true);
+    expect(updated.lastSeen).not.toBeNull();
+
+    await deliver({
+      event: 'participant_left',
+      room: { name: room.livekitRoom },
+      participant: camera,
+      createdAt: seconds(new Date(Date.now() + 1000)),
+    });
+
+    updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated.isOnline).toBe(false);
+
+    const events = await prisma.deviceStatusEvent.findMany({ where: { deviceId: device.id } });
+    expect(events).toMatchObject([{ status: 'offline', reason: 'participant_left' }]);
+  });
+
+  it('ignores a late participant_left after the camera reconnected', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+    await prisma.device.update({
+      where: { id: device.id },
+      data: { isOnline: true, lastSeen: new Date() },
+    });
+
+    await deliver({
+      event: 'participant_left',
+      room: { name: room.livekitRoom },
+      participant: participant(device.participantId),
+      createdAt: seconds(new Date(Date.now() - 60_000)),
+    });
+
+    const updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated.isOnline).toBe(true);
+  });
+});
+
+describe('viewer sessions', () => {
+  it('logs one session per connection, even when delivered twice', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const joinedAt = new Date(Date.now() - 90_000);
+    const viewer = participant('viewer_ab12cd34', joinedAt);
+    const joinedEvent = {
+      event: 'participant_joined',
+      room: { name: room.livekitRoom },
+      participant: viewer,
+      createdAt: seconds(joinedAt),
+    };
+
+    await deliver(joinedEvent);
+    await deliver(joinedEvent);
+    await deliver({
+      event: 'participant_left',
+      room: { name: room.livekitRoom },
+      participant: viewer,
+      createdAt: seconds(new Date(joinedAt.getTime() + 90_000)),
+    });
+
+    const res = await request(app)
+      .get(`/api/rooms/${room.id}/viewer-sessions`)
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(res.status).toBe(200);
+    expect(res.body.sessions).toHaveLength(1);
+    expect(res.body.sessions[0]).toMatchObject({ identity: 'viewer_ab12cd34', duration: 90 });
+  });
+
+  it('closes open sessions and takes cameras offline when the room finishes', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device } = await createTestDevice(room.id, user.id);
+    const startedAt = new Date(Date.now() - 60_000);
+    await prisma.device.update({
+      where: { id: device.id },
+      data: { isOnline: true, lastSeen: startedAt },
+    });
+
+    await deliver({
+      event: 'participant_joined',
+      room: { name: room.livekitRoom },
+      participant: participant('viewer_feedbeef', startedAt),
+      createdAt: seconds(startedAt),
+    });
+    await deliver({
+      event: 'room_finished',
+      room: { name: room.livekitRoom },
+      createdAt: seconds(new Date()),
+    });
+
+    const sessions = await prisma.viewerSession.findMany({ where: { roomId: room.id } });
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].leftAt).not.toBeNull();
+
+    const updated = await prisma.device.findUniqueOrThrow({ where: { id: device.id } });
+    expect(updated.isOnline).toBe(false);
+  });
+});
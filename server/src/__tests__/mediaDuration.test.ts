@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { getMediaDuration, getHeaderDuration } from '../services/mediaDuration.js';
+
+// Minimal EBML writers: IDs as raw bytes, sizes as 8-byte vints
+const id = (value: number) => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+const size = (n: number) => [0x01, 0, 0, 0, (n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const el = (elementId: number, payload: number[]) => [...id(elementId), ...size(payload.length), ...payload];
+const unknownSize = (elementId: number) => [...id(elementId), 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff];
+const float64 = (value: number) => {
+  const buf = Buffer.alloc(8);
+  buf.writeDoubleBE(value);
+  return [...buf];
+};
+
+const EBML = el(0x1a45dfa3, el(0x4282, [...Buffer.from('webm')]));
+const TIMECODE_SCALE = el(0x2ad7b1, [0x0f, 0x42, 0x40]); // 1,000,000 ns
+
+// A cluster of 30fps SimpleBlocks on track 1
+function cluster(timecode: number, frames: number, known: boolean): number[] {
+  const children = [...el(0xe7, [(timecode >> 8) & 0xff, timecode & 0xff])];
+  for (let i = 0; i < frames; i++) {
+    const offset = Math.round((i * 1000) / 30);
+    children.push(...el(0xa3, [0x81, (offset >> 8) & 0xff, offset & 0xff, i === 0 ? 0x80 : 0, 0, 0, 0]));
+  }
+  return known ? el(0x1f43b675, children) : [...unknownSize(0x1f43b675), ...children];
+}
+
+describe('getMediaDuration', () => {
+  it('reads the WebM Duration from Info', () => {
+    const file = Buffer.from([
+      ...EBML,
+      ...el(0x18538067, [...el(0x1549a966, [...TIMECODE_SCALE, ...el(0x4489, float64(12_500))]), ...cluster(0, 30, true)]),
+    ]);
+    expect(getMediaDuration(file, 'video/webm')).toBeCloseTo(12.5);
+  });
+
+  it('falls back to block timecodes for live WebM without a Duration', () => {
+    // What MediaRecorder produces: unknown-size Segment and Clusters
+    const file = Buffer.from([
+      ...EBML,
+      ...unknownSize(0x18538067),
+      ...el(0x1549a966, TIMECODE_SCALE),
+      ...cluster(0, 30, false),
+      ...cluster(1000, 30, false),
+      ...cluster(2000, 30, false),
+    ]);
+    expect(getMediaDuration(file, 'video/webm')).toBeCloseTo(3, 1);
+  });
+
+  it('reads the MP4 movie header', () => {
+    const mvhd = Buffer.alloc(100);
+    mvhd.writeUInt32BE(1000, 12); // timescale
+    mvhd.writeUInt32BE(8_000, 16); // duration
+    const box = (type: string, payload: Buffer) => {
+      const header = Buffer.alloc(8);
+      header.writeUInt32BE(payload.length + 8);
+      header.write(type, 4, 'latin1');
+      return Buffer.concat([header, payload]);
+    };
+    const file = Buffer.concat([box('ftyp', Buffer.from('isom0000')), box('moov', box('mvhd', mvhd))]);
+    expect(getMediaDuration(file, 'video/mp4')).toBe(8);
+  });
+
+  it('returns null for files it cannot read', () => {
+    expect(getMediaDuration(Buffer.from('not a video'), 'video/webm')).toBeNull();
+    expect(getMediaDuration(Buffer.from('not a video'), 'video/mp4')).toBeNull();
+  });
+});
+
+describe('getHeaderDuration', () => {
+  it('reads Duration from the start of the file', () => {
+    const head = Buffer.from([
+      ...EBML,
+      ...unknownSize(0x18538067),
+      ...el(0x1549a966, [...TIMECODE_SCALE, ...el(0x4489, float64(42_000))]),
+      ...cluster(0, 5, false).slice(0, 20),
+    ]);
+    expect(getHeaderDuration(head, 'video/webm')).toBeCloseTo(42);
+  });
+
+  it("doesn't guess from the frames of a partial file", () => {
+    const head = Buffer.from([
+      ...EBML,
+      ...unknownSize(0x18538067),
+      ...el(0x1549a966, TIMECODE_SCALE),
+      ...cluster(0, 30, false),
+    ]);
+    expect(getHeaderDuration(head, 'video/webm')).toBeNull();
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Readable } from 'stream';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createTestUser, createTestRoom, createTestDevice, fakeWebm } from './helpers.js';
+import { pruneRecordings } from '../services/recordings.js';
+import { uploadRecordingSegment, deleteClip } from '../services/storage.service.js';
+
+vi.mock('../services/storage.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/storage.service.js')>()),
+  uploadRecordingSegment: vi.fn(async (userId: string, roomId: string, body: Readable) => {
+    let size = 0;
+    for await (const chunk of body) size += chunk.length;
+    const path = `recordings/${userId}/${roomId}/${Math.random().toString(36).slice(2)}.webm`;
+    return { path, size, storageType: 'memory' };
+  }),
+  deleteClip: vi.fn(async () => {}),
+}));
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  vi.mocked(uploadRecordingSegment).mockClear();
+  vi.mocked(deleteClip).mockClear();
+});
+
+const HOUR = 60 * 60 * 1000;
+
+async function setup({ continuous = true } = {}) {
+  const user = await createTestUser();
+  const room = await prisma.room.update({
+    where: { id: (await createTestRoom(user.id)).id },
+    data: { continuousRecording: continuous },
+  });
+  const camera = await createTestDevice(room.id, user.id);
+  return { user, room, ...camera };
+}
+
+function uploadSegment(authHeader: string, startedAt: Date, endedAt: Date, video = fakeWebm('webm')) {
+  return request(app)
+    .post('/api/recordings/segments')
+    .set('Authorization', authHeader)
+    .field('startedAt', startedAt.toISOString())
+    .field('endedAt', endedAt.toISOString())
+    .attach('video', video, { filename: 'segment.webm', contentType: 'video/webm' });
+}
+
+// EBML header and a Segment whose Info carries a Duration, as cameras write them
+function indexedWebm(seconds: number): Buffer {
+  const el = (id: number[], payload: Buffer) =>
+    Buffer.concat([Buffer.from(id), Buffer.from([0x80 | payload.length]), payload]);
+  const duration = Buffer.alloc(8);
+  duration.writeDoubleBE(seconds * 1000);
+  const info = Buffer.concat([
+    el([0x2a, 0xd7, 0xb1], Buffer.from([0x0f, 0x42, 0x40])), // TimecodeScale: 1ms
+    el([0x44, 0x89], duration),
+  ]);
+  return Buffer.concat([
+    el([0x1a, 0x45, 0xdf, 0xa3], el([0x42, 0x82], Buffer.from('webm'))),
+    el([0x18, 0x53, 0x80, 0x67], el([0x15, 0x49, 0xa9, 0x66], info)),
+  ]);
+}
+
+async function createSegment(roomId: string, deviceId: string, startedAt: Date, seconds = 60) {
+  return prisma.recording.create({
+    data: {
+      filename: 'segment.webm',
+      storagePath: `recordings/test/${startedAt.getTime()}-${Math.random()}.webm`,
+      startedAt,
+      endedAt: new Date(startedAt.getTime() + seconds * 1000),
+      duration: seconds,
+      status: 'complete',
+      roomId,
+      deviceId,
+    },
+  });
+}
+
+describe('POST /api/recordings/segments', () => {
+  it('stores a segment from a paired camera', async () => {
+    const { room, device, authHeader } = await setup();
+    const startedAt = new Date(Date.now() - 60_000);
+    const endedAt = new Date();
+
+    const res = await uploadSegment(authHeader, startedAt, endedAt);
+
+    expect(res.status).toBe(201);
+    expect(res.body.recording).toMatchObject({
+      roomId: room.id,
+      deviceId: device.id,
+      status: 'complete',
+      duration: 60,
+      fileSize: 8,
+      startedAt: startedAt.toISOString(),
+      endedAt: endedAt.toISOString(),
+    });
+    expect(uploadRecordingSegment).toHaveBeenCalledOnce();
+  });
+
+  it('takes the duration from the file header over the camera clock', async () => {
+    const { authHeader } = await setup();
+    const endedAt = new Date();
+
+    const res = await uploadSegment(authHeader, new Date(endedAt.getTime() - 60_000), endedAt, indexedWebm(57.4));
+
+    expect(res.status).toBe(201);
+    expect(res.body.recording.duration).toBe(57);
+  });
+
+  it('rejects segments when continuous recording is off', async () => {
+    const { authHeader } = await setup({ continuous: false });
+
+    const res = await uploadSegment(authHeader, new Date(Date.now() - 60_000), new Date());
+
+    expect(res.status).toBe(409);
+    expect(uploadRecordingSegment).not.toHaveBeenCalled();
+  });
+
+  it('rejects segments that end before they start or run too long', async () => {
+    const { authHeader } = await setup();
+    const now = Date.now();
+
+    const backwards = await uploadSegment(authHeader, new Date(now), new Date(now - 1000));
+    expect(backwards.status).toBe(400);
+
+    const tooLong = await uploadSegment(authHeader, new Date(now - HOUR), new Date(now));
+    expect(tooLong.status).toBe(400);
+  });
+
+  it('requires device credentials', async () => {
+    const { user } = await setup();
+
+    const res = await request(app)
+      .post('/api/recordings/segments')
+      .set('x-test-clerk-id', user.clerkId)
+      .field('startedAt', new Date(Date.now() - 60_000).toISOString())
+      .field('endedAt', new Date().toISOString());
+
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('GET /api/recordings', () => {
+  it('lists segments overlapping the range, oldest first', async () => {
+    const { user, room, device } = await setup();
+    const base = new Date('2026-10-01T12:00:00Z').getTime();
+    await createSegment(room.id, device.id, new Date(base - 2 * 60_000)); // ends before range
+    const straddling = await createSegment(room.id, device.id, new Date(base - 30_000));
+    const inside = await createSegment(room.id, device.id, new Date(base + 60_000));
+    await createSegment(room.id, device.id, new Date(base + 10 * 60_000)); // starts after range
+
+    const res = await request(app)
+      .get('/api/recordings')
+      .query({
+        roomId: room.id,
+        from: new Date(base).toISOString(),
+        to: new Date(base + 5 * 60_000).toISOString(),
+      })
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(res.status).toBe(200);
+    expect(res.body.recordings.map((r: { id: string }) => r.id)).toEqual([
+      straddling.id,
+      inside.id,
+    ]);
+  });
+
+  it("hides other users' rooms", async () => {
+    const { room } = await setup();
+    const stranger = await createTestUser();
+
+    const res = await request(app)
+      .get('/api/recordings')
+      .query({ roomId: room.id })
+      .set('x-test-clerk-id', stranger.clerkId);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('rejects ranges longer than a week', async () => {
+    const { user, room } = await setup();
+
+    const res = await request(app)
+      .get('/api/recordings')
+      .query({
+        roomId: room.id,
+        from: new Date(Date.now() - 8 * 24 * HOUR).toISOString(),
+        to: new Date().toISOString(),
+      })
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('continuous recording settings', () => {
+  it('reaches cameras through camera config and the heartbeat', async () => {
+    const { user, room, device, authHeader } = await setup({ continuous: false });
+
+    const patch = await request(app)
+      .patch(`/api/rooms/${room.id}`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ continuousRecording: true, recordingRetentionHours: 48 });
+    expect(patch.status).toBe(200);
+    expect(patch.body.room.recording).toEqual({ continuous: true, retentionHours: 48 });
+
+    const heartbeat = await request(app)
+      .post(`/api/devices/${device.id}/heartbeat`)
+      .set('Authorization', authHeader);
+    expect(heartbeat.body.continuousRecording).toBe(true);
+  });
+});
+
+describe('pruneRecordings', () => {
+  it("deletes segments past the room's retention", async () => {
+    const { room, device } = await setup();
+    await prisma.room.update({ where: { id: room.id }, data: { recordingRetentionHours: 2 } });
+    const now = new Date();
+    const old = await createSegment(room.id, device.id, new Date(now.getTime() - 3 * HOUR));
+    const recent = await createSegment(room.id, device.id, new Date(now.getTime() - HOUR));
+
+    await pruneRecordings(now);
+
+    expect(await prisma.recording.findUnique({ where: { id: old.id } })).toBeNull();
+    expect(await prisma.recording.findUnique({ where: { id: recent.id } })).not.toBeNull();
+    expect(deleteClip).toHaveBeenCalledWith(old.storagePath);
+  });
+});
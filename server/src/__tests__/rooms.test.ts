@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { createApp } from '../app.js';
+import { createTestUser, createTestRoom, createTestDevice } from './helpers.js';
+import { sendRoomData } from '../services/livekit.service.js';
+
+vi.mock('../services/livekit.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/livekit.service.js')>()),
+  sendRoomData: vi.fn().mockResolvedValue(undefined),
+}));
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  vi.mocked(sendRoomData).mockClear();
+});
+
+describe('inactivity alerts', () => {
+  it('lets the owner configure the alert and cameras read it', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { authHeader } = await createTestDevice(room.id, user.id);
+
+    const patch = await request(app)
+      .patch(`/api/rooms/${room.id}`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ inactivityMinutes: 180, inactivityStart: '08:00', inactivityEnd: '20:00' });
+
+    expect(patch.status).toBe(200);
+
+    const res = await request(app)
+      .get(`/api/rooms/${room.id}/camera-config`)
+      .set('Authorization', authHeader);
+
+    expect(res.status).toBe(200);
+    expect(res.body.config.inactivity).toEqual({
+      thresholdMinutes: 180,
+      start: '08:00',
+      end: '20:00',
+    });
+  });
+
+  it('rejects malformed hours', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+
+    const res = await request(app)
+      .patch(`/api/rooms/${room.id}`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ inactivityMinutes: 60, inactivityStart: '8am' });
+
+    expect(res.status).toBe(400);
+    expect(sendRoomData).not.toHaveBeenCalled();
+  });
+
+  it('tells connected cameras to re-fetch after a save', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+
+    const res = await request(app)
+      .patch(`/api/rooms/${room.id}`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ inactivityMinutes: 120 });
+
+    expect(res.status).toBe(200);
+    expect(sendRoomData).toHaveBeenCalledWith(room.livekitRoom, { type: 'room_config_changed' });
+  });
+
+  it("does not let a camera read another room's config", async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const otherRoom = await createTestRoom(user.id);
+    const { authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .get(`/api/rooms/${otherRoom.id}/camera-config`)
+      .set('Authorization', authHeader);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('accepts inactivity events from cameras', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { device, authHeader } = await createTestDevice(room.id, user.id);
+
+    const res = await request(app)
+      .post('/api/events')
+      .set('Authorization', authHeader)
+      .send({ roomId: room.id, type: 'inactivity', deviceId: device.id, confidence: 1 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.event.type).toBe('inactivity');
+  });
+});
+
+describe('arm schedules', () => {
+  it('stores weekly windows and hands them to cameras', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+    const { authHeader } = await createTestDevice(room.id, user.id);
+    const windows = [
+      { day: 1, start: '09:00', end: '17:00' },
+      { day: 5, start: '22:00', end: '06:00' },
+    ];
+
+    const patch = await request(app)
+      .patch(`/api/rooms/${room.id}`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ timezone: 'Europe/Berlin', armSchedule: windows });
+
+    expect(patch.status).toBe(200);
+
+    const res = await request(app)
+      .get(`/api/rooms/${room.id}/camera-config`)
+      .set('Authorization', authHeader);
+
+    expect(res.body.config.schedule.timezone).toBe('Europe/Berlin');
+    expect(res.body.config.schedule.windows).toEqual(windows);
+    expect(typeof res.body.config.schedule.armed).toBe('boolean');
+  });
+
+  it('treats rooms without a schedule as always armed', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+
+    const res = await request(app)
+      .get(`/api/rooms/${room.id}/camera-config`)
+      .set('x-test-clerk-id', user.clerkId);
+
+    expect(res.body.config.schedule).toEqual({ timezone: 'UTC', windows: null, armed: true });
+  });
+
+  it('rejects unknown timezones', async () => {
+    const user = await createTestUser();
+    const room = await createTestRoom(user.id);
+
+    const res = await request(app)
+      .patch(`/api/rooms/${room.id}`)
+      .set('x-test-clerk-id', user.clerkId)
+      .send({ timezone: 'Mars/Olympus_Mons' });
+
+    expect(res.status).toBe(400);
+  });
+});
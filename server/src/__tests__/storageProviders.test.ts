@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Readable } from 'stream';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalProvider } from '../services/storage/localProvider.js';
+import { createMemoryProvider } from '../services/storage/memoryProvider.js';
+import { verifyStorageUrl } from '../services/storage/signedUrls.js';
+import type { StorageProvider } from '../services/storage/index.js';
+
+async function read(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks).toString();
+}
+
+async function keys(provider: StorageProvider, prefix: string): Promise<string[]> {
+  const found: string[] = [];
+  for await (const object of provider.list(prefix)) found.push(object.key);
+  return found.sort();
+}
+
+const body = (text: string) => Readable.from([Buffer.from(text)]);
+
+let tmpDir: string;
+
+beforeAll(() => {
+  tmpDir = mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+});
+
+afterAll(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// Every provider has to behave the same from the outside
+describe.each([
+  ['local', () => createLocalProvider(tmpDir)],
+  ['memory', () => createMemoryProvider()],
+])('%s provider', (_name, create) => {
+  let provider: StorageProvider;
+
+  beforeAll(() => {
+    provider = create();
+  });
+
+  it('stores a stream and reads it back whole or by range', async () => {
+    const { size } = await provider.put('clips/a/one.webm', body('hello world'), 'video/webm');
+
+    expect(size).toBe(11);
+    expect(await read(await provider.get('clips/a/one.webm'))).toBe('hello world');
+    expect(await read(await provider.get('clips/a/one.webm', { start: 6, end: 10 }))).toBe('world');
+  });
+
+  it('reports size, and null for missing keys', async () => {
+    await provider.put('clips/a/two.webm', body('12345'), 'video/webm');
+
+    expect(await provider.head('clips/a/two.webm')).toMatchObject({ key: 'clips/a/two.webm', size: 5 });
+    expect(await provider.head('clips/a/missing.webm')).toBeNull();
+  });
+
+  it('lists by prefix', async () => {
+    await provider.put('clips/b/x.webm', body('x'), 'video/webm');
+    await provider.put('clips/b/nested/y.webm', body('y'), 'video/webm');
+    await provider.put('recordings/b/z.webm', body('z'), 'video/webm');
+
+    expect(await keys(provider, 'clips/b/')).toEqual(['clips/b/nested/y.webm', 'clips/b/x.webm']);
+  });
+
+  it('deletes, and ignores keys that are already gone', async () => {
+    await provider.put('clips/c/gone.webm', body('bye'), 'video/webm');
+
+    await provider.delete('clips/c/gone.webm');
+    await provider.delete('clips/c/gone.webm');
+
+    expect(await provider.head('clips/c/gone.webm')).toBeNull();
+  });
+
+  it('assembles multipart uploads in part order', async () => {
+    const uploadId = await provider.createMultipart('clips/d/multi.webm', 'video/webm');
+    const second = await provider.uploadPart('clips/d/multi.webm', uploadId, 2, Buffer.from('world'));
+    const first = await provider.uploadPart('clips/d/multi.webm', uploadId, 1, Buffer.from('hello '));
+
+    await provider.completeMultipart('clips/d/multi.webm', uploadId, [second, first]);
+
+    expect(await read(await provider.get('clips/d/multi.webm'))).toBe('hello world');
+  });
+
+  it('leaves nothing behind when a multipart upload is aborted', async () => {
+    const uploadId = await provider.createMultipart('clips/e/abandoned.webm', 'video/webm');
+    await provider.uploadPart('clips/e/abandoned.webm', uploadId, 1, Buffer.from('partial'));
+
+    await provider.abortMultipart('clips/e/abandoned.webm', uploadId);
+
+    expect(await provider.head('clips/e/abandoned.webm')).toBeNull();
+    expect(await keys(provider, '')).not.toContain('clips/e/abandoned.webm');
+  });
+
+});
+
+describe('local provider', () => {
+  it('signs URLs that only verify for their own key, until they expire', async () => {
+    const provider = createLocalProvider(tmpDir);
+    const url = new URL((await provider.signedUrl('clips/a/one.webm', 60))!, 'http://local');
+    const expires = url.searchParams.get('expires')!;
+    const signature = url.searchParams.get('signature')!;
+
+    expect(url.pathname).toBe('/api/files/clips/a/one.webm');
+    expect(verifyStorageUrl('clips/a/one.webm', expires, signature)).toBe(true);
+    expect(verifyStorageUrl('clips/a/two.webm', expires, signature)).toBe(false);
+    expect(verifyStorageUrl('clips/a/one.webm', String(Number(expires) + 1), signature)).toBe(false);
+
+    const expired = new URL((await provider.signedUrl('clips/a/one.webm', -1))!, 'http://local');
+    expect(
+      verifyStorageUrl(
+        'clips/a/one.webm',
+        expired.searchParams.get('expires')!,
+        expired.searchParams.get('signature')!
+      )
+    ).toBe(false);
+  });
+
+  it('refuses keys outside its directory', async () => {
+    const provider = createLocalProvider(tmpDir);
+
+    await expect(provider.put('../escape.webm', body('x'), 'video/webm')).rejects.toThrow(
+      'Invalid storage path'
+    );
+    await expect(provider.signedUrl('../escape.webm', 60)).rejects.toThrow('Invalid storage path');
+  });
+});
+
+describe('memory provider', () => {
+  it('has no signed URLs to offer', async () => {
+    expect(await createMemoryProvider().signedUrl('clips/a/one.webm', 60)).toBeNull();
+  });
+});
@@ -7,13 +7,18 @@ import { createProxyMiddleware } from 'http-proxy-middleware';
 import { clerkMiddleware } from '@clerk/express';
 import { authRouter } from './routes/auth.js';
 import { roomsRouter } from './routes/rooms.js';
+import { armingRouter } from './routes/arming.js';
 import { devicesRouter } from './routes/devices.js';
 import { tokensRouter } from './routes/tokens.js';
 import { pairingRouter } from './routes/pairing.js';
 import { eventsRouter } from './routes/events.js';
 import { pushRouter } from './routes/push.js';
 import { clipsRouter } from './routes/clips.js';
+import { clipUploadsRouter } from './routes/clipUploads.js';
+import { recordingsRouter } from './routes/recordings.js';
+import { filesRouter } from './routes/files.js';
 import { stripeRouter } from './routes/stripe.js';
+import { livekitRouter } from './routes/livekit.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -59,6 +64,9 @@ export function createApp(): express.Express {
   // Clerk (Svix) webhook also verifies against the raw body
   app.use('/api/auth/clerk-webhook', express.raw({ type: 'application/json' }));
 
+  // LiveKit signs the exact bytes it sends (as application/webhook+json)
+  app.use('/api/livekit/webhook', express.raw({ type: '*/*' }));
+
   app.use(express.json());
 
   // Clerk authentication middleware
@@ -96,16 +104,26 @@ export function createApp(): express.Express {
   // Routes
   app.use('/api/auth', authRouter);
   app.use('/api/rooms', roomsRouter);
+  app.use('/api/arming', armingRouter);
   app.use('/api/devices', devicesRouter);
   app.use('/api/tokens', tokenLimiter, tokensRouter);
   app.use('/api/pairing', pairingLimiter, pairingRouter);
   app.use('/api/events', eventsRouter);
   app.use('/api/push', pushRouter);
+  // Before clipsRouter, whose /:id routes would otherwise match "uploads"
+  app.use('/api/clips/uploads', clipUploadsRouter);
   app.use('/api/clips', clipsRouter);
+  app.use('/api/recordings', recordingsRouter);
+  app.use('/api/files', filesRouter);
   app.use('/api/stripe', stripeRouter);
+  app.use('/api/livekit', livekitRouter);
 
   // Error handler for API routes
-  app.use('/api', (err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  app.use('/api', (err: Error & { status?: number }, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    // Body parser rejections (malformed JSON, oversized bodies) are the client's
+    if (err.status && err.status >= 400 && err.status < 500) {
+      return res.status(err.status).json({ error: err.message });
+    }
     console.error('Error:', err.message);
     res.status(500).json({ error: 'Internal server error' });
   });
@@ -1,4 +1,7 @@
 import { createApp } from './app.js';
+import { startDeviceSweeper } from './services/deviceStatus.js';
+import { startRecordingPruner } from './services/recordings.js';
+import { startClipUploadPruner } from './services/clipUploads.js';
 
 // Catch crashes
 process.on('uncaughtException', (err) => {
@@ -19,6 +22,15 @@ const server = app.listen(Number(PORT), HOST, () => {
   console.log('Server is listening, PID:', process.pid);
 });
 
+// Marks silent cameras offline and sends the alerts
+startDeviceSweeper();
+
+// Drops continuous-recording segments past each room's retention
+startRecordingPruner();
+
+// Aborts resumable clip uploads the camera gave up on
+startClipUploadPruner();
+
 server.on('error', (err) => {
   console.error('SERVER ERROR:', err);
 });
@@ -0,0 +1,141 @@
+import { randomBytes } from 'crypto';
+import { pipeline } from 'stream/promises';
+import type { Request, Response } from 'express';
+import { getClipStats, getClipStream } from '../services/storage.service.js';
+import type { ByteRange } from '../services/storage/index.js';
+
+/**
+ * Serve a stored file the way media players expect: byte ranges (one or
+ * several), If-Range, ETag/Last-Modified revalidation and HEAD. Ranges are
+ * read from storage directly, so seeking never downloads the whole file.
+ */
+
+interface StoredFileRef {
+  storagePath: string;
+  storageType: string;
+  mimeType: string;
+}
+
+// More ranges than this and we send the whole file instead
+const MAX_RANGES = 16;
+
+// Keys are never rewritten, so size and mtime identify the bytes exactly
+function strongEtag(size: number, lastModified: Date): string {
+  return `"${size.toString(16)}-${lastModified.getTime().toString(16)}"`;
+}
+
+/** If-Range: honor Range only if the validator still matches the file. */
+function ifRangeMatches(header: string, etag: string, lastModified: Date): boolean {
+  const value = header.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    // If-Range needs a strong match; weak validators never qualify
+    return value === etag;
+  }
+  const date = Date.parse(value);
+  return !Number.isNaN(date) && Math.floor(lastModified.getTime() / 1000) * 1000 === date;
+}
+
+/** The `{*path}` wildcard as a storage key; Express 5 hands it over in segments. */
+export function wildcardPath(req: Request): string {
+  const value: string | string[] = req.params.path;
+  return Array.isArray(value) ? value.join('/') : value;
+}
+
+/** Returns false if the file is missing, so the route can send its own 404. */
+export async function sendStoredFile(
+  req: Request,
+  res: Response,
+  file: StoredFileRef
+): Promise<boolean> {
+  const stats = await getClipStats(file.storagePath, file.storageType);
+  if (!stats) return false;
+
+  const { size, lastModified } = stats;
+  const etag = strongEtag(size, lastModified);
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', lastModified.toUTCString());
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+
+  if (req.fresh) {
+    res.status(304).end();
+    return true;
+  }
+
+  const ifRange = req.get('If-Range');
+  const parsed =
+    req.get('Range') && (!ifRange || ifRangeMatches(ifRange, etag, lastModified))
+      ? req.range(size, { combine: true })
+      : undefined;
+
+  if (parsed === -1) {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.status(416).end();
+    return true;
+  }
+
+  // No Range, a malformed one, or too many pieces: the whole file
+  const ranges =
+    parsed !== undefined && parsed !== -2 && parsed.type === 'bytes' && parsed.length <= MAX_RANGES
+      ? [...parsed]
+      : null;
+
+  const { storagePath, storageType, mimeType } = file;
+  let parts: { header: string; range: ByteRange }[] = [];
+  let trailer = '';
+
+  if (!ranges) {
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Length', size);
+  } else if (ranges.length === 1) {
+    const [range] = ranges;
+    res.status(206);
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    // Several ranges: a multipart/byteranges body, one part per range
+    const boundary = randomBytes(12).toString('hex');
+    parts = ranges.map((range) => ({
+      header:
+        `\r\n--${boundary}\r\nContent-Type: ${mimeType}\r\n` +
+        `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`,
+      range,
+    }));
+    trailer = `\r\n--${boundary}--\r\n`;
+    res.status(206);
+    res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+    res.setHeader(
+      'Content-Length',
+      parts.reduce(
+        (total, part) => total + Buffer.byteLength(part.header) + part.range.end - part.range.start + 1,
+        Buffer.byteLength(trailer)
+      )
+    );
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return true;
+  }
+
+  try {
+    if (parts.length === 0) {
+      await pipeline(await getClipStream(storagePath, storageType, ranges?.[0]), res);
+      return true;
+    }
+    for (const part of parts) {
+      res.write(part.header);
+      await pipeline(await getClipStream(storagePath, storageType, part.range), res, { end: false });
+    }
+    res.end(trailer);
+    return true;
+  } catch (error) {
+    // Past the headers there is no error to send; a seek or a closed tab
+    // lands here too
+    if (!res.headersSent) throw error;
+    res.destroy();
+    return true;
+  }
+}
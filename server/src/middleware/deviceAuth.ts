@@ -11,6 +11,9 @@ import { isSubscriptionActive } from './subscription.js';
  * stored hashed). The camera authenticates subsequent requests with
  * `Authorization: Device <deviceId>.<secret>`. Deleting the device from
  * the viewer revokes access immediately.
+ *
+ * Rejections the camera can only fix by pairing again (unknown or revoked
+ * credentials, no room assigned) carry `repairRequired: true`.
  */
 
 export interface AuthedDevice {
@@ -70,7 +73,7 @@ export function deviceAuth(): RequestHandler {
       });
 
       if (!device?.secretHash || !secretsMatch(parsed.secret, device.secretHash)) {
-        return res.status(401).json({ error: 'Invalid device credentials' });
+        return res.status(401).json({ error: 'Invalid device credentials', repairRequired: true });
       }
 
       if (!isSubscriptionActive(device.user.subscriptionStatus)) {
@@ -78,7 +81,9 @@ export function deviceAuth(): RequestHandler {
       }
 
       if (!device.room) {
-        return res.status(403).json({ error: 'Device is not assigned to a room' });
+        return res
+          .status(403)
+          .json({ error: 'Device is not assigned to a room', repairRequired: true });
       }
 
       req.device = {
@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { wildcardPath } from '../lib/sendStoredFile.js';
+import { verifyStorageUrl } from '../services/storage/signedUrls.js';
+
+/**
+ * Auth for links made by signStorageUrl: no session, just a signature over
+ * one storage key and an expiry. Mount on a `{*path}` route; only reads
+ * get through, whatever the route.
+ */
+
+export interface SignedRequest extends Request {
+  /** The key the link was signed for */
+  storageKey?: string;
+}
+
+export function signedUrlAuth(): RequestHandler {
+  return (req: SignedRequest, res: Response, next: NextFunction) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.setHeader('Allow', 'GET, HEAD');
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const key = wildcardPath(req);
+    const { expires, signature } = req.query;
+    if (
+      typeof expires !== 'string' ||
+      typeof signature !== 'string' ||
+      !verifyStorageUrl(key, expires, signature)
+    ) {
+      return res.status(403).json({ error: 'Invalid or expired link' });
+    }
+
+    req.storageKey = key;
+    next();
+  };
+}
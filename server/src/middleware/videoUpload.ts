@@ -0,0 +1,184 @@
+import { Transform, pipeline, type Readable } from 'stream';
+import { createHash } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { deleteClip, type StoredFile } from '../services/storage.service.js';
+import { getHeaderDuration } from '../services/mediaDuration.js';
+
+/**
+ * Multipart video uploads streamed straight to storage. The bytes pass
+ * through a guard on the way that checks the container signature and the
+ * size limit and hashes them, so nothing ever holds the whole file.
+ */
+
+/** An upload refused partway; the status is what the client gets back. */
+export class UploadRejectedError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'UploadRejectedError';
+    this.status = status;
+  }
+}
+
+/** req.file after receiveVideo() */
+export type ReceivedVideo = Express.Multer.File & {
+  /** Provider the file was stored with */
+  storageType: string;
+  /** SHA-256 of the bytes received, hex */
+  checksum: string;
+  /** Seconds, when the file's header states it */
+  duration: number | null;
+};
+
+interface ReceiveVideoOptions {
+  maxBytes: number;
+  allowedTypes: string[];
+  /**
+   * Write the stream to storage. Runs once the file part starts, with
+   * req.body holding the fields sent before it; throw UploadRejectedError to
+   * refuse the upload without storing anything.
+   */
+  store(req: Request, body: Readable, mimeType: string): Promise<StoredFile>;
+}
+
+// Enough to hold the WebM Info element or an MP4 moov at the front
+const HEAD_BYTES = 64 * 1024;
+const SIGNATURE_BYTES = 8;
+
+/** Every accepted container starts with a fixed signature within its first 8 bytes. */
+export function hasVideoSignature(head: Buffer, mimeType: string): boolean {
+  switch (mimeType) {
+    case 'video/webm':
+      return head.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]));
+    case 'video/mp4':
+      return head.toString('latin1', 4, 8) === 'ftyp';
+    case 'video/ogg':
+      return head.toString('latin1', 0, 4) === 'OggS';
+    default:
+      return false;
+  }
+}
+
+/** Pass-through that measures, hashes and vets the bytes as they stream. */
+function videoGuard(mimeType: string, maxBytes: number) {
+  const hash = createHash('sha256');
+  const head: Buffer[] = [];
+  let headBytes = 0;
+  let size = 0;
+  let checked = false;
+
+  const check = () => {
+    checked = true;
+    return hasVideoSignature(Buffer.concat(head), mimeType)
+      ? null
+      : new UploadRejectedError('File is not a video', 415);
+  };
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        return callback(new UploadRejectedError(`Video is larger than ${maxBytes} bytes`, 413));
+      }
+      if (headBytes < HEAD_BYTES) {
+        const kept = chunk.subarray(0, HEAD_BYTES - headBytes);
+        head.push(kept);
+        headBytes += kept.length;
+      }
+      if (!checked && headBytes >= SIGNATURE_BYTES) {
+        const rejected = check();
+        if (rejected) return callback(rejected);
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      // Files shorter than the signature
+      callback(checked ? null : check());
+    },
+  });
+
+  return {
+    stream,
+    result: () => ({
+      size,
+      checksum: hash.digest('hex'),
+      duration: getHeaderDuration(Buffer.concat(head), mimeType),
+    }),
+  };
+}
+
+function videoStorage({ maxBytes, store }: ReceiveVideoOptions): multer.StorageEngine {
+  return {
+    _handleFile(req, file, callback) {
+      const guard = videoGuard(file.mimetype, maxBytes);
+      // Errors from either side tear down both; store() sees them as a failed read
+      const body = pipeline(file.stream, guard.stream, () => {});
+
+      store(req, body, file.mimetype).then(
+        (stored) => {
+          const { checksum, duration } = guard.result();
+          const info: Partial<ReceivedVideo> = {
+            path: stored.path,
+            storageType: stored.storageType,
+            size: stored.size,
+            checksum,
+            duration,
+          };
+          callback(null, info);
+        },
+        (error) => {
+          // Stop reading the part; multer drains what is left of the request
+          body.destroy();
+          callback(error);
+        }
+      );
+    },
+    _removeFile(_req, file, callback) {
+      const { path, storageType } = file as ReceivedVideo;
+      deleteClip(path, storageType).then(() => callback(null), callback);
+    },
+  };
+}
+
+/**
+ * Accept one video in the `video` field and stream it to storage. Refusals
+ * become JSON errors; the route finds the stored file in req.file.
+ */
+export function receiveVideo(options: ReceiveVideoOptions) {
+  const upload = multer({
+    storage: videoStorage(options),
+    limits: { files: 1 },
+    fileFilter: (_req, file, cb) => {
+      if (options.allowedTypes.includes(file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new UploadRejectedError('Invalid file type. Only video files are accepted.', 415));
+      }
+    },
+  }).single('video');
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error?: unknown) => {
+      if (!error) return next();
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    });
+  };
+}
+
+/** Delete a video the route decided not to keep. */
+export async function discardVideo(req: Request): Promise<void> {
+  const video = req.file as ReceivedVideo | undefined;
+  if (!video) return;
+  await deleteClip(video.path, video.storageType).catch((error) => {
+    console.error('[VideoUpload] Failed to delete discarded video:', video.path, error);
+  });
+}
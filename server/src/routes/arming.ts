@@ -0,0 +1,74 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { clerkAuth, type ClerkRequest } from '../middleware/clerk.js';
+import { ARMING_MODES, effectiveArmingMode, publishArmingMode } from '../services/armingMode.js';
+
+export const armingRouter = Router();
+
+armingRouter.use(clerkAuth());
+
+const accountModeSchema = z.object({
+  mode: z.enum(ARMING_MODES),
+});
+
+// Account mode plus the effective mode of every room
+armingRouter.get('/', async (req: ClerkRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: {
+        armingMode: true,
+        rooms: {
+          select: { id: true, name: true, armingMode: true },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      mode: effectiveArmingMode(null, user.armingMode),
+      rooms: user.rooms.map((room) => ({
+        id: room.id,
+        name: room.name,
+        mode: effectiveArmingMode(room.armingMode, user.armingMode),
+        roomMode: room.armingMode,
+      })),
+    });
+  } catch (error) {
+    console.error('Get arming mode error:', error);
+    res.status(500).json({ error: 'Failed to get arming mode' });
+  }
+});
+
+// Switch the account mode. Rooms with their own override keep it.
+armingRouter.put('/', async (req: ClerkRequest, res: Response) => {
+  try {
+    const { mode } = accountModeSchema.parse(req.body);
+
+    await prisma.user.update({
+      where: { id: req.userId },
+      data: { armingMode: mode },
+    });
+
+    const following = await prisma.room.findMany({
+      where: { userId: req.userId, armingMode: null },
+      select: { livekitRoom: true },
+    });
+    for (const room of following) {
+      publishArmingMode(room.livekitRoom, mode);
+    }
+
+    res.json({ mode });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('Set arming mode error:', error);
+    res.status(500).json({ error: 'Failed to set arming mode' });
+  }
+});
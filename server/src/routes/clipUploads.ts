@@ -0,0 +1,367 @@
+import express, { Router, type Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { clerkOrDeviceAuth, type DeviceRequest } from '../middleware/deviceAuth.js';
+import {
+  beginUpload,
+  writeUploadChunk,
+  completeUpload,
+  abortUpload,
+  deleteClip,
+  getClipStats,
+  getUploadChunkSize,
+} from '../services/storage.service.js';
+import { getHeaderDuration } from '../services/mediaDuration.js';
+import { hasVideoSignature } from '../middleware/videoUpload.js';
+import {
+  ALLOWED_MIME_TYPES,
+  MAX_CLIP_BYTES,
+  MAX_CLIP_PARTS,
+  createClip,
+  addClipPart,
+} from '../services/clips.js';
+import {
+  UPLOAD_TTL_MS,
+  ASSEMBLY_LEASE_MS,
+  MAX_CHUNK_BYTES,
+  serializeUpload,
+  uploadTarget,
+  parseUploadedParts,
+  hashUploadedFile,
+} from '../services/clipUploads.js';
+
+export const clipUploadsRouter = Router();
+
+// Every route accepts paired-device credentials; cameras do the uploading
+clipUploadsRouter.use(clerkOrDeviceAuth());
+
+const createUploadSchema = z
+  .object({
+    roomId: z.string(),
+    deviceId: z.string(),
+    detectionType: z.enum(['motion', 'sound']),
+    confidence: z.number().min(0).max(1),
+    recordedAt: z.string().datetime(),
+    mimeType: z.string().refine((type) => ALLOWED_MIME_TYPES.includes(type), 'Unsupported video type'),
+    size: z.number().int().min(1).max(MAX_CLIP_BYTES),
+    eventIds: z.array(z.string()).max(100).default([]),
+    // A later part of a clip that already exists
+    clipId: z.string().optional(),
+    partIndex: z.number().int().min(1).max(MAX_CLIP_PARTS - 1).optional(),
+  })
+  .refine((body) => (body.clipId === undefined) === (body.partIndex === undefined), {
+    message: 'clipId and partIndex must be sent together',
+  });
+
+const completeUploadSchema = z.object({
+  // SHA-256 of the whole file as the camera has it, hex
+  checksum: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+});
+
+// "bytes <start>-<end>/<total>", end inclusive
+function parseContentRange(header: string | undefined) {
+  const match = header?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  if (!match) return null;
+  const [start, end, total] = match.slice(1).map(Number);
+  return end >= start ? { start, end, total } : null;
+}
+
+async function findUpload(req: DeviceRequest) {
+  const upload = await prisma.clipUpload.findFirst({
+    where: { id: req.params.id, userId: req.userId! },
+  });
+  if (!upload) return null;
+  if (req.device && upload.roomId !== req.device.roomId) return null;
+  if (upload.status === 'open' && upload.expiresAt < new Date()) return null;
+  return upload;
+}
+
+// POST /api/clips/uploads - Open an upload session for a clip or clip part
+clipUploadsRouter.post('/', async (req: DeviceRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const body = createUploadSchema.parse(req.body);
+
+    // Paired devices may only upload clips for their own room
+    if (req.device && body.roomId !== req.device.roomId) {
+      return res.status(403).json({ error: 'Device not authorized for this room' });
+    }
+
+    const room = await prisma.room.findFirst({ where: { id: body.roomId, userId } });
+    if (!room) {
+      return res.status(403).json({ error: 'Room not found or unauthorized' });
+    }
+
+    if (body.clipId) {
+      const clip = await prisma.clip.findFirst({
+        where: { id: body.clipId, userId, roomId: body.roomId },
+        include: { parts: { where: { index: body.partIndex } } },
+      });
+      if (!clip) {
+        return res.status(404).json({ error: 'Clip not found' });
+      }
+      if (clip.parts.length > 0) {
+        return res.status(409).json({ error: 'Clip part already uploaded' });
+      }
+    }
+
+    const target = await beginUpload(userId, body.roomId, body.mimeType);
+    const upload = await prisma.clipUpload.create({
+      data: {
+        mimeType: body.mimeType,
+        totalSize: body.size,
+        chunkSize: getUploadChunkSize(),
+        storagePath: target.path,
+        storageType: target.storageType,
+        multipartId: target.multipartId,
+        deviceId: body.deviceId,
+        detectionType: body.detectionType,
+        confidence: body.confidence,
+        recordedAt: new Date(body.recordedAt),
+        eventIds: body.eventIds.length > 0 ? body.eventIds.join(',') : null,
+        clipId: body.clipId,
+        partIndex: body.partIndex,
+        userId,
+        roomId: body.roomId,
+        expiresAt: new Date(Date.now() + UPLOAD_TTL_MS),
+      },
+    });
+
+    res.status(201).json({ upload: serializeUpload(upload) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('[ClipUploads] Create error:', error);
+    res.status(500).json({ error: 'Failed to start upload' });
+  }
+});
+
+// GET /api/clips/uploads/:id - Where to resume
+clipUploadsRouter.get('/:id', async (req: DeviceRequest, res: Response) => {
+  try {
+    const upload = await findUpload(req);
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+    res.json({ upload: serializeUpload(upload) });
+  } catch (error) {
+    console.error('[ClipUploads] Get error:', error);
+    res.status(500).json({ error: 'Failed to fetch upload' });
+  }
+});
+
+// PUT /api/clips/uploads/:id - Append a chunk, described by Content-Range
+clipUploadsRouter.put(
+  '/:id',
+  express.raw({ type: 'application/octet-stream', limit: MAX_CHUNK_BYTES }),
+  async (req: DeviceRequest, res: Response) => {
+    try {
+      const upload = await findUpload(req);
+      if (!upload) {
+        return res.status(404).json({ error: 'Upload not found' });
+      }
+      if (upload.status !== 'open') {
+        return res.status(409).json({ error: 'Upload already completed' });
+      }
+
+      const range = parseContentRange(req.headers['content-range']);
+      if (!range || range.total !== upload.totalSize || range.end >= upload.totalSize) {
+        return res.status(400).json({ error: 'Invalid Content-Range' });
+      }
+
+      const chunk: unknown = req.body;
+      if (!Buffer.isBuffer(chunk) || chunk.length !== range.end - range.start + 1) {
+        return res.status(400).json({ error: 'Chunk length does not match Content-Range' });
+      }
+
+      // Bytes we already have: a retry after a lost response
+      if (range.end < upload.receivedBytes) {
+        return res.json({ upload: serializeUpload(upload) });
+      }
+      if (range.start !== upload.receivedBytes) {
+        return res.status(409).json({
+          error: 'Chunk does not start at the received offset',
+          receivedBytes: upload.receivedBytes,
+        });
+      }
+
+      // Chunks map onto multipart parts, which must be full-size except the last
+      const isLast = range.end + 1 === upload.totalSize;
+      if (chunk.length > upload.chunkSize || (!isLast && chunk.length !== upload.chunkSize)) {
+        return res.status(400).json({ error: `Chunks must be ${upload.chunkSize} bytes, except the last` });
+      }
+
+      // Same container check as a single-request upload, on the first bytes
+      if (range.start === 0 && !hasVideoSignature(chunk, upload.mimeType)) {
+        return res.status(415).json({ error: 'File is not a video' });
+      }
+
+      const part = await writeUploadChunk(uploadTarget(upload), range.start / upload.chunkSize + 1, chunk);
+      const duration = range.start === 0 ? getHeaderDuration(chunk, upload.mimeType) : null;
+
+      // Only advance from the offset this chunk was checked against
+      await prisma.clipUpload.updateMany({
+        where: { id: upload.id, receivedBytes: range.start },
+        data: {
+          receivedBytes: range.end + 1,
+          expiresAt: new Date(Date.now() + UPLOAD_TTL_MS),
+          uploadedParts: JSON.stringify([...parseUploadedParts(upload), part]),
+          ...(duration !== null && { duration: Math.round(duration) }),
+        },
+      });
+
+      const updated = await prisma.clipUpload.findUniqueOrThrow({ where: { id: upload.id } });
+      res.json({ upload: serializeUpload(updated) });
+    } catch (error) {
+      console.error('[ClipUploads] Chunk error:', error);
+      res.status(500).json({ error: 'Failed to store chunk' });
+    }
+  }
+);
+
+// POST /api/clips/uploads/:id/complete - Assemble the file and create the clip
+clipUploadsRouter.post('/:id/complete', async (req: DeviceRequest, res: Response) => {
+  try {
+    const body = completeUploadSchema.parse(req.body ?? {});
+    const upload = await findUpload(req);
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    // Completed before, but the camera never saw the response
+    if (upload.status === 'complete') {
+      if (upload.partIndex !== null) {
+        const part = await prisma.clipPart.findUnique({ where: { id: upload.resultId ?? '' } });
+        return res.json({ part });
+      }
+      const clip = await prisma.clip.findUnique({ where: { id: upload.resultId ?? '' } });
+      return res.json({ clip });
+    }
+
+    if (upload.receivedBytes !== upload.totalSize) {
+      return res.status(409).json({ error: 'Upload incomplete', receivedBytes: upload.receivedBytes });
+    }
+
+    // Claim the session so a second complete can't assemble it alongside this
+    // one. A claim left by a crashed request lapses after ASSEMBLY_LEASE_MS.
+    const now = new Date();
+    const claim = await prisma.clipUpload.updateMany({
+      where: {
+        id: upload.id,
+        OR: [{ status: 'open' }, { status: 'assembling', expiresAt: { lt: now } }],
+      },
+      data: { status: 'assembling', expiresAt: new Date(now.getTime() + ASSEMBLY_LEASE_MS) },
+    });
+    if (claim.count === 0) {
+      return res.status(409).json({ error: 'Upload is already being completed' });
+    }
+
+    try {
+      // An earlier attempt may have assembled the file before failing, and
+      // the parts are gone once it has
+      if (!(await getClipStats(upload.storagePath, upload.storageType))) {
+        await completeUpload(uploadTarget(upload), parseUploadedParts(upload));
+      }
+
+      const checksum = await hashUploadedFile(upload);
+      if (body.checksum && body.checksum !== checksum) {
+        // The camera starts the file over
+        await deleteClip(upload.storagePath, upload.storageType);
+        await prisma.clipUpload.delete({ where: { id: upload.id } });
+        return res.status(422).json({ error: 'Checksum does not match the uploaded file' });
+      }
+
+      const file = {
+        path: upload.storagePath,
+        storageType: upload.storageType,
+        size: upload.totalSize,
+        mimeType: upload.mimeType,
+        checksum,
+        duration: upload.duration,
+      };
+      const eventIds = upload.eventIds?.split(',') ?? [];
+
+      if (upload.clipId && upload.partIndex !== null) {
+        const clip = await prisma.clip.findUnique({ where: { id: upload.clipId } });
+        if (!clip) {
+          // Deleted while this part was uploading
+          await deleteClip(upload.storagePath, upload.storageType);
+          await prisma.clipUpload.delete({ where: { id: upload.id } });
+          return res.status(404).json({ error: 'Clip not found' });
+        }
+
+        // A record created by an attempt that failed before marking the upload
+        const part =
+          (await prisma.clipPart.findFirst({ where: { clipId: clip.id, storagePath: upload.storagePath } })) ??
+          (await addClipPart(clip, upload.partIndex, file, eventIds));
+        await prisma.clipUpload.update({
+          where: { id: upload.id },
+          data: { status: 'complete', resultId: part.id },
+        });
+        return res.status(201).json({ part });
+      }
+
+      const clip =
+        (await prisma.clip.findFirst({
+          where: { userId: upload.userId, roomId: upload.roomId, storagePath: upload.storagePath },
+        })) ??
+        (await createClip(
+          {
+            filename: `clip-${upload.recordedAt.getTime()}.webm`,
+            detectionType: upload.detectionType,
+            confidence: upload.confidence,
+            userId: upload.userId,
+            roomId: upload.roomId,
+            deviceId: upload.deviceId,
+            recordedAt: upload.recordedAt,
+          },
+          file,
+          eventIds
+        ));
+      await prisma.clipUpload.update({
+        where: { id: upload.id },
+        data: { status: 'complete', resultId: clip.id },
+      });
+
+      res.status(201).json({ clip });
+    } catch (error) {
+      // Hand the session back so the camera's retry doesn't wait out the claim
+      await prisma.clipUpload
+        .updateMany({
+          where: { id: upload.id, status: 'assembling' },
+          data: { status: 'open', expiresAt: new Date(Date.now() + UPLOAD_TTL_MS) },
+        })
+        .catch((releaseError) => {
+          console.error('[ClipUploads] Failed to release upload:', upload.id, releaseError);
+        });
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('[ClipUploads] Complete error:', error);
+    res.status(500).json({ error: 'Failed to complete upload' });
+  }
+});
+
+// DELETE /api/clips/uploads/:id - Abandon an upload
+clipUploadsRouter.delete('/:id', async (req: DeviceRequest, res: Response) => {
+  try {
+    const upload = await findUpload(req);
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    if (upload.status === 'open') {
+      await abortUpload(uploadTarget(upload));
+    }
+    await prisma.clipUpload.delete({ where: { id: upload.id } });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[ClipUploads] Delete error:', error);
+    res.status(500).json({ error: 'Failed to delete upload' });
+  }
+});
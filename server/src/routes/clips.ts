@@ -1,37 +1,69 @@
 import { Router, type Response } from 'express';
 import { z } from 'zod';
-import multer from 'multer';
 import { prisma } from '../lib/prisma.js';
+import { sendStoredFile, wildcardPath } from '../lib/sendStoredFile.js';
 import { clerkAuth, type ClerkRequest } from '../middleware/clerk.js';
 import { clerkOrDeviceAuth, type DeviceRequest } from '../middleware/deviceAuth.js';
+import {
+  receiveVideo,
+  discardVideo,
+  UploadRejectedError,
+  type ReceivedVideo,
+} from '../middleware/videoUpload.js';
 import {
   uploadClip,
   deleteClip,
   getPresignedUrl,
-  getClipStream,
-  getClipStats,
-  isR2,
 } from '../services/storage.service.js';
+import {
+  ALLOWED_MIME_TYPES,
+  MAX_CLIP_BYTES,
+  MAX_CLIP_PARTS,
+  createClip,
+  addClipPart,
+  linkClipEvents,
+} from '../services/clips.js';
+import { getThumbnailUrl, type EventThumbnail } from '../services/eventThumbnails.js';
 
 export const clipsRouter = Router();
 
-const ALLOWED_MIME_TYPES = ['video/webm', 'video/mp4', 'video/ogg'];
+// Clips stream into the uploading device's room; the route still checks it
+const receiveClip = receiveVideo({
+  maxBytes: MAX_CLIP_BYTES,
+  allowedTypes: ALLOWED_MIME_TYPES,
+  store: (req: DeviceRequest, body, mimeType) => {
+    const roomId = req.device?.roomId ?? req.body.roomId;
+    if (!roomId) {
+      throw new UploadRejectedError('roomId must be sent before the video', 400);
+    }
+    return uploadClip(req.userId!, roomId, body, mimeType);
+  },
+});
 
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB max
-  fileFilter: (_req, file, cb) => {
-    if (ALLOWED_MIME_TYPES.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type. Only video files are accepted.'));
+// Parts stream next to the clip they extend
+const receiveClipPart = receiveVideo({
+  maxBytes: MAX_CLIP_BYTES,
+  allowedTypes: ALLOWED_MIME_TYPES,
+  store: async (req: DeviceRequest, body, mimeType) => {
+    const clip = await prisma.clip.findFirst({
+      where: { id: req.params.id, userId: req.userId! },
+    });
+    if (!clip || (req.device && clip.roomId !== req.device.roomId)) {
+      throw new UploadRejectedError('Clip not found', 404);
     }
+    return uploadClip(clip.userId, clip.roomId, body, mimeType);
   },
 });
 
 // Upload accepts paired-device credentials (cameras have no Clerk session);
 // all other routes attach clerkAuth() individually below.
 
+// Events the clip covers, as a comma-separated list of event ids
+const eventIdsField = z
+  .string()
+  .optional()
+  .transform((v) => (v ? v.split(',').filter(Boolean).slice(0, 100) : []));
+
 const uploadClipSchema = z.object({
   roomId: z.string(),
   deviceId: z.string(),
@@ -39,21 +71,30 @@ const uploadClipSchema = z.object({
   confidence: z.string().transform((v) => parseFloat(v)),
   duration: z.string().optional().transform((v) => (v ? parseInt(v) : null)),
   recordedAt: z.string(),
+  eventIds: eventIdsField,
+});
+
+// Long clips arrive as a first upload plus numbered parts
+const uploadPartSchema = z.object({
+  index: z.coerce.number().int().min(1).max(MAX_CLIP_PARTS - 1),
+  eventIds: eventIdsField,
 });
 
 // POST /api/clips - Upload a new clip (Clerk session or paired-device credentials)
-clipsRouter.post('/', clerkOrDeviceAuth(), upload.single('video'), async (req: DeviceRequest, res: Response) => {
+clipsRouter.post('/', clerkOrDeviceAuth(), receiveClip, async (req: DeviceRequest, res: Response) => {
+  const video = req.file as ReceivedVideo | undefined;
   try {
     const userId = req.userId!;
     const parsed = uploadClipSchema.parse(req.body);
-    const { roomId, deviceId, detectionType, confidence, duration, recordedAt } = parsed;
+    const { roomId, deviceId, detectionType, confidence, duration, recordedAt, eventIds } = parsed;
 
-    if (!req.file) {
+    if (!video) {
       return res.status(400).json({ error: 'No video file provided' });
     }
 
     // Paired devices may only upload clips for their own room
     if (req.device && roomId !== req.device.roomId) {
+      await discardVideo(req);
       return res.status(403).json({ error: 'Device not authorized for this room' });
     }
 
@@ -63,26 +104,14 @@ clipsRouter.post('/', clerkOrDeviceAuth(), upload.single('video'), async (req: D
     });
 
     if (!room) {
+      await discardVideo(req);
       return res.status(403).json({ error: 'Room not found or unauthorized' });
     }
 
-    // Upload file to storage
-    const stored = await uploadClip(
-      userId,
-      roomId,
-      req.file.buffer,
-      req.file.mimetype
-    );
-
     // Create database record
-    const clip = await prisma.clip.create({
-      data: {
-        filename: req.file.originalname || `clip-${Date.now()}.webm`,
-        storagePath: stored.path,
-        storageType: isR2() ? 'r2' : 'local',
-        mimeType: req.file.mimetype,
-        fileSize: stored.size,
-        duration,
+    const clip = await createClip(
+      {
+        filename: video.originalname || `clip-${Date.now()}.webm`,
         detectionType,
         confidence,
         userId,
@@ -90,10 +119,21 @@ clipsRouter.post('/', clerkOrDeviceAuth(), upload.single('video'), async (req: D
         deviceId,
         recordedAt: new Date(recordedAt),
       },
-    });
+      {
+        path: video.path,
+        storageType: video.storageType,
+        size: video.size,
+        mimeType: video.mimetype,
+        checksum: video.checksum,
+        // Trust the file over the client; fall back to what it sent
+        duration: video.duration !== null ? Math.round(video.duration) : duration,
+      },
+      eventIds
+    );
 
     res.status(201).json({ clip });
   } catch (error) {
+    await discardVideo(req);
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
     }
@@ -102,6 +142,75 @@ clipsRouter.post('/', clerkOrDeviceAuth(), upload.single('video'), async (req: D
   }
 });
 
+// POST /api/clips/:id/parts - Append the next part of a long clip
+clipsRouter.post(
+  '/:id/parts',
+  clerkOrDeviceAuth(),
+  receiveClipPart,
+  async (req: DeviceRequest, res: Response) => {
+    const video = req.file as ReceivedVideo | undefined;
+    try {
+      const { index, eventIds } = uploadPartSchema.parse(req.body);
+
+      if (!video) {
+        return res.status(400).json({ error: 'No video file provided' });
+      }
+
+      const clip = await prisma.clip.findFirst({
+        where: { id: req.params.id, userId: req.userId! },
+      });
+
+      if (!clip || (req.device && clip.roomId !== req.device.roomId)) {
+        await discardVideo(req);
+        return res.status(404).json({ error: 'Clip not found' });
+      }
+
+      // A retried upload whose response was lost; the part is already stored
+      const existing = await prisma.clipPart.findUnique({
+        where: { clipId_index: { clipId: clip.id, index } },
+      });
+      if (existing) {
+        await discardVideo(req);
+        await linkClipEvents(clip.id, clip.roomId, eventIds);
+        return res.json({ part: existing });
+      }
+
+      const part = await addClipPart(
+        clip,
+        index,
+        {
+          path: video.path,
+          storageType: video.storageType,
+          size: video.size,
+          mimeType: video.mimetype,
+          checksum: video.checksum,
+          duration: video.duration !== null ? Math.round(video.duration) : null,
+        },
+        eventIds
+      );
+
+      res.status(201).json({ part });
+    } catch (error) {
+      await discardVideo(req);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('[Clips] Part upload error:', error);
+      res.status(500).json({ error: 'Failed to upload clip part' });
+    }
+  }
+);
+
+// Enough for players to walk the parts; paths stay server-side
+const PART_SELECT = { index: true, duration: true, fileSize: true } as const;
+
+const THUMBNAIL_SELECT = { id: true, thumbnailPath: true, thumbnailStorageType: true } as const;
+
+// A clip shows the snapshot of the first event it recorded that has one
+async function clipThumbnailUrl(events: EventThumbnail[]): Promise<string | null> {
+  return events.length > 0 ? getThumbnailUrl(events[0]) : null;
+}
+
 const listClipsSchema = z.object({
   roomId: z.string().optional(),
   deviceId: z.string().optional(),
@@ -135,13 +244,25 @@ clipsRouter.get('/', clerkAuth(), async (req: ClerkRequest, res: Response) => {
         skip: parsed.offset,
         include: {
           room: { select: { id: true, name: true } },
+          parts: { select: PART_SELECT, orderBy: { index: 'asc' } },
+          events: {
+            where: { thumbnailStorageType: { not: null } },
+            select: THUMBNAIL_SELECT,
+            orderBy: { timestamp: 'asc' },
+            take: 1,
+          },
         },
       }),
       prisma.clip.count({ where }),
     ]);
 
     res.json({
-      clips,
+      clips: await Promise.all(
+        clips.map(async ({ events, ...clip }) => ({
+          ...clip,
+          thumbnailUrl: await clipThumbnailUrl(events),
+        }))
+      ),
       total,
       limit: parsed.limit,
       offset: parsed.offset,
@@ -162,6 +283,8 @@ clipsRouter.get('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) =>
       where: { id: req.params.id, userId: req.userId! },
       include: {
         room: { select: { id: true, name: true } },
+        parts: { select: PART_SELECT, orderBy: { index: 'asc' } },
+        events: { select: { id: true, type: true, timestamp: true }, orderBy: { timestamp: 'asc' } },
       },
     });
 
@@ -169,69 +292,91 @@ clipsRouter.get('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) =>
       return res.status(404).json({ error: 'Clip not found' });
     }
 
-    res.json({ clip });
+    const thumbnailEvents = await prisma.detectionEvent.findMany({
+      where: { clipId: clip.id, thumbnailStorageType: { not: null } },
+      select: THUMBNAIL_SELECT,
+      orderBy: { timestamp: 'asc' },
+      take: 1,
+    });
+
+    res.json({ clip: { ...clip, thumbnailUrl: await clipThumbnailUrl(thumbnailEvents) } });
   } catch (error) {
     console.error('[Clips] Get error:', error);
     res.status(500).json({ error: 'Failed to fetch clip' });
   }
 });
 
+const playbackUrlSchema = z.object({
+  part: z.coerce.number().int().min(0).default(0),
+});
+
 // GET /api/clips/:id/url - Get playback URL (presigned R2 URL or local streaming URL)
+// ?part=N picks a later part of a long clip
 clipsRouter.get('/:id/url', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
+    const { part } = playbackUrlSchema.parse(req.query);
     const clip = await prisma.clip.findFirst({
       where: { id: req.params.id, userId: req.userId! },
+      include: { parts: { where: { index: part } } },
     });
 
     if (!clip) {
       return res.status(404).json({ error: 'Clip not found' });
     }
 
-    if (isR2()) {
-      const url = await getPresignedUrl(clip.storagePath, 3600);
+    const file = part === 0 ? clip : clip.parts[0];
+    if (!file) {
+      return res.status(404).json({ error: 'Clip part not found' });
+    }
+
+    const url = await getPresignedUrl(file.storagePath, file.storageType, 3600);
+    if (url) {
       return res.json({ url, expiresIn: 3600 });
     }
 
-    // Local storage: return the streaming URL
-    res.json({ url: `/api/clips/file/${clip.storagePath}`, expiresIn: null });
+    // No direct URL from this backend: stream it through us
+    res.json({ url: `/api/clips/file/${file.storagePath}`, expiresIn: null });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     console.error('[Clips] URL error:', error);
     res.status(500).json({ error: 'Failed to generate clip URL' });
   }
 });
 
-// GET /api/clips/file/:path - Stream clip video file (local storage only)
+// GET /api/clips/file/:path - Stream a clip file from backends without direct URLs
 clipsRouter.get('/file/{*path}', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
-    if (isR2()) {
-      return res.status(400).json({ error: 'Use /api/clips/:id/url for R2 storage' });
-    }
+    const storagePath = wildcardPath(req);
 
-    const storagePath = req.params.path;
-
-    // Verify user owns this clip
+    // Verify user owns this clip, or the clip this part belongs to
     const clip = await prisma.clip.findFirst({
-      where: { storagePath, userId: req.userId! },
+      where: {
+        userId: req.userId!,
+        OR: [{ storagePath }, { parts: { some: { storagePath } } }],
+      },
+      include: { parts: { where: { storagePath } } },
     });
 
     if (!clip) {
       return res.status(404).json({ error: 'Clip not found' });
     }
+    const file = clip.storagePath === storagePath ? clip : clip.parts[0];
 
     // Only serve video MIME types to prevent stored XSS
     if (!ALLOWED_MIME_TYPES.includes(clip.mimeType)) {
       return res.status(403).json({ error: 'Invalid clip type' });
     }
 
-    const stats = await getClipStats(storagePath);
-    const stream = getClipStream(storagePath);
-
-    res.setHeader('Content-Type', clip.mimeType);
-    res.setHeader('Content-Length', stats.size);
-    res.setHeader('Accept-Ranges', 'bytes');
-    res.setHeader('X-Content-Type-Options', 'nosniff');
-
-    stream.pipe(res);
+    const sent = await sendStoredFile(req, res, {
+      storagePath,
+      storageType: file.storageType,
+      mimeType: clip.mimeType,
+    });
+    if (!sent) {
+      return res.status(404).json({ error: 'Clip file not found' });
+    }
   } catch (error) {
     console.error('[Clips] Stream error:', error);
     res.status(500).json({ error: 'Failed to stream clip' });
@@ -243,6 +388,7 @@ clipsRouter.delete('/:id', clerkAuth(), async (req: ClerkRequest, res: Response)
   try {
     const clip = await prisma.clip.findFirst({
       where: { id: req.params.id, userId: req.userId! },
+      include: { parts: { select: { storagePath: true, storageType: true } } },
     });
 
     if (!clip) {
@@ -250,7 +396,10 @@ clipsRouter.delete('/:id', clerkAuth(), async (req: ClerkRequest, res: Response)
     }
 
     // Delete from storage
-    await deleteClip(clip.storagePath);
+    await deleteClip(clip.storagePath, clip.storageType);
+    for (const part of clip.parts) {
+      await deleteClip(part.storagePath, part.storageType);
+    }
 
     // Delete from database
     await prisma.clip.delete({ where: { id: clip.id } });
@@ -1,19 +1,139 @@
-import { Router } from 'express';
+import { Router, type Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
 import { clerkAuth, type ClerkRequest } from '../middleware/clerk.js';
+import { deviceAuth, clerkOrDeviceAuth, type DeviceRequest } from '../middleware/deviceAuth.js';
+import { markDeviceSeen } from '../services/deviceStatus.js';
+import { effectiveArmingMode } from '../services/armingMode.js';
+import { isArmed, parseArmSchedule } from '../services/armSchedule.js';
 
 export const devicesRouter = Router();
 
-devicesRouter.use(clerkAuth());
+// Routes that cameras read with paired-device credentials use
+// clerkOrDeviceAuth(); everything else attaches clerkAuth() individually.
 
 const updateDeviceSchema = z.object({
   name: z.string().min(1).max(50).optional(),
   roomId: z.string().nullable().optional(),
 });
 
+// Points are normalized to the camera frame (0-1) so zones survive
+// resolution and orientation changes on the camera
+const motionZoneSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(50),
+  kind: z.enum(['include', 'exclude']),
+  enabled: z.boolean().default(true),
+  points: z
+    .array(z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }))
+    .min(3)
+    .max(32),
+});
+
+const updateZonesSchema = z.object({
+  zones: z.array(motionZoneSchema).max(16),
+});
+
+type MotionZone = z.infer<typeof motionZoneSchema>;
+
+function parseMotionZones(raw: string | null): MotionZone[] {
+  if (!raw) return [];
+  try {
+    const parsed = z.array(motionZoneSchema).safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+// Detection settings are stored per camera. Unknown keys are dropped and
+// missing ones fall back to the defaults, so new options can be added
+// without migrating existing rows.
+const detectionSettingsSchema = z.object({
+  motionEnabled: z.boolean(),
+  soundEnabled: z.boolean(),
+  motionSensitivity: z.number().min(0).max(1),
+  soundSensitivity: z.number().min(0).max(1),
+  cooldownSeconds: z.number().int().min(5).max(3600),
+  maxClipSeconds: z.number().int().min(10).max(600),
+  motionMode: z.enum(['diff', 'background']),
+  backgroundAdaptation: z.number().min(0).max(1),
+  suppressLightingChanges: z.boolean(),
+  soundClasses: z.array(z.enum(['bark', 'meow', 'whine', 'noise'])),
+  adaptiveNoiseFloor: z.boolean(),
+  soundLowCutHz: z.number().int().min(0).max(2000),
+  soundHighCutHz: z.number().int().min(0).max(20000),
+});
+
+type DetectionSettings = z.infer<typeof detectionSettingsSchema>;
+
+const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  motionEnabled: true,
+  soundEnabled: true,
+  motionSensitivity: 0.5,
+  soundSensitivity: 0.5,
+  cooldownSeconds: 30,
+  maxClipSeconds: 120,
+  motionMode: 'diff',
+  backgroundAdaptation: 0.5,
+  suppressLightingChanges: true,
+  soundClasses: ['bark', 'meow', 'whine', 'noise'],
+  adaptiveNoiseFloor: true,
+  soundLowCutHz: 0,
+  soundHighCutHz: 0,
+};
+
+const updateDetectionSettingsSchema = detectionSettingsSchema.partial();
+
+function parseDetectionSettings(raw: string | null): DetectionSettings {
+  if (!raw) return { ...DEFAULT_DETECTION_SETTINGS };
+  try {
+    const stored = JSON.parse(raw) ?? {};
+    const settings: Record<string, unknown> = { ...DEFAULT_DETECTION_SETTINGS };
+    // Keep every stored value that is still valid, key by key
+    for (const [key, field] of Object.entries(detectionSettingsSchema.shape)) {
+      const parsed = field.safeParse(stored[key]);
+      if (parsed.success) settings[key] = parsed.data;
+    }
+    return settings as DetectionSettings;
+  } catch {
+    return { ...DEFAULT_DETECTION_SETTINGS };
+  }
+}
+
+// Telemetry the camera reports periodically. Only the latest snapshot is
+// kept; fields the browser can't measure are null.
+const cameraHealthSchema = z.object({
+  battery: z.object({ level: z.number().min(0).max(1), charging: z.boolean() }).nullable(),
+  thermal: z.enum(['nominal', 'fair', 'serious', 'critical']).nullable(),
+  video: z
+    .object({
+      fps: z.number().min(0).max(240),
+      width: z.number().int().min(0).max(8192),
+      height: z.number().int().min(0).max(8192),
+    })
+    .nullable(),
+  connectionQuality: z.enum(['excellent', 'good', 'poor', 'lost', 'unknown']),
+  syncQueue: z.number().int().min(0),
+  uptimeSeconds: z.number().min(0),
+});
+
+const heartbeatSchema = z.object({
+  health: cameraHealthSchema.optional(),
+});
+
+function parseCameraHealth(raw: string | null) {
+  if (!raw) return null;
+  try {
+    const parsed = cameraHealthSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
 // List user's devices
-devicesRouter.get('/', async (req: ClerkRequest, res) => {
+devicesRouter.get('/', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
     const devices = await prisma.device.findMany({
       where: { userId: req.userId },
@@ -31,7 +151,7 @@ devicesRouter.get('/', async (req: ClerkRequest, res) => {
 });
 
 // Get device details
-devicesRouter.get('/:id', async (req: ClerkRequest, res) => {
+devicesRouter.get('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
     const device = await prisma.device.findFirst({
       where: {
@@ -55,7 +175,7 @@ devicesRouter.get('/:id', async (req: ClerkRequest, res) => {
 });
 
 // Update device (name or room assignment)
-devicesRouter.patch('/:id', async (req: ClerkRequest, res) => {
+devicesRouter.patch('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
     const updates = updateDeviceSchema.parse(req.body);
 
@@ -97,7 +217,7 @@ devicesRouter.patch('/:id', async (req: ClerkRequest, res) => {
 });
 
 // Delete device
-devicesRouter.delete('/:id', async (req: ClerkRequest, res) => {
+devicesRouter.delete('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
     const result = await prisma.device.deleteMany({
       where: {
@@ -117,23 +237,246 @@ devicesRouter.delete('/:id', async (req: ClerkRequest, res) => {
   }
 });
 
-// Update device online status (called by camera)
-devicesRouter.post('/:id/heartbeat', async (req: ClerkRequest, res) => {
+// Camera heartbeat, with optional telemetry. The response carries what
+// the camera should be running with so it can catch up on missed pushes.
+devicesRouter.post('/:id/heartbeat', deviceAuth(), async (req: DeviceRequest, res: Response) => {
   try {
-    await prisma.device.updateMany({
+    if (req.device!.id !== req.params.id) {
+      return res.status(403).json({ error: 'Device not authorized' });
+    }
+
+    const { health } = heartbeatSchema.parse(req.body ?? {});
+    const now = new Date();
+
+    await markDeviceSeen(req.device!.id, now);
+
+    const device = await prisma.device.update({
+      where: { id: req.device!.id },
+      data: health ? { health: JSON.stringify(health), healthReportedAt: now } : {},
+      select: {
+        settingsVersion: true,
+        room: {
+          select: {
+            armingMode: true,
+            armSchedule: true,
+            timezone: true,
+            continuousRecording: true,
+            user: { select: { armingMode: true } },
+          },
+        },
+      },
+    });
+
+    // deviceAuth() guarantees a room
+    const room = device.room!;
+    const mode = effectiveArmingMode(room.armingMode, room.user.armingMode);
+
+    res.json({
+      armingMode: mode,
+      armed: mode !== 'off' && isArmed(parseArmSchedule(room.armSchedule), room.timezone),
+      settingsVersion: device.settingsVersion,
+      continuousRecording: room.continuousRecording,
+      repairRequired: false,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('Heartbeat error:', error);
+    res.status(500).json({ error: 'Failed to update heartbeat' });
+  }
+});
+
+// Recent offline/online transitions, newest first
+devicesRouter.get('/:id/status-events', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const device = await prisma.device.findFirst({
       where: {
         id: req.params.id,
         userId: req.userId,
       },
-      data: {
-        isOnline: true,
-        lastSeen: new Date(),
+      select: { id: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const events = await prisma.deviceStatusEvent.findMany({
+      where: { deviceId: device.id },
+      orderBy: { timestamp: 'desc' },
+      take: 50,
+    });
+
+    res.json({ events });
+  } catch (error) {
+    console.error('List status events error:', error);
+    res.status(500).json({ error: 'Failed to list status events' });
+  }
+});
+
+// Get motion zones (viewer session, or the camera itself via device credentials)
+devicesRouter.get('/:id/zones', clerkOrDeviceAuth(), async (req: DeviceRequest, res: Response) => {
+  try {
+    // Paired devices may only read their own zones
+    if (req.device && req.device.id !== req.params.id) {
+      return res.status(403).json({ error: 'Device not authorized' });
+    }
+
+    const device = await prisma.device.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.userId,
       },
+      select: { motionZones: true },
     });
 
-    res.json({ success: true });
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.json({ zones: parseMotionZones(device.motionZones) });
   } catch (error) {
-    console.error('Heartbeat error:', error);
-    res.status(500).json({ error: 'Failed to update heartbeat' });
+    console.error('Get zones error:', error);
+    res.status(500).json({ error: 'Failed to get motion zones' });
+  }
+});
+
+// Replace motion zones (drawn in the viewer)
+devicesRouter.put('/:id/zones', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const { zones } = updateZonesSchema.parse(req.body);
+
+    const result = await prisma.device.updateMany({
+      where: {
+        id: req.params.id,
+        userId: req.userId,
+      },
+      data: { motionZones: JSON.stringify(zones), settingsVersion: { increment: 1 } },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.json({ zones });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('Update zones error:', error);
+    res.status(500).json({ error: 'Failed to update motion zones' });
+  }
+});
+
+// Get detection settings (viewer session, or the camera itself at startup)
+devicesRouter.get('/:id/settings', clerkOrDeviceAuth(), async (req: DeviceRequest, res: Response) => {
+  try {
+    // Paired devices may only read their own settings
+    if (req.device && req.device.id !== req.params.id) {
+      return res.status(403).json({ error: 'Device not authorized' });
+    }
+
+    const device = await prisma.device.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.userId,
+      },
+      select: { detectionSettings: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.json({ settings: parseDetectionSettings(device.detectionSettings) });
+  } catch (error) {
+    console.error('Get detection settings error:', error);
+    res.status(500).json({ error: 'Failed to get detection settings' });
+  }
+});
+
+// Update detection settings; only the keys sent are changed
+devicesRouter.patch('/:id/settings', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const changes = updateDetectionSettingsSchema.parse(req.body);
+
+    const device = await prisma.device.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.userId,
+      },
+      select: { detectionSettings: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const settings = { ...parseDetectionSettings(device.detectionSettings), ...changes };
+
+    await prisma.device.update({
+      where: { id: req.params.id },
+      data: { detectionSettings: JSON.stringify(settings), settingsVersion: { increment: 1 } },
+    });
+
+    res.json({ settings });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('Update detection settings error:', error);
+    res.status(500).json({ error: 'Failed to update detection settings' });
+  }
+});
+
+// Store the camera's latest telemetry (device credentials only)
+devicesRouter.put('/:id/health', deviceAuth(), async (req: DeviceRequest, res: Response) => {
+  try {
+    if (req.device!.id !== req.params.id) {
+      return res.status(403).json({ error: 'Device not authorized' });
+    }
+
+    const health = cameraHealthSchema.parse(req.body);
+    const reportedAt = new Date();
+
+    await prisma.device.update({
+      where: { id: req.params.id },
+      data: { health: JSON.stringify(health), healthReportedAt: reportedAt },
+    });
+    await markDeviceSeen(req.params.id, reportedAt);
+
+    res.json({ health, reportedAt });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('Report health error:', error);
+    res.status(500).json({ error: 'Failed to store device health' });
+  }
+});
+
+// Latest telemetry snapshot, null until the camera first reports
+devicesRouter.get('/:id/health', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const device = await prisma.device.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.userId,
+      },
+      select: { health: true, healthReportedAt: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.json({
+      health: parseCameraHealth(device.health),
+      reportedAt: device.healthReportedAt,
+    });
+  } catch (error) {
+    console.error('Get health error:', error);
+    res.status(500).json({ error: 'Failed to get device health' });
   }
 });
@@ -1,9 +1,20 @@
-import { Router, type Response } from 'express';
+import express, { Router, type Response } from 'express';
 import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
+import { sendStoredFile } from '../lib/sendStoredFile.js';
 import { clerkAuth, type ClerkRequest } from '../middleware/clerk.js';
 import { clerkOrDeviceAuth, type DeviceRequest } from '../middleware/deviceAuth.js';
-import { sendDetectionNotification, isConfigured } from '../services/pushNotifications.js';
+import { isConfigured } from '../services/pushNotifications.js';
+import { notifyDetection, releaseNotification } from '../services/eventNotifications.js';
+import {
+  MAX_THUMBNAIL_BYTES,
+  isJpeg,
+  setEventThumbnail,
+  deleteEventThumbnail,
+  getThumbnailUrl,
+} from '../services/eventThumbnails.js';
+import { effectiveArmingMode } from '../services/armingMode.js';
 
 export const eventsRouter = Router();
 
@@ -12,16 +23,20 @@ export const eventsRouter = Router();
 
 const createEventSchema = z.object({
   roomId: z.string(),
-  type: z.enum(['motion', 'sound']),
+  type: z.enum(['motion', 'sound', 'inactivity']),
   deviceId: z.string(),
   confidence: z.number().min(0).max(1).optional(),
-  thumbnailPath: z.string().optional(),
+  zoneId: z.string().max(64).nullish(),
+  zoneName: z.string().max(50).nullish(),
+  soundClass: z.enum(['bark', 'meow', 'whine', 'noise']).nullish(),
+  // A snapshot follows via PUT /:id/thumbnail; hold the push for it briefly
+  thumbnailPending: z.boolean().optional().default(false),
   sendNotification: z.boolean().optional().default(true),
 });
 
 const listEventsSchema = z.object({
   roomId: z.string().optional(),
-  type: z.enum(['motion', 'sound']).optional(),
+  type: z.enum(['motion', 'sound', 'inactivity']).optional(),
   deviceId: z.string().optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
@@ -34,6 +49,23 @@ const updateEventSchema = z.object({
   notificationSent: z.boolean().optional(),
 });
 
+// Cameras report an episode's progress against the event created at its start
+const updateEpisodeSchema = z.object({
+  durationSeconds: z.number().int().min(0).max(7 * 24 * 60 * 60),
+  peakConfidence: z.number().min(0).max(1),
+  averageConfidence: z.number().min(0).max(1),
+  ended: z.boolean().optional().default(false),
+});
+
+// Sum of episode durations in minutes, one decimal
+async function sumActiveMinutes(where: Prisma.DetectionEventWhereInput): Promise<number> {
+  const result = await prisma.detectionEvent.aggregate({
+    where,
+    _sum: { duration: true },
+  });
+  return Math.round(((result._sum.duration ?? 0) / 60) * 10) / 10;
+}
+
 // List events with filtering
 eventsRouter.get('/', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
@@ -66,7 +98,7 @@ eventsRouter.get('/', clerkAuth(), async (req: ClerkRequest, res: Response) => {
       }
     }
 
-    const [events, total] = await Promise.all([
+    const [events, total, activeMinutes] = await Promise.all([
       prisma.detectionEvent.findMany({
         where,
         include: {
@@ -82,20 +114,30 @@ eventsRouter.get('/', clerkAuth(), async (req: ClerkRequest, res: Response) => {
         skip: params.offset,
       }),
       prisma.detectionEvent.count({ where }),
+      sumActiveMinutes(where),
     ]);
 
     res.json({
-      events: events.map((event) => ({
+      events: await Promise.all(events.map(async (event) => ({
         id: event.id,
         type: event.type,
         timestamp: event.timestamp,
         deviceId: event.deviceId,
         confidence: event.confidence,
+        zoneId: event.zoneId,
+        zoneName: event.zoneName,
+        soundClass: event.soundClass,
+        endedAt: event.endedAt,
+        duration: event.duration,
+        peakConfidence: event.peakConfidence,
+        averageConfidence: event.averageConfidence,
         thumbnailPath: event.thumbnailPath,
+        thumbnailUrl: await getThumbnailUrl(event),
         notificationSent: event.notificationSent,
         markedFalsePositive: event.markedFalsePositive,
         room: event.room,
-      })),
+      }))),
+      activeMinutes,
       pagination: {
         total,
         limit: params.limit,
@@ -141,7 +183,15 @@ eventsRouter.get('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) =
         timestamp: event.timestamp,
         deviceId: event.deviceId,
         confidence: event.confidence,
+        zoneId: event.zoneId,
+        zoneName: event.zoneName,
+        soundClass: event.soundClass,
+        endedAt: event.endedAt,
+        duration: event.duration,
+        peakConfidence: event.peakConfidence,
+        averageConfidence: event.averageConfidence,
         thumbnailPath: event.thumbnailPath,
+        thumbnailUrl: await getThumbnailUrl(event),
         notificationSent: event.notificationSent,
         markedFalsePositive: event.markedFalsePositive,
         room: event.room,
@@ -169,6 +219,7 @@ eventsRouter.post('/', clerkOrDeviceAuth(), async (req: DeviceRequest, res: Resp
         id: data.roomId,
         userId: req.userId,
       },
+      include: { user: { select: { armingMode: true } } },
     });
 
     if (!room) {
@@ -180,33 +231,31 @@ eventsRouter.post('/', clerkOrDeviceAuth(), async (req: DeviceRequest, res: Resp
         type: data.type,
         deviceId: data.deviceId,
         confidence: data.confidence,
-        thumbnailPath: data.thumbnailPath,
+        zoneId: data.zoneId,
+        zoneName: data.zoneName,
+        soundClass: data.type === 'sound' ? data.soundClass : null,
         roomId: data.roomId,
       },
     });
 
-    // Send push notification if enabled and configured
-    let notificationSent = false;
-    if (data.sendNotification && isConfigured()) {
-      try {
-        const result = await sendDetectionNotification(req.userId!, {
+    // Send push notification if enabled and configured. Events are still
+    // recorded in Home mode, just silently.
+    const armingMode = effectiveArmingMode(room.armingMode, room.user.armingMode);
+    if (data.sendNotification && armingMode === 'away' && isConfigured()) {
+      await notifyDetection(
+        event.id,
+        req.userId!,
+        {
           type: data.type,
           deviceId: data.deviceId,
           roomName: room.name,
+          zoneName: data.zoneName,
+          soundClass: event.soundClass,
+          inactiveMinutes: room.inactivityMinutes,
           confidence: data.confidence,
-        });
-        notificationSent = result.sent > 0;
-
-        // Update event with notification status
-        if (notificationSent) {
-          await prisma.detectionEvent.update({
-            where: { id: event.id },
-            data: { notificationSent: true },
-          });
-        }
-      } catch (notifError) {
-        console.error('[Events] Failed to send notification:', notifError);
-      }
+        },
+        { waitForThumbnail: data.thumbnailPending }
+      );
     }
 
     res.status(201).json({
@@ -216,7 +265,15 @@ eventsRouter.post('/', clerkOrDeviceAuth(), async (req: DeviceRequest, res: Resp
         timestamp: event.timestamp,
         deviceId: event.deviceId,
         confidence: event.confidence,
+        zoneId: event.zoneId,
+        zoneName: event.zoneName,
+        soundClass: event.soundClass,
+        endedAt: event.endedAt,
+        duration: event.duration,
+        peakConfidence: event.peakConfidence,
+        averageConfidence: event.averageConfidence,
         thumbnailPath: event.thumbnailPath,
+        thumbnailUrl: null,
         notificationSent: event.notificationSent,
         markedFalsePositive: event.markedFalsePositive,
       },
@@ -259,7 +316,15 @@ eventsRouter.patch('/:id', clerkAuth(), async (req: ClerkRequest, res: Response)
         timestamp: event.timestamp,
         deviceId: event.deviceId,
         confidence: event.confidence,
+        zoneId: event.zoneId,
+        zoneName: event.zoneName,
+        soundClass: event.soundClass,
+        endedAt: event.endedAt,
+        duration: event.duration,
+        peakConfidence: event.peakConfidence,
+        averageConfidence: event.averageConfidence,
         thumbnailPath: event.thumbnailPath,
+        thumbnailUrl: await getThumbnailUrl(event),
         notificationSent: event.notificationSent,
         markedFalsePositive: event.markedFalsePositive,
       },
@@ -273,6 +338,134 @@ eventsRouter.patch('/:id', clerkAuth(), async (req: ClerkRequest, res: Response)
   }
 });
 
+// Report episode progress (Clerk session or paired-device credentials)
+eventsRouter.patch('/:id/episode', clerkOrDeviceAuth(), async (req: DeviceRequest, res: Response) => {
+  try {
+    const data = updateEpisodeSchema.parse(req.body);
+
+    const existing = await prisma.detectionEvent.findFirst({
+      where: {
+        id: req.params.id,
+        room: { userId: req.userId },
+      },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    // Paired devices may only update their own room's events
+    if (req.device && existing.roomId !== req.device.roomId) {
+      return res.status(403).json({ error: 'Device not authorized for this room' });
+    }
+
+    // Derive the end from the server-side start so camera clock skew can't
+    // produce negative or shifted episodes
+    const event = await prisma.detectionEvent.update({
+      where: { id: existing.id },
+      data: {
+        duration: data.durationSeconds,
+        peakConfidence: data.peakConfidence,
+        averageConfidence: data.averageConfidence,
+        endedAt: data.ended
+          ? new Date(existing.timestamp.getTime() + data.durationSeconds * 1000)
+          : null,
+      },
+    });
+
+    res.json({
+      event: {
+        id: event.id,
+        type: event.type,
+        timestamp: event.timestamp,
+        endedAt: event.endedAt,
+        duration: event.duration,
+        peakConfidence: event.peakConfidence,
+        averageConfidence: event.averageConfidence,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('Update episode error:', error);
+    res.status(500).json({ error: 'Failed to update episode' });
+  }
+});
+
+// Upload the event's snapshot (Clerk session or paired-device credentials)
+eventsRouter.put(
+  '/:id/thumbnail',
+  clerkOrDeviceAuth(),
+  express.raw({ type: 'image/jpeg', limit: MAX_THUMBNAIL_BYTES }),
+  async (req: DeviceRequest, res: Response) => {
+    try {
+      const existing = await prisma.detectionEvent.findFirst({
+        where: {
+          id: req.params.id,
+          room: { userId: req.userId },
+        },
+      });
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+
+      // Paired devices may only update their own room's events
+      if (req.device && existing.roomId !== req.device.roomId) {
+        return res.status(403).json({ error: 'Device not authorized for this room' });
+      }
+
+      const image: unknown = req.body;
+      if (!Buffer.isBuffer(image) || !isJpeg(image)) {
+        return res.status(415).json({ error: 'Thumbnail must be a JPEG image' });
+      }
+
+      const event = await setEventThumbnail(existing, req.userId!, image);
+      releaseNotification(event.id);
+
+      res.json({
+        event: {
+          id: event.id,
+          thumbnailPath: event.thumbnailPath,
+          thumbnailUrl: await getThumbnailUrl(event),
+        },
+      });
+    } catch (error) {
+      console.error('Upload thumbnail error:', error);
+      res.status(500).json({ error: 'Failed to store thumbnail' });
+    }
+  }
+);
+
+// Stream the event's snapshot, for backends without signed URLs
+eventsRouter.get('/:id/thumbnail', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const event = await prisma.detectionEvent.findFirst({
+      where: {
+        id: req.params.id,
+        room: { userId: req.userId },
+      },
+    });
+
+    if (!event?.thumbnailPath || !event.thumbnailStorageType) {
+      return res.status(404).json({ error: 'Thumbnail not found' });
+    }
+
+    const sent = await sendStoredFile(req, res, {
+      storagePath: event.thumbnailPath,
+      storageType: event.thumbnailStorageType,
+      mimeType: 'image/jpeg',
+    });
+    if (!sent) {
+      return res.status(404).json({ error: 'Thumbnail file not found' });
+    }
+  } catch (error) {
+    console.error('Get thumbnail error:', error);
+    res.status(500).json({ error: 'Failed to get thumbnail' });
+  }
+});
+
 // Delete event
 eventsRouter.delete('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
@@ -288,6 +481,7 @@ eventsRouter.delete('/:id', clerkAuth(), async (req: ClerkRequest, res: Response
       return res.status(404).json({ error: 'Event not found' });
     }
 
+    await deleteEventThumbnail(existing);
     await prisma.detectionEvent.delete({
       where: { id: req.params.id },
     });
@@ -318,7 +512,16 @@ eventsRouter.get('/stats/:roomId', clerkAuth(), async (req: ClerkRequest, res: R
     const last24h = new Date(now.getTime() - 24 * 60 * 60 * 1000);
     const last7d = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
-    const [total, last24hCount, last7dCount, byType, byDevice] = await Promise.all([
+    const [
+      total,
+      last24hCount,
+      last7dCount,
+      byType,
+      byDevice,
+      activeMinutesTotal,
+      activeMinutes24h,
+      activeMinutes7d,
+    ] = await Promise.all([
       prisma.detectionEvent.count({
         where: { roomId: req.params.roomId },
       }),
@@ -344,6 +547,9 @@ eventsRouter.get('/stats/:roomId', clerkAuth(), async (req: ClerkRequest, res: R
         where: { roomId: req.params.roomId },
         _count: true,
       }),
+      sumActiveMinutes({ roomId: req.params.roomId }),
+      sumActiveMinutes({ roomId: req.params.roomId, timestamp: { gte: last24h } }),
+      sumActiveMinutes({ roomId: req.params.roomId, timestamp: { gte: last7d } }),
     ]);
 
     res.json({
@@ -359,6 +565,11 @@ eventsRouter.get('/stats/:roomId', clerkAuth(), async (req: ClerkRequest, res: R
           acc[item.deviceId] = item._count;
           return acc;
         }, {} as Record<string, number>),
+        activeMinutes: {
+          total: activeMinutesTotal,
+          last24h: activeMinutes24h,
+          last7d: activeMinutes7d,
+        },
       },
     });
   } catch (error) {
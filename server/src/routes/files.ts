@@ -0,0 +1,35 @@
+import path from 'path';
+import { Router, type Response } from 'express';
+import { sendStoredFile } from '../lib/sendStoredFile.js';
+import { signedUrlAuth, type SignedRequest } from '../middleware/signedUrl.js';
+
+export const filesRouter = Router();
+
+// What we serve, by the extension keys are written with. Anything else is
+// refused so a stored file can never come back as HTML.
+const CONTENT_TYPES: Record<string, string> = {
+  '.webm': 'video/webm',
+  '.mp4': 'video/mp4',
+  '.jpg': 'image/jpeg',
+};
+
+filesRouter.all('/{*path}', signedUrlAuth());
+
+// GET /api/files/:path - A locally stored file, through a signed link
+filesRouter.get('/{*path}', async (req: SignedRequest, res: Response) => {
+  try {
+    const storagePath = req.storageKey!;
+    const mimeType = CONTENT_TYPES[path.extname(storagePath)];
+    if (!mimeType) {
+      return res.status(403).json({ error: 'Invalid file type' });
+    }
+
+    const sent = await sendStoredFile(req, res, { storagePath, storageType: 'local', mimeType });
+    if (!sent) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+  } catch (error) {
+    console.error('[Files] Stream error:', error);
+    res.status(500).json({ error: 'Failed to stream file' });
+  }
+});
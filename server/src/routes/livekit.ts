@@ -0,0 +1,28 @@
+import { Router, type Request, type Response } from 'express';
+import type { WebhookEvent } from 'livekit-server-sdk';
+import { receiveWebhook } from '../services/livekit.service.js';
+import { handleLiveKitEvent } from '../services/livekitWebhook.js';
+
+export const livekitRouter = Router();
+
+// LiveKit webhook (no auth — LiveKit signs the body with our API secret).
+// Keeps device presence and the viewer-session log in sync with the rooms.
+livekitRouter.post('/webhook', async (req: Request, res: Response) => {
+  const body = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+
+  let event: WebhookEvent;
+  try {
+    event = await receiveWebhook(body, req.get('Authorization'));
+  } catch (error) {
+    console.warn('[LiveKit] Rejected webhook:', (error as Error).message);
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    await handleLiveKitEvent(event);
+    res.json({ received: true });
+  } catch (error) {
+    console.error('[LiveKit] Webhook handler error:', error);
+    res.status(500).json({ error: 'Webhook handler failed' });
+  }
+});
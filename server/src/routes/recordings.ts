@@ -0,0 +1,234 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { sendStoredFile, wildcardPath } from '../lib/sendStoredFile.js';
+import { clerkAuth, type ClerkRequest } from '../middleware/clerk.js';
+import { deviceAuth, type DeviceRequest } from '../middleware/deviceAuth.js';
+import {
+  receiveVideo,
+  discardVideo,
+  UploadRejectedError,
+  type ReceivedVideo,
+} from '../middleware/videoUpload.js';
+import {
+  uploadRecordingSegment,
+  deleteClip,
+  getPresignedUrl,
+} from '../services/storage.service.js';
+import { MAX_SEGMENT_SECONDS, serializeRecording } from '../services/recordings.js';
+
+export const recordingsRouter = Router();
+
+const ALLOWED_MIME_TYPES = ['video/webm', 'video/mp4'];
+
+const receiveSegment = receiveVideo({
+  maxBytes: 100 * 1024 * 1024, // 100MB max
+  allowedTypes: ALLOWED_MIME_TYPES,
+  store: async (req: DeviceRequest, body, mimeType) => {
+    const device = req.device!;
+    const room = await prisma.room.findUniqueOrThrow({
+      where: { id: device.roomId },
+      select: { continuousRecording: true },
+    });
+
+    // The camera stops once its heartbeat reports the change
+    if (!room.continuousRecording) {
+      throw new UploadRejectedError('Continuous recording is off for this room', 409);
+    }
+
+    return uploadRecordingSegment(device.userId, device.roomId, body, mimeType);
+  },
+});
+
+const uploadSegmentSchema = z
+  .object({
+    startedAt: z.string().datetime(),
+    endedAt: z.string().datetime(),
+  })
+  .transform(({ startedAt, endedAt }) => ({
+    startedAt: new Date(startedAt),
+    endedAt: new Date(endedAt),
+  }))
+  .refine(({ startedAt, endedAt }) => endedAt > startedAt, 'endedAt must be after startedAt')
+  .refine(
+    ({ startedAt, endedAt }) => endedAt.getTime() - startedAt.getTime() <= MAX_SEGMENT_SECONDS * 1000,
+    `Segments may be at most ${MAX_SEGMENT_SECONDS} seconds`
+  );
+
+const MAX_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const listRecordingsSchema = z
+  .object({
+    roomId: z.string(),
+    deviceId: z.string().optional(),
+    // Defaults to the last 24 hours
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    limit: z.coerce.number().min(1).max(2000).default(1000),
+  })
+  .transform(({ from, to, ...rest }) => {
+    const end = to ? new Date(to) : new Date();
+    const start = from ? new Date(from) : new Date(end.getTime() - 24 * 60 * 60 * 1000);
+    return { ...rest, from: start, to: end };
+  })
+  .refine(({ from, to }) => to > from, 'to must be after from')
+  .refine(({ from, to }) => to.getTime() - from.getTime() <= MAX_RANGE_MS, 'Range may be at most 7 days');
+
+// POST /api/recordings/segments - A camera uploads one finished segment
+recordingsRouter.post(
+  '/segments',
+  deviceAuth(),
+  receiveSegment,
+  async (req: DeviceRequest, res: Response) => {
+    try {
+      const device = req.device!;
+      const { startedAt, endedAt } = uploadSegmentSchema.parse(req.body);
+
+      const video = req.file as ReceivedVideo | undefined;
+      if (!video) {
+        return res.status(400).json({ error: 'No video file provided' });
+      }
+
+      const recording = await prisma.recording.create({
+        data: {
+          filename: video.originalname || `segment-${startedAt.getTime()}.webm`,
+          fileSize: video.size,
+          // The file's own header when it has one; cameras index their segments
+          duration: Math.round(video.duration ?? (endedAt.getTime() - startedAt.getTime()) / 1000),
+          startedAt,
+          endedAt,
+          status: 'complete',
+          storageType: video.storageType,
+          storagePath: video.path,
+          mimeType: video.mimetype,
+          roomId: device.roomId,
+          deviceId: device.id,
+        },
+      });
+
+      res.status(201).json({ recording: serializeRecording(recording) });
+    } catch (error) {
+      await discardVideo(req);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error('[Recordings] Upload error:', error);
+      res.status(500).json({ error: 'Failed to upload segment' });
+    }
+  }
+);
+
+// GET /api/recordings - Segments overlapping [from, to], oldest first
+recordingsRouter.get('/', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const { roomId, deviceId, from, to, limit } = listRecordingsSchema.parse(req.query);
+
+    const room = await prisma.room.findFirst({
+      where: { id: roomId, userId: req.userId },
+      select: { id: true },
+    });
+    if (!room) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+
+    const recordings = await prisma.recording.findMany({
+      where: {
+        roomId,
+        ...(deviceId && { deviceId }),
+        status: 'complete',
+        startedAt: { lt: to },
+        endedAt: { gt: from },
+      },
+      orderBy: { startedAt: 'asc' },
+      take: limit,
+    });
+
+    res.json({
+      recordings: recordings.map(serializeRecording),
+      from,
+      to,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('[Recordings] List error:', error);
+    res.status(500).json({ error: 'Failed to fetch recordings' });
+  }
+});
+
+// GET /api/recordings/:id/url - Playback URL (presigned R2 URL or local streaming URL)
+recordingsRouter.get('/:id/url', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const recording = await prisma.recording.findFirst({
+      where: { id: req.params.id, room: { userId: req.userId } },
+    });
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    const url = await getPresignedUrl(recording.storagePath, recording.storageType, 3600);
+    if (url) {
+      return res.json({ url, expiresIn: 3600 });
+    }
+
+    res.json({ url: `/api/recordings/file/${recording.storagePath}`, expiresIn: null });
+  } catch (error) {
+    console.error('[Recordings] URL error:', error);
+    res.status(500).json({ error: 'Failed to generate recording URL' });
+  }
+});
+
+// GET /api/recordings/file/:path - Stream a segment from backends without direct URLs
+recordingsRouter.get('/file/{*path}', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const storagePath = wildcardPath(req);
+
+    const recording = await prisma.recording.findFirst({
+      where: { storagePath, room: { userId: req.userId } },
+    });
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Only serve video MIME types to prevent stored XSS
+    if (!ALLOWED_MIME_TYPES.includes(recording.mimeType)) {
+      return res.status(403).json({ error: 'Invalid recording type' });
+    }
+
+    const sent = await sendStoredFile(req, res, {
+      storagePath,
+      storageType: recording.storageType,
+      mimeType: recording.mimeType,
+    });
+    if (!sent) {
+      return res.status(404).json({ error: 'Recording file not found' });
+    }
+  } catch (error) {
+    console.error('[Recordings] Stream error:', error);
+    res.status(500).json({ error: 'Failed to stream recording' });
+  }
+});
+
+// DELETE /api/recordings/:id - Delete one segment
+recordingsRouter.delete('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const recording = await prisma.recording.findFirst({
+      where: { id: req.params.id, room: { userId: req.userId } },
+    });
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    await deleteClip(recording.storagePath, recording.storageType);
+    await prisma.recording.delete({ where: { id: recording.id } });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Recordings] Delete error:', error);
+    res.status(500).json({ error: 'Failed to delete recording' });
+  }
+});
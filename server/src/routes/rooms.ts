@@ -1,29 +1,88 @@
-import { Router } from 'express';
+import { Router, type Response } from 'express';
 import { z } from 'zod';
+import type { Room } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { clerkAuth, type ClerkRequest } from '../middleware/clerk.js';
+import { clerkOrDeviceAuth, type DeviceRequest } from '../middleware/deviceAuth.js';
+import { isArmed, isValidTimeZone, parseArmSchedule } from '../services/armSchedule.js';
+import { ARMING_MODES, effectiveArmingMode, publishArmingMode } from '../services/armingMode.js';
+import { sendRoomData } from '../services/livekit.service.js';
 import crypto from 'crypto';
 
 export const roomsRouter = Router();
 
-// All routes require authentication
-roomsRouter.use(clerkAuth());
+// Cameras read their room's camera config with paired-device credentials;
+// everything else attaches clerkAuth() individually.
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const timeZoneSchema = z.string().max(64).refine(isValidTimeZone, 'Unknown timezone');
+
+const armWindowSchema = z.object({
+  day: z.number().int().min(0).max(6),
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+});
 
 const createRoomSchema = z.object({
   name: z.string().min(1).max(50),
+  timezone: timeZoneSchema.optional(),
 });
 
 const updateRoomSchema = z.object({
-  name: z.string().min(1).max(50),
+  name: z.string().min(1).max(50).optional(),
+  // null disables the inactivity alert
+  inactivityMinutes: z.number().int().min(15).max(24 * 60).nullable().optional(),
+  // Hours the alert is active, in the room's timezone; both null = all day
+  inactivityStart: timeOfDaySchema.nullable().optional(),
+  inactivityEnd: timeOfDaySchema.nullable().optional(),
+  timezone: timeZoneSchema.optional(),
+  // null = always armed
+  armSchedule: z.array(armWindowSchema).max(50).nullable().optional(),
+  continuousRecording: z.boolean().optional(),
+  recordingRetentionHours: z.number().int().min(1).max(7 * 24).optional(),
 });
 
+const roomModeSchema = z.object({
+  // null = follow the account mode
+  mode: z.enum(ARMING_MODES).nullable(),
+});
+
+// Account mode is needed alongside the room to resolve its effective mode
+const withAccountMode = { user: { select: { armingMode: true } } } as const;
+
+// Room-level settings cameras apply locally
+function cameraConfig(room: Room, accountMode: string) {
+  const windows = parseArmSchedule(room.armSchedule);
+  return {
+    mode: effectiveArmingMode(room.armingMode, accountMode),
+    roomMode: room.armingMode,
+    accountMode: effectiveArmingMode(null, accountMode),
+    schedule: {
+      timezone: room.timezone,
+      windows,
+      armed: isArmed(windows, room.timezone),
+    },
+    inactivity: {
+      thresholdMinutes: room.inactivityMinutes,
+      start: room.inactivityStart,
+      end: room.inactivityEnd,
+    },
+    recording: {
+      continuous: room.continuousRecording,
+      retentionHours: room.recordingRetentionHours,
+    },
+  };
+}
+
 // List user's rooms
-roomsRouter.get('/', async (req: ClerkRequest, res) => {
+roomsRouter.get('/', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
     const rooms = await prisma.room.findMany({
       where: { userId: req.userId },
       include: {
         _count: { select: { devices: true } },
+        ...withAccountMode,
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -34,6 +93,10 @@ roomsRouter.get('/', async (req: ClerkRequest, res) => {
         name: room.name,
         livekitRoom: room.livekitRoom,
         deviceCount: room._count.devices,
+        mode: effectiveArmingMode(room.armingMode, room.user.armingMode),
+        armed:
+          effectiveArmingMode(room.armingMode, room.user.armingMode) !== 'off' &&
+          isArmed(parseArmSchedule(room.armSchedule), room.timezone),
         createdAt: room.createdAt,
       })),
     });
@@ -44,9 +107,9 @@ roomsRouter.get('/', async (req: ClerkRequest, res) => {
 });
 
 // Create room
-roomsRouter.post('/', async (req: ClerkRequest, res) => {
+roomsRouter.post('/', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
-    const { name } = createRoomSchema.parse(req.body);
+    const { name, timezone } = createRoomSchema.parse(req.body);
 
     const livekitRoom = `room_${crypto.randomBytes(8).toString('hex')}`;
 
@@ -54,6 +117,7 @@ roomsRouter.post('/', async (req: ClerkRequest, res) => {
       data: {
         name,
         livekitRoom,
+        timezone,
         userId: req.userId!,
       },
     });
@@ -76,7 +140,7 @@ roomsRouter.post('/', async (req: ClerkRequest, res) => {
 });
 
 // Get room details
-roomsRouter.get('/:id', async (req: ClerkRequest, res) => {
+roomsRouter.get('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
     const room = await prisma.room.findFirst({
       where: {
@@ -94,6 +158,7 @@ roomsRouter.get('/:id', async (req: ClerkRequest, res) => {
             lastSeen: true,
           },
         },
+        ...withAccountMode,
       },
     });
 
@@ -107,6 +172,7 @@ roomsRouter.get('/:id', async (req: ClerkRequest, res) => {
         name: room.name,
         livekitRoom: room.livekitRoom,
         devices: room.devices,
+        ...cameraConfig(room, room.user.armingMode),
         createdAt: room.createdAt,
       },
     });
@@ -117,27 +183,38 @@ roomsRouter.get('/:id', async (req: ClerkRequest, res) => {
 });
 
 // Update room
-roomsRouter.patch('/:id', async (req: ClerkRequest, res) => {
+roomsRouter.patch('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
-    const { name } = updateRoomSchema.parse(req.body);
+    const { armSchedule, ...data } = updateRoomSchema.parse(req.body);
 
     const room = await prisma.room.updateMany({
       where: {
         id: req.params.id,
         userId: req.userId,
       },
-      data: { name },
+      data: {
+        ...data,
+        ...(armSchedule !== undefined && {
+          armSchedule: armSchedule && JSON.stringify(armSchedule),
+        }),
+      },
     });
 
     if (room.count === 0) {
       return res.status(404).json({ error: 'Room not found' });
     }
 
-    const updated = await prisma.room.findUnique({
+    const { user, ...updated } = await prisma.room.findUniqueOrThrow({
       where: { id: req.params.id },
+      include: withAccountMode,
     });
 
-    res.json({ room: updated });
+    // Cameras re-fetch their config on this; best effort, they also load it on connect
+    sendRoomData(updated.livekitRoom, { type: 'room_config_changed' }).catch((error) => {
+      console.error('[Rooms] Failed to notify room', updated.livekitRoom, error);
+    });
+
+    res.json({ room: { ...updated, ...cameraConfig(updated, user.armingMode) } });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors });
@@ -147,8 +224,97 @@ roomsRouter.patch('/:id', async (req: ClerkRequest, res) => {
   }
 });
 
+// Room-level camera config (Clerk session or paired-device credentials)
+roomsRouter.get('/:id/camera-config', clerkOrDeviceAuth(), async (req: DeviceRequest, res: Response) => {
+  try {
+    if (req.device && req.device.roomId !== req.params.id) {
+      return res.status(403).json({ error: 'Device not authorized for this room' });
+    }
+
+    const room = await prisma.room.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.userId,
+      },
+      include: withAccountMode,
+    });
+
+    if (!room) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+
+    res.json({ config: cameraConfig(room, room.user.armingMode) });
+  } catch (error) {
+    console.error('Get camera config error:', error);
+    res.status(500).json({ error: 'Failed to get camera config' });
+  }
+});
+
+// Set or clear the room's arming mode override; connected cameras are told immediately
+roomsRouter.put('/:id/mode', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const { mode } = roomModeSchema.parse(req.body);
+
+    const room = await prisma.room.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.userId,
+      },
+      include: withAccountMode,
+    });
+
+    if (!room) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+
+    await prisma.room.update({
+      where: { id: room.id },
+      data: { armingMode: mode },
+    });
+
+    const effective = effectiveArmingMode(mode, room.user.armingMode);
+    publishArmingMode(room.livekitRoom, effective);
+
+    res.json({ mode: effective, roomMode: mode });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error('Set room mode error:', error);
+    res.status(500).json({ error: 'Failed to set room mode' });
+  }
+});
+
+// Viewer connections logged from LiveKit webhooks, newest first
+roomsRouter.get('/:id/viewer-sessions', clerkAuth(), async (req: ClerkRequest, res: Response) => {
+  try {
+    const room = await prisma.room.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.userId,
+      },
+      select: { id: true },
+    });
+
+    if (!room) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+
+    const sessions = await prisma.viewerSession.findMany({
+      where: { roomId: room.id },
+      orderBy: { joinedAt: 'desc' },
+      take: 50,
+    });
+
+    res.json({ sessions });
+  } catch (error) {
+    console.error('List viewer sessions error:', error);
+    res.status(500).json({ error: 'Failed to list viewer sessions' });
+  }
+});
+
 // Delete room
-roomsRouter.delete('/:id', async (req: ClerkRequest, res) => {
+roomsRouter.delete('/:id', clerkAuth(), async (req: ClerkRequest, res: Response) => {
   try {
     const result = await prisma.room.deleteMany({
       where: {
@@ -5,6 +5,8 @@ import { clerkAuth, type ClerkRequest } from '../middleware/clerk.js';
 import { requireActiveSubscription } from '../middleware/subscription.js';
 import { deviceAuth, type DeviceRequest } from '../middleware/deviceAuth.js';
 import { generateLiveKitToken, getLiveKitUrl } from '../services/livekit.service.js';
+import { effectiveArmingMode } from '../services/armingMode.js';
+import { markDeviceSeen } from '../services/deviceStatus.js';
 import crypto from 'crypto';
 
 export const tokensRouter = Router();
@@ -125,9 +127,15 @@ tokensRouter.post('/device', deviceAuth(), async (req: DeviceRequest, res: Respo
       role: 'camera',
     });
 
-    await prisma.device.update({
+    await markDeviceSeen(device.id);
+
+    const { room } = await prisma.device.findUniqueOrThrow({
       where: { id: device.id },
-      data: { isOnline: true, lastSeen: new Date() },
+      select: {
+        room: {
+          select: { armingMode: true, user: { select: { armingMode: true } } },
+        },
+      },
     });
 
     res.json({
@@ -138,6 +146,8 @@ tokensRouter.post('/device', deviceAuth(), async (req: DeviceRequest, res: Respo
       participantId: device.participantId,
       deviceId: device.id,
       deviceName: device.name,
+      // Refreshing cameras re-sync the arming mode they may have missed
+      armingMode: room ? effectiveArmingMode(room.armingMode, room.user.armingMode) : 'away',
     });
   } catch (error) {
     console.error('Device token error:', error);
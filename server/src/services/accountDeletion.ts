@@ -1,12 +1,15 @@
 import { prisma } from '../lib/prisma.js';
-import { deleteClip } from './storage.service.js';
+import { deleteClip, abortUpload } from './storage.service.js';
 import { stripe } from './stripe.service.js';
+import { uploadTarget } from './clipUploads.js';
+import { deleteEventThumbnail } from './eventThumbnails.js';
 
 /**
  * Deletes everything we hold for a user, honoring the privacy policy:
- * Stripe subscription is canceled (so billing stops), stored clip files are
- * removed, and the user row cascade-deletes rooms, devices, events, clips,
- * and push subscriptions.
+ * Stripe subscription is canceled (so billing stops), stored clip,
+ * recording and thumbnail files are removed, and the user row
+ * cascade-deletes rooms, devices, events, clips, recordings and push
+ * subscriptions.
  */
 export async function deleteUserAccount(clerkId: string): Promise<boolean> {
   const user = await prisma.user.findUnique({
@@ -14,7 +17,23 @@ export async function deleteUserAccount(clerkId: string): Promise<boolean> {
     select: {
       id: true,
       subscriptionId: true,
-      clips: { select: { storagePath: true } },
+      clips: {
+        select: {
+          storagePath: true,
+          storageType: true,
+          parts: { select: { storagePath: true, storageType: true } },
+        },
+      },
+      rooms: {
+        select: {
+          recordings: { select: { storagePath: true, storageType: true } },
+          detectionEvents: {
+            where: { thumbnailPath: { not: null } },
+            select: { id: true, thumbnailPath: true, thumbnailStorageType: true },
+          },
+          clipUploads: { where: { status: 'open' } },
+        },
+      },
     },
   });
 
@@ -32,13 +51,35 @@ export async function deleteUserAccount(clerkId: string): Promise<boolean> {
   }
 
   // Best-effort storage cleanup; DB rows go regardless
-  for (const clip of user.clips) {
+  for (const clip of user.clips.flatMap((clip) => [clip, ...clip.parts])) {
     try {
-      await deleteClip(clip.storagePath);
+      await deleteClip(clip.storagePath, clip.storageType);
     } catch (error) {
       console.error('[AccountDeletion] Clip file delete failed:', clip.storagePath, error);
     }
   }
+  for (const recording of user.rooms.flatMap((room) => room.recordings)) {
+    try {
+      await deleteClip(recording.storagePath, recording.storageType);
+    } catch (error) {
+      console.error('[AccountDeletion] Recording file delete failed:', recording.storagePath, error);
+    }
+  }
+  for (const event of user.rooms.flatMap((room) => room.detectionEvents)) {
+    try {
+      await deleteEventThumbnail(event);
+    } catch (error) {
+      console.error('[AccountDeletion] Thumbnail delete failed:', event.thumbnailPath, error);
+    }
+  }
+
+  for (const upload of user.rooms.flatMap((room) => room.clipUploads)) {
+    try {
+      await abortUpload(uploadTarget(upload));
+    } catch (error) {
+      console.error('[AccountDeletion] Upload abort failed:', upload.id, error);
+    }
+  }
 
   await prisma.user.delete({ where: { id: user.id } });
   console.log('[AccountDeletion] Deleted user for Clerk ID:', clerkId);
@@ -0,0 +1,76 @@
+/**
+ * Weekly arm/disarm schedules. A room is armed during any of its windows,
+ * evaluated in the room's IANA timezone. A window whose end is not after
+ * its start runs past midnight into the next day.
+ */
+
+export interface ArmWindow {
+  day: number; // 0 = Sunday
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Weekday and minutes since midnight of `date` in `timeZone`. */
+export function localTime(date: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(get('weekday')),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+/** null or an empty schedule means always armed. */
+export function isArmed(
+  windows: ArmWindow[] | null,
+  timeZone: string,
+  date: Date = new Date()
+): boolean {
+  if (!windows || windows.length === 0) return true;
+
+  const { day, minutes } = localTime(date, timeZone);
+  const previousDay = (day + 6) % 7;
+
+  return windows.some((w) => {
+    const start = minutesOfDay(w.start);
+    const end = minutesOfDay(w.end);
+    if (start < end) {
+      return w.day === day && minutes >= start && minutes < end;
+    }
+    // Overnight window
+    return (w.day === day && minutes >= start) || (w.day === previousDay && minutes < end);
+  });
+}
+
+export function parseArmSchedule(raw: string | null): ArmWindow[] | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,24 @@
+import { sendRoomData } from './livekit.service.js';
+
+/**
+ * Manual arming mode, set per account and optionally overridden per room.
+ * Away: detect and notify. Home: detect and record events, no push.
+ * Off: cameras stop reporting.
+ */
+export const ARMING_MODES = ['home', 'away', 'off'] as const;
+export type ArmingMode = (typeof ARMING_MODES)[number];
+
+export function effectiveArmingMode(roomMode: string | null, accountMode: string): ArmingMode {
+  const mode = roomMode ?? accountMode;
+  return (ARMING_MODES as readonly string[]).includes(mode) ? (mode as ArmingMode) : 'away';
+}
+
+/**
+ * Push the new mode to everyone connected to the room. Best effort:
+ * cameras that miss it pick the mode up on their next config or token fetch.
+ */
+export function publishArmingMode(livekitRoom: string, mode: ArmingMode): void {
+  sendRoomData(livekitRoom, { type: 'arming_mode', mode }).catch((error) => {
+    console.error('[Arming] Failed to notify room', livekitRoom, error);
+  });
+}
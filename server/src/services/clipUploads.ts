@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import type { ClipUpload } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import {
+  abortUpload,
+  deleteClip,
+  getClipStats,
+  getClipStream,
+  type UploadTarget,
+  type UploadedPart,
+} from './storage.service.js';
+
+/**
+ * Resumable clip uploads. The camera opens a session for the file's size,
+ * sends it in fixed-size chunks, each starting where the server says the
+ * last one ended, and finalizes it into a Clip (or a later ClipPart). A
+ * dropped connection only costs the chunk in flight.
+ */
+
+// Sessions untouched this long are aborted and their chunks discarded
+export const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+// How long a complete request holds the session while it assembles the file
+export const ASSEMBLY_LEASE_MS = 5 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 30 * 60 * 1000;
+const PRUNE_BATCH = 200;
+
+// Body limit for a chunk request, fixed so the parser can be built at import
+// time. Covers the largest part size of any provider (S3's 5 MiB minimum);
+// each upload's own chunkSize is enforced per request.
+export const MAX_CHUNK_BYTES = 5 * 1024 * 1024;
+
+/** What the camera needs to resume; storage details stay server-side. */
+export function serializeUpload(upload: ClipUpload) {
+  return {
+    id: upload.id,
+    status: upload.status,
+    totalSize: upload.totalSize,
+    chunkSize: upload.chunkSize,
+    receivedBytes: upload.receivedBytes,
+    expiresAt: upload.expiresAt,
+  };
+}
+
+export function uploadTarget(upload: ClipUpload): UploadTarget {
+  return {
+    path: upload.storagePath,
+    storageType: upload.storageType,
+    multipartId: upload.multipartId,
+  };
+}
+
+export function parseUploadedParts(upload: ClipUpload): UploadedPart[] {
+  try {
+    const parts = JSON.parse(upload.uploadedParts);
+    return Array.isArray(parts) ? parts : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * SHA-256 of the assembled file, hex. Node can't carry a hash across
+ * requests, so the file is read back from storage once on completion.
+ */
+export async function hashUploadedFile(upload: ClipUpload): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of await getClipStream(upload.storagePath, upload.storageType)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Free an unfinished session's storage. A completion that died partway may
+ * have assembled the file, and maybe created the clip that now owns it.
+ */
+async function discardUpload(upload: ClipUpload): Promise<void> {
+  if (upload.status === 'assembling') {
+    const owner =
+      upload.partIndex !== null
+        ? await prisma.clipPart.findFirst({ where: { storagePath: upload.storagePath } })
+        : await prisma.clip.findFirst({
+            where: { userId: upload.userId, roomId: upload.roomId, storagePath: upload.storagePath },
+          });
+    if (owner) return;
+    if (await getClipStats(upload.storagePath, upload.storageType)) {
+      await deleteClip(upload.storagePath, upload.storageType);
+      return;
+    }
+  }
+  await abortUpload(uploadTarget(upload));
+}
+
+/** Abort and drop expired sessions. Returns how many went. */
+export async function pruneClipUploads(now = new Date()): Promise<number> {
+  const expired = await prisma.clipUpload.findMany({
+    where: { expiresAt: { lt: now } },
+    take: PRUNE_BATCH,
+  });
+
+  let pruned = 0;
+  for (const upload of expired) {
+    if (upload.status !== 'complete') {
+      try {
+        await discardUpload(upload);
+      } catch (error) {
+        // Leave the row so the next pass retries
+        console.error('[ClipUploads] Abort failed:', upload.id, error);
+        continue;
+      }
+    }
+    await prisma.clipUpload.delete({ where: { id: upload.id } });
+    pruned++;
+  }
+  return pruned;
+}
+
+/** Run the pruner on an interval. Returns a function that stops it. */
+export function startClipUploadPruner(intervalMs = PRUNE_INTERVAL_MS): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const pruned = await pruneClipUploads();
+      if (pruned) console.log(`[ClipUploads] Pruned ${pruned} expired uploads`);
+    } catch (error) {
+      console.error('[ClipUploads] Prune failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,98 @@
+import type { Clip, ClipPart } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+
+/**
+ * Clip records, shared by the one-shot upload and resumable uploads. A
+ * clip's own file is part 0; long clips add numbered ClipParts after it,
+ * and their size and duration roll up into the clip.
+ */
+
+export const ALLOWED_MIME_TYPES = ['video/webm', 'video/mp4', 'video/ogg'];
+export const MAX_CLIP_BYTES = 50 * 1024 * 1024;
+export const MAX_CLIP_PARTS = 20;
+
+export interface StoredClipFile {
+  path: string;
+  /** Provider holding the file */
+  storageType: string;
+  size: number;
+  mimeType: string;
+  /** SHA-256 of the stored bytes, hex, hashed as they streamed in or read back after assembly */
+  checksum: string;
+  /** Seconds, when known */
+  duration: number | null;
+}
+
+export interface NewClip {
+  filename: string;
+  detectionType: string;
+  confidence: number;
+  userId: string;
+  roomId: string;
+  deviceId: string;
+  recordedAt: Date;
+}
+
+// Point the clip's events at it. Ids from other rooms are ignored.
+export async function linkClipEvents(clipId: string, roomId: string, eventIds: string[]) {
+  if (eventIds.length === 0) return;
+  await prisma.detectionEvent.updateMany({
+    where: { id: { in: eventIds }, roomId },
+    data: { clipId },
+  });
+}
+
+export async function createClip(
+  clip: NewClip,
+  file: StoredClipFile,
+  eventIds: string[]
+): Promise<Clip> {
+  const created = await prisma.clip.create({
+    data: {
+      ...clip,
+      storagePath: file.path,
+      storageType: file.storageType,
+      mimeType: file.mimeType,
+      fileSize: file.size,
+      checksum: file.checksum,
+      duration: file.duration,
+    },
+  });
+  await linkClipEvents(created.id, created.roomId, eventIds);
+  return created;
+}
+
+export async function addClipPart(
+  clip: Clip,
+  index: number,
+  file: StoredClipFile,
+  eventIds: string[]
+): Promise<ClipPart> {
+  const part = await prisma.clipPart.create({
+    data: {
+      clipId: clip.id,
+      index,
+      storagePath: file.path,
+      storageType: file.storageType,
+      fileSize: file.size,
+      checksum: file.checksum,
+      duration: file.duration,
+    },
+  });
+
+  // The clip's size and length cover all of its parts. Both are increments,
+  // as `clip` may be stale when parts finish close together.
+  if (file.duration !== null) {
+    // An unknown length counts as 0; incrementing NULL would leave it NULL
+    await prisma.clip.updateMany({ where: { id: clip.id, duration: null }, data: { duration: 0 } });
+  }
+  await prisma.clip.update({
+    where: { id: clip.id },
+    data: {
+      fileSize: { increment: file.size },
+      ...(file.duration !== null && { duration: { increment: file.duration } }),
+    },
+  });
+  await linkClipEvents(clip.id, clip.roomId, eventIds);
+  return part;
+}
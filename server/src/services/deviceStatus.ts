@@ -0,0 +1,158 @@
+import { prisma } from '../lib/prisma.js';
+import { sendDeviceStatusNotification } from './pushNotifications.js';
+
+/**
+ * Online/offline tracking for paired cameras.
+ *
+ * Any sign of life (token refresh, heartbeat, telemetry, LiveKit join) goes
+ * through markDeviceSeen(). The sweeper marks cameras offline once they've
+ * been silent for OFFLINE_AFTER_MS, and pushes an alert only after the
+ * camera has stayed offline for OFFLINE_ALERT_GRACE_MS, so brief network
+ * drops and page reloads don't wake anyone up.
+ */
+
+export const OFFLINE_AFTER_MS =
+  Number(process.env.DEVICE_OFFLINE_AFTER_SECONDS || 180) * 1000;
+export const OFFLINE_ALERT_GRACE_MS =
+  Number(process.env.DEVICE_OFFLINE_ALERT_GRACE_SECONDS || 300) * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export type OfflineReason = 'heartbeat_timeout' | 'participant_left' | 'room_finished';
+
+const deviceLabels = {
+  name: true,
+  userId: true,
+  room: { select: { name: true } },
+} as const;
+
+/** Record that the camera is alive; logs an 'online' event if it was offline. */
+export async function markDeviceSeen(deviceId: string, now = new Date()): Promise<void> {
+  const device = await prisma.device.findUnique({
+    where: { id: deviceId },
+    select: { isOnline: true, offlineSince: true, offlineNotifiedAt: true, ...deviceLabels },
+  });
+  if (!device) return;
+
+  await prisma.device.update({
+    where: { id: deviceId },
+    data: { isOnline: true, lastSeen: now, offlineSince: null, offlineNotifiedAt: null },
+  });
+
+  if (device.isOnline || !device.offlineSince) return;
+
+  await prisma.deviceStatusEvent.create({
+    data: { deviceId, status: 'online', timestamp: now },
+  });
+
+  // Only follow up on an alert the owner actually received
+  if (device.offlineNotifiedAt) {
+    const offlineMinutes = Math.round((now.getTime() - device.offlineSince.getTime()) / 60000);
+    sendDeviceStatusNotification(device.userId, {
+      status: 'online',
+      deviceId,
+      deviceName: device.name,
+      roomName: device.room?.name,
+      offlineMinutes,
+    }).catch((error) => {
+      console.error('[DeviceStatus] Failed to send back-online notification:', error);
+    });
+  }
+}
+
+/** Mark an online camera offline. Returns false if it already was. */
+export async function markDeviceOffline(
+  deviceId: string,
+  reason: OfflineReason,
+  now = new Date()
+): Promise<boolean> {
+  const result = await prisma.device.updateMany({
+    where: { id: deviceId, isOnline: true },
+    data: { isOnline: false, offlineSince: now },
+  });
+  if (result.count === 0) return false;
+
+  await prisma.deviceStatusEvent.create({
+    data: { deviceId, status: 'offline', reason, timestamp: now },
+  });
+  console.log(`[DeviceStatus] ${deviceId} offline (${reason})`);
+  return true;
+}
+
+/**
+ * One pass of the sweeper: time out silent cameras, then alert on cameras
+ * that have been offline past the grace period.
+ */
+export async function sweepDevices(
+  now = new Date()
+): Promise<{ markedOffline: number; notified: number }> {
+  const stale = await prisma.device.findMany({
+    where: {
+      isOnline: true,
+      OR: [{ lastSeen: null }, { lastSeen: { lt: new Date(now.getTime() - OFFLINE_AFTER_MS) } }],
+    },
+    select: { id: true },
+  });
+
+  let markedOffline = 0;
+  for (const { id } of stale) {
+    if (await markDeviceOffline(id, 'heartbeat_timeout', now)) markedOffline++;
+  }
+
+  const due = await prisma.device.findMany({
+    where: {
+      isOnline: false,
+      offlineNotifiedAt: null,
+      offlineSince: { lte: new Date(now.getTime() - OFFLINE_ALERT_GRACE_MS) },
+    },
+    select: { id: true, offlineSince: true, ...deviceLabels },
+  });
+
+  let notified = 0;
+  for (const device of due) {
+    // Claim the alert first so overlapping sweeps don't send it twice
+    const claimed = await prisma.device.updateMany({
+      where: { id: device.id, isOnline: false, offlineNotifiedAt: null },
+      data: { offlineNotifiedAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      await sendDeviceStatusNotification(device.userId, {
+        status: 'offline',
+        deviceId: device.id,
+        deviceName: device.name,
+        roomName: device.room?.name,
+        offlineMinutes: Math.round((now.getTime() - device.offlineSince!.getTime()) / 60000),
+      });
+      notified++;
+    } catch (error) {
+      console.error('[DeviceStatus] Failed to send offline notification:', error);
+    }
+  }
+
+  return { markedOffline, notified };
+}
+
+/** Run the sweeper on an interval. Returns a function that stops it. */
+export function startDeviceSweeper(intervalMs = SWEEP_INTERVAL_MS): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { markedOffline, notified } = await sweepDevices();
+      if (markedOffline || notified) {
+        console.log(`[DeviceStatus] Sweep: ${markedOffline} offline, ${notified} notified`);
+      }
+    } catch (error) {
+      console.error('[DeviceStatus] Sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return () => clearInterval(timer);
+}
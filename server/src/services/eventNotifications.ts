@@ -0,0 +1,57 @@
+import { prisma } from '../lib/prisma.js';
+import { sendDetectionNotification, type DetectionNotification } from './pushNotifications.js';
+import { getThumbnailUrl } from './eventThumbnails.js';
+
+/**
+ * Push notifications for new events. A camera with a snapshot on the way
+ * asks us to hold the push for it: it goes out when the snapshot lands or
+ * after THUMBNAIL_WAIT_MS, whichever comes first, so the notification can
+ * show the picture without ever waiting long on it.
+ */
+
+const THUMBNAIL_WAIT_MS = 5000;
+
+// Held pushes by event id, each with the function that sends it now
+const held = new Map<string, () => void>();
+
+async function send(eventId: string, userId: string, notification: DetectionNotification) {
+  try {
+    const event = await prisma.detectionEvent.findUnique({ where: { id: eventId } });
+    // Deleted while the push was held
+    if (!event) return;
+
+    const image = (await getThumbnailUrl(event)) ?? undefined;
+    const result = await sendDetectionNotification(userId, { ...notification, image });
+    if (result.sent > 0) {
+      await prisma.detectionEvent.update({
+        where: { id: eventId },
+        data: { notificationSent: true },
+      });
+    }
+  } catch (error) {
+    console.error('[Events] Failed to send notification:', error);
+  }
+}
+
+export async function notifyDetection(
+  eventId: string,
+  userId: string,
+  notification: DetectionNotification,
+  { waitForThumbnail = false } = {}
+): Promise<void> {
+  if (!waitForThumbnail) return send(eventId, userId, notification);
+
+  const release = () => {
+    clearTimeout(timer);
+    held.delete(eventId);
+    void send(eventId, userId, notification);
+  };
+  const timer = setTimeout(release, THUMBNAIL_WAIT_MS);
+  timer.unref();
+  held.set(eventId, release);
+}
+
+/** The event's snapshot is stored; send its held push, if any, right away. */
+export function releaseNotification(eventId: string): void {
+  held.get(eventId)?.();
+}
@@ -0,0 +1,54 @@
+import { Readable } from 'stream';
+import { prisma } from '../lib/prisma.js';
+import { uploadThumbnail, deleteClip, getPresignedUrl } from './storage.service.js';
+
+/**
+ * Event snapshots: one JPEG per event, sent by the camera as the event
+ * fires. Viewers and push notifications load them from a signed URL, as
+ * an img src or a notification image can't carry a session. Backends that
+ * can't sign get no URL; /api/events/:id/thumbnail still serves the owner.
+ */
+
+export const MAX_THUMBNAIL_BYTES = 512 * 1024;
+
+// Long enough for a notification to still show its image the next morning
+const THUMBNAIL_URL_TTL = 24 * 60 * 60;
+
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+export interface EventThumbnail {
+  id: string;
+  thumbnailPath: string | null;
+  thumbnailStorageType: string | null;
+}
+
+export function isJpeg(image: Buffer): boolean {
+  return image.subarray(0, JPEG_SIGNATURE.length).equals(JPEG_SIGNATURE);
+}
+
+/** Store the snapshot and point the event at it, replacing any earlier one. */
+export async function setEventThumbnail(
+  event: EventThumbnail & { roomId: string },
+  userId: string,
+  image: Buffer
+): Promise<EventThumbnail> {
+  const file = await uploadThumbnail(userId, event.roomId, Readable.from([image]));
+  const updated = await prisma.detectionEvent.update({
+    where: { id: event.id },
+    data: { thumbnailPath: file.path, thumbnailStorageType: file.storageType },
+  });
+  await deleteEventThumbnail(event);
+  return updated;
+}
+
+export async function deleteEventThumbnail(event: EventThumbnail): Promise<void> {
+  if (!event.thumbnailPath || !event.thumbnailStorageType) return;
+  await deleteClip(event.thumbnailPath, event.thumbnailStorageType);
+}
+
+/** A signed link to the event's snapshot, or null if it has none or the backend can't sign. */
+export async function getThumbnailUrl(event: EventThumbnail): Promise<string | null> {
+  // Paths without a storage type were reported by old cameras, never uploaded
+  if (!event.thumbnailPath || !event.thumbnailStorageType) return null;
+  return getPresignedUrl(event.thumbnailPath, event.thumbnailStorageType, THUMBNAIL_URL_TTL);
+}
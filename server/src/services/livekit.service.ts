@@ -1,4 +1,12 @@
-import { AccessToken, VideoGrant, TrackSource } from 'livekit-server-sdk';
+import {
+  AccessToken,
+  VideoGrant,
+  TrackSource,
+  RoomServiceClient,
+  DataPacket_Kind,
+  WebhookReceiver,
+  type WebhookEvent,
+} from 'livekit-server-sdk';
 
 const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY;
 const LIVEKIT_API_SECRET = process.env.LIVEKIT_API_SECRET;
@@ -49,3 +57,56 @@ export function getLiveKitUrl(): string {
   }
   return LIVEKIT_URL;
 }
+
+let roomService: RoomServiceClient | null = null;
+
+function getRoomService(): RoomServiceClient {
+  if (!LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
+    throw new Error('LiveKit credentials not configured');
+  }
+  if (!roomService) {
+    // The server API speaks HTTP(S) on the same host as the signalling socket
+    roomService = new RoomServiceClient(
+      getLiveKitUrl().replace(/^ws/, 'http'),
+      LIVEKIT_API_KEY,
+      LIVEKIT_API_SECRET
+    );
+  }
+  return roomService;
+}
+
+// Data-channel protocol version; must match PROTOCOL_VERSION in src/lib/protocol.ts
+const PROTOCOL_VERSION = 1;
+
+/**
+ * Send a reliable data message to everyone in a LiveKit room, on the same
+ * topic the clients use among themselves. Rooms nobody has joined yet
+ * simply miss the message; clients fetch current state when they connect.
+ */
+export async function sendRoomData(
+  roomName: string,
+  message: { type: string } & Record<string, unknown>,
+  topic = 'detection'
+): Promise<void> {
+  const data = new TextEncoder().encode(JSON.stringify({ ...message, v: PROTOCOL_VERSION }));
+  await getRoomService().sendData(roomName, data, DataPacket_Kind.RELIABLE, { topic });
+}
+
+let webhookReceiver: WebhookReceiver | null = null;
+
+/**
+ * Verify and parse a LiveKit webhook. LiveKit signs a JWT with our API
+ * secret that carries the body's sha256; throws when either doesn't match.
+ */
+export async function receiveWebhook(
+  body: string,
+  authHeader: string | undefined
+): Promise<WebhookEvent> {
+  if (!LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
+    throw new Error('LiveKit credentials not configured');
+  }
+  if (!webhookReceiver) {
+    webhookReceiver = new WebhookReceiver(LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
+  }
+  return webhookReceiver.receive(body, authHeader);
+}
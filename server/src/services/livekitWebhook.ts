@@ -0,0 +1,176 @@
+import type { WebhookEvent } from 'livekit-server-sdk';
+import { prisma } from '../lib/prisma.js';
+import { markDeviceSeen, markDeviceOffline } from './deviceStatus.js';
+
+/**
+ * Applies LiveKit room and participant lifecycle webhooks. Cameras are
+ * matched on their participant identity (Device.participantId); every
+ * viewer connection gets a ViewerSession row keyed by participant sid.
+ * LiveKit retries failed deliveries and doesn't guarantee order, so each
+ * handler is safe to run twice or late.
+ */
+
+function isCamera(identity: string): boolean {
+  return identity.startsWith('cam_');
+}
+
+function isViewer(identity: string): boolean {
+  return identity.startsWith('viewer_');
+}
+
+// Protobuf timestamps are bigint seconds; 0 when unset
+function toDate(seconds: bigint | undefined, fallback: Date): Date {
+  return seconds ? new Date(Number(seconds) * 1000) : fallback;
+}
+
+function sessionSeconds(joinedAt: Date, leftAt: Date): number {
+  return Math.max(0, Math.round((leftAt.getTime() - joinedAt.getTime()) / 1000));
+}
+
+export async function handleLiveKitEvent(event: WebhookEvent): Promise<void> {
+  const now = new Date();
+  const at = toDate(event.createdAt, now);
+  const roomName = event.room?.name;
+  const participant = event.participant;
+
+  switch (event.event) {
+    case 'participant_joined':
+      if (!participant) return;
+      if (isCamera(participant.identity)) {
+        await cameraSeen(participant.identity, now);
+      } else if (isViewer(participant.identity) && roomName) {
+        await viewerJoined(roomName, participant.sid, participant.identity, toDate(participant.joinedAt, at));
+      }
+      return;
+
+    case 'participant_left':
+    case 'participant_connection_aborted':
+      if (!participant) return;
+      if (isCamera(participant.identity)) {
+        await cameraLeft(participant.identity, at);
+      } else if (isViewer(participant.identity) && roomName) {
+        await viewerLeft(roomName, participant.sid, participant.identity, toDate(participant.joinedAt, at), at);
+      }
+      return;
+
+    // A camera (re)publishing or dropping a track is still connected
+    case 'track_published':
+    case 'track_unpublished':
+      if (participant && isCamera(participant.identity)) {
+        await cameraSeen(participant.identity, now);
+      }
+      return;
+
+    case 'room_finished':
+      if (roomName) await roomFinished(roomName, at);
+      return;
+
+    default:
+      return;
+  }
+}
+
+async function cameraSeen(participantId: string, now: Date): Promise<void> {
+  const device = await prisma.device.findUnique({
+    where: { participantId },
+    select: { id: true },
+  });
+  if (device) await markDeviceSeen(device.id, now);
+}
+
+async function cameraLeft(participantId: string, leftAt: Date): Promise<void> {
+  const device = await prisma.device.findUnique({
+    where: { participantId },
+    select: { id: true, lastSeen: true },
+  });
+  if (!device) return;
+
+  // A late delivery after the camera already reconnected
+  if (device.lastSeen && device.lastSeen > leftAt) return;
+
+  await markDeviceOffline(device.id, 'participant_left', leftAt);
+}
+
+async function viewerJoined(
+  roomName: string,
+  participantSid: string,
+  identity: string,
+  joinedAt: Date
+): Promise<void> {
+  const room = await prisma.room.findUnique({
+    where: { livekitRoom: roomName },
+    select: { id: true },
+  });
+  if (!room) return;
+
+  await prisma.viewerSession.upsert({
+    where: { participantSid },
+    create: { participantSid, identity, joinedAt, roomId: room.id },
+    update: {},
+  });
+}
+
+async function viewerLeft(
+  roomName: string,
+  participantSid: string,
+  identity: string,
+  joinedAt: Date,
+  leftAt: Date
+): Promise<void> {
+  const session = await prisma.viewerSession.findUnique({ where: { participantSid } });
+
+  if (session) {
+    if (session.leftAt) return;
+    await prisma.viewerSession.update({
+      where: { id: session.id },
+      data: { leftAt, duration: sessionSeconds(session.joinedAt, leftAt) },
+    });
+    return;
+  }
+
+  // The join was never delivered; log the session from the participant info
+  const room = await prisma.room.findUnique({
+    where: { livekitRoom: roomName },
+    select: { id: true },
+  });
+  if (!room) return;
+
+  await prisma.viewerSession.create({
+    data: {
+      participantSid,
+      identity,
+      joinedAt,
+      leftAt,
+      duration: sessionSeconds(joinedAt, leftAt),
+      roomId: room.id,
+    },
+  });
+}
+
+// Everyone is gone: cameras go offline and open viewer sessions close
+async function roomFinished(roomName: string, finishedAt: Date): Promise<void> {
+  const room = await prisma.room.findUnique({
+    where: { livekitRoom: roomName },
+    select: {
+      id: true,
+      devices: { where: { isOnline: true }, select: { id: true, lastSeen: true } },
+    },
+  });
+  if (!room) return;
+
+  for (const device of room.devices) {
+    if (device.lastSeen && device.lastSeen > finishedAt) continue;
+    await markDeviceOffline(device.id, 'room_finished', finishedAt);
+  }
+
+  const open = await prisma.viewerSession.findMany({
+    where: { roomId: room.id, leftAt: null },
+    select: { id: true, joinedAt: true },
+  });
+  for (const session of open) {
+    await prisma.viewerSession.update({
+      where: { id: session.id },
+      data: { leftAt: finishedAt, duration: sessionSeconds(session.joinedAt, finishedAt) },
+    });
+  }
+}
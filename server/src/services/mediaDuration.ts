@@ -0,0 +1,209 @@
+/**
+ * Reads the playable length of an uploaded clip from the file itself, so
+ * Clip.duration doesn't depend on what the client claims. Handles WebM
+ * (Info/Duration, or the cluster timecodes when a live recording has no
+ * Duration) and MP4 (mvhd). Returns null for anything it can't read.
+ */
+
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+const CLUSTER_ID = 0x1f43b675;
+const TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+
+interface EbmlElement {
+  id: number;
+  /** null for unknown-size (live) elements, which run to the end of their parent */
+  size: number | null;
+  dataStart: number;
+}
+
+function readVint(buf: Buffer, pos: number, keepMarker: boolean): { value: number; length: number; allOnes: boolean } | null {
+  if (pos >= buf.length) return null;
+  const first = buf[pos];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || pos + length > buf.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = (first & (0xff >> length)) === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buf[pos + i];
+    if (buf[pos + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, allOnes };
+}
+
+function readElement(buf: Buffer, pos: number): EbmlElement | null {
+  const id = readVint(buf, pos, true);
+  if (!id) return null;
+  const size = readVint(buf, pos + id.length, false);
+  if (!size) return null;
+  return {
+    id: id.value,
+    size: size.allOnes ? null : size.value,
+    dataStart: pos + id.length + size.length,
+  };
+}
+
+function readUint(buf: Buffer, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < end; i++) value = value * 256 + buf[i];
+  return value;
+}
+
+function readFloat(buf: Buffer, start: number, size: number): number | null {
+  if (size === 4) return buf.readFloatBE(start);
+  if (size === 8) return buf.readDoubleBE(start);
+  return null;
+}
+
+// Block payload: track number vint, then a signed 16-bit offset from the cluster timecode
+function blockOffset(buf: Buffer, start: number): number | null {
+  const track = readVint(buf, start, false);
+  if (!track || start + track.length + 2 > buf.length) return null;
+  return buf.readInt16BE(start + track.length);
+}
+
+function webmDuration(buf: Buffer, scanClusters: boolean): number | null {
+  let pos = 0;
+  const ebml = readElement(buf, pos);
+  if (!ebml || ebml.id !== EBML_ID || ebml.size === null) return null;
+  pos = ebml.dataStart + ebml.size;
+
+  const segment = readElement(buf, pos);
+  if (!segment || segment.id !== SEGMENT_ID) return null;
+  const segmentEnd = segment.size === null ? buf.length : Math.min(buf.length, segment.dataStart + segment.size);
+
+  let timecodeScale = 1_000_000;
+  let firstTime: number | null = null;
+  let lastTime: number | null = null;
+  let blocks = 0;
+
+  pos = segment.dataStart;
+  while (pos < segmentEnd) {
+    const el = readElement(buf, pos);
+    if (!el) break;
+
+    if (el.id === INFO_ID && el.size !== null) {
+      let duration: number | null = null;
+      for (let p = el.dataStart; p < el.dataStart + el.size; ) {
+        const child = readElement(buf, p);
+        if (!child || child.size === null) break;
+        if (child.id === TIMECODE_SCALE_ID) {
+          timecodeScale = readUint(buf, child.dataStart, child.dataStart + child.size);
+        } else if (child.id === DURATION_ID) {
+          duration = readFloat(buf, child.dataStart, child.size);
+        }
+        p = child.dataStart + child.size;
+      }
+      if (duration !== null && duration > 0) return (duration * timecodeScale) / 1e9;
+      pos = el.dataStart + el.size;
+      continue;
+    }
+
+    if (el.id === CLUSTER_ID) {
+      if (!scanClusters) return null;
+      // Live clusters have no size: read children until the next cluster
+      let clusterTime = 0;
+      let p = el.dataStart;
+      const clusterEnd = el.size === null ? segmentEnd : el.dataStart + el.size;
+      while (p < clusterEnd) {
+        const child = readElement(buf, p);
+        if (!child || child.size === null || child.id === CLUSTER_ID) break;
+        if (child.id === TIMECODE_ID) {
+          clusterTime = readUint(buf, child.dataStart, child.dataStart + child.size);
+        } else if (child.id === SIMPLE_BLOCK_ID || child.id === BLOCK_GROUP_ID) {
+          let blockStart: number | null = child.dataStart;
+          if (child.id === BLOCK_GROUP_ID) {
+            const inner = readElement(buf, child.dataStart);
+            blockStart = inner?.id === BLOCK_ID ? inner.dataStart : null;
+          }
+          const offset = blockStart === null ? null : blockOffset(buf, blockStart);
+          if (offset !== null) {
+            const time = clusterTime + offset;
+            firstTime = firstTime === null ? time : Math.min(firstTime, time);
+            lastTime = lastTime === null ? time : Math.max(lastTime, time);
+            blocks++;
+          }
+        }
+        p = child.dataStart + child.size;
+      }
+      pos = p;
+      continue;
+    }
+
+    if (el.size === null) break;
+    pos = el.dataStart + el.size;
+  }
+
+  if (firstTime === null || lastTime === null) return null;
+  const span = lastTime - firstTime;
+  // Count the last frame as lasting one average frame interval
+  const ticks = blocks > 1 ? span + span / (blocks - 1) : span;
+  return (ticks * timecodeScale) / 1e9;
+}
+
+function mp4Duration(buf: Buffer): number | null {
+  const findBox = (type: string, start: number, end: number): { start: number; end: number } | null => {
+    let pos = start;
+    while (pos + 8 <= end) {
+      let size = buf.readUInt32BE(pos);
+      let header = 8;
+      if (size === 1 && pos + 16 <= end) {
+        size = Number(buf.readBigUInt64BE(pos + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - pos;
+      }
+      if (size < header) return null;
+      if (buf.toString('latin1', pos + 4, pos + 8) === type) {
+        return { start: pos + header, end: Math.min(end, pos + size) };
+      }
+      pos += size;
+    }
+    return null;
+  };
+
+  const moov = findBox('moov', 0, buf.length);
+  const mvhd = moov && findBox('mvhd', moov.start, moov.end);
+  if (!mvhd) return null;
+
+  const version = buf[mvhd.start];
+  if (mvhd.end - mvhd.start < (version === 1 ? 32 : 20)) return null;
+  const timescale = version === 1 ? buf.readUInt32BE(mvhd.start + 20) : buf.readUInt32BE(mvhd.start + 12);
+  const duration =
+    version === 1 ? Number(buf.readBigUInt64BE(mvhd.start + 24)) : buf.readUInt32BE(mvhd.start + 16);
+  return timescale > 0 ? duration / timescale : null;
+}
+
+/** Media length in seconds, or null if the file can't be read. */
+export function getMediaDuration(buf: Buffer, mimeType: string): number | null {
+  try {
+    if (mimeType === 'video/webm') return webmDuration(buf, true);
+    if (mimeType === 'video/mp4') return mp4Duration(buf);
+  } catch (error) {
+    console.error('[MediaDuration] Failed to read duration:', error);
+  }
+  return null;
+}
+
+/**
+ * Duration as written in the file header, readable from just the start of
+ * the file (e.g. the first chunk of an upload). Unlike getMediaDuration it
+ * never estimates from block times, which a partial file would get wrong.
+ */
+export function getHeaderDuration(head: Buffer, mimeType: string): number | null {
+  try {
+    if (mimeType === 'video/webm') return webmDuration(head, false);
+    if (mimeType === 'video/mp4') return mp4Duration(head);
+  } catch (error) {
+    console.error('[MediaDuration] Failed to read header duration:', error);
+  }
+  return null;
+}
@@ -11,10 +11,19 @@ if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
   webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
 }
 
+const SOUND_CLASS_LABELS: Record<string, string> = {
+  bark: 'Barking',
+  meow: 'Meowing',
+  whine: 'Whining',
+  noise: 'Noise',
+};
+
 export interface PushNotificationPayload {
   title: string;
   body: string;
   icon?: string;
+  /** Large picture shown in the notification body */
+  image?: string;
   badge?: string;
   tag?: string;
   data?: Record<string, unknown>;
@@ -71,30 +80,47 @@ export async function sendPushNotification(
   return { sent, failed };
 }
 
+export interface DetectionNotification {
+  type: 'motion' | 'sound' | 'inactivity';
+  deviceId: string;
+  roomName?: string;
+  zoneName?: string | null;
+  soundClass?: string | null;
+  inactiveMinutes?: number | null;
+  confidence?: number;
+  /** The event's snapshot */
+  image?: string;
+}
+
 export async function sendDetectionNotification(
   userId: string,
-  event: {
-    type: 'motion' | 'sound';
-    deviceId: string;
-    roomName?: string;
-    confidence?: number;
-  }
+  event: DetectionNotification
 ): Promise<{ sent: number; failed: number }> {
-  const typeLabel = event.type === 'motion' ? 'Motion' : 'Sound';
+  if (event.type === 'inactivity') {
+    return sendInactivityNotification(userId, event);
+  }
+
+  const soundLabel = event.soundClass ? SOUND_CLASS_LABELS[event.soundClass] : undefined;
+  const typeLabel = event.type === 'motion' ? 'Motion' : soundLabel ?? 'Sound';
   const roomLabel = event.roomName ? ` in ${event.roomName}` : '';
+  const zoneLabel = event.zoneName ? ` (${event.zoneName})` : '';
   const confidenceLabel = event.confidence
     ? ` (${Math.round(event.confidence * 100)}% confidence)`
     : '';
 
   const payload: PushNotificationPayload = {
     title: `${typeLabel} Detected${roomLabel}`,
-    body: `Your pet cam detected ${event.type}${confidenceLabel}`,
+    body: soundLabel
+      ? `${soundLabel} detected${roomLabel}${confidenceLabel}`
+      : `Your pet cam detected ${event.type}${zoneLabel}${confidenceLabel}`,
     icon: '/pwa-192x192.png',
+    image: event.image,
     badge: '/pwa-64x64.png',
     tag: `detection-${event.type}-${event.deviceId}`,
     data: {
       type: 'detection',
       eventType: event.type,
+      soundClass: event.soundClass ?? null,
       deviceId: event.deviceId,
       timestamp: new Date().toISOString(),
     },
@@ -103,6 +129,83 @@ export async function sendDetectionNotification(
   return sendPushNotification(userId, payload);
 }
 
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+  const hours = Math.round((minutes / 60) * 10) / 10;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+async function sendInactivityNotification(
+  userId: string,
+  event: { deviceId: string; roomName?: string; inactiveMinutes?: number | null; image?: string }
+): Promise<{ sent: number; failed: number }> {
+  const roomLabel = event.roomName ? ` in ${event.roomName}` : '';
+  const durationLabel = event.inactiveMinutes ? ` for ${formatMinutes(event.inactiveMinutes)}` : '';
+
+  const payload: PushNotificationPayload = {
+    title: `No Motion${roomLabel}`,
+    body: `Your pet cam hasn't seen any movement${durationLabel}`,
+    icon: '/pwa-192x192.png',
+    image: event.image,
+    badge: '/pwa-64x64.png',
+    tag: `detection-inactivity-${event.deviceId}`,
+    data: {
+      type: 'detection',
+      eventType: 'inactivity',
+      deviceId: event.deviceId,
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  return sendPushNotification(userId, payload);
+}
+
+export async function sendDeviceStatusNotification(
+  userId: string,
+  event: {
+    status: 'offline' | 'online';
+    deviceId: string;
+    deviceName: string;
+    roomName?: string;
+    offlineMinutes: number;
+  }
+): Promise<{ sent: number; failed: number }> {
+  const roomLabel = event.roomName ? ` in ${event.roomName}` : '';
+  const durationLabel = formatMinutes(Math.max(event.offlineMinutes, 1));
+
+  const payload: PushNotificationPayload =
+    event.status === 'offline'
+      ? {
+          title: `Camera Offline${roomLabel}`,
+          body: `${event.deviceName} has been offline for ${durationLabel}. Check its power and Wi-Fi.`,
+          icon: '/pwa-192x192.png',
+          badge: '/pwa-64x64.png',
+          tag: `device-status-${event.deviceId}`,
+          data: {
+            type: 'device_status',
+            status: 'offline',
+            deviceId: event.deviceId,
+            timestamp: new Date().toISOString(),
+          },
+        }
+      : {
+          title: `Camera Back Online${roomLabel}`,
+          body: `${event.deviceName} is back after ${durationLabel} offline`,
+          icon: '/pwa-192x192.png',
+          badge: '/pwa-64x64.png',
+          // Same tag replaces the offline alert if it's still showing
+          tag: `device-status-${event.deviceId}`,
+          data: {
+            type: 'device_status',
+            status: 'online',
+            deviceId: event.deviceId,
+            timestamp: new Date().toISOString(),
+          },
+        };
+
+  return sendPushNotification(userId, payload);
+}
+
 export function getVapidPublicKey(): string {
   return VAPID_PUBLIC_KEY;
 }
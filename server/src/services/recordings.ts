@@ -0,0 +1,75 @@
+import type { Recording } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { deleteClip } from './storage.service.js';
+
+/**
+ * Continuous recording. Cameras in a room with continuousRecording on
+ * upload fixed-length segments, each stored as a Recording with its real
+ * start and end time. The pruner drops segments once they're older than
+ * the room's retention window.
+ */
+
+// Cameras cut segments at about a minute; anything far longer is a bug
+export const MAX_SEGMENT_SECONDS = 10 * 60;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const PRUNE_BATCH = 500;
+
+// fileSize is a BigInt column, which JSON can't carry
+export function serializeRecording(recording: Recording) {
+  return {
+    ...recording,
+    fileSize: recording.fileSize === null ? null : Number(recording.fileSize),
+  };
+}
+
+/** Delete segments past each room's retention. Returns how many went. */
+export async function pruneRecordings(now = new Date()): Promise<number> {
+  const rooms = await prisma.room.findMany({
+    where: { recordings: { some: {} } },
+    select: { id: true, recordingRetentionHours: true },
+  });
+
+  let pruned = 0;
+  for (const room of rooms) {
+    const cutoff = new Date(now.getTime() - room.recordingRetentionHours * 60 * 60 * 1000);
+    const expired = await prisma.recording.findMany({
+      where: { roomId: room.id, startedAt: { lt: cutoff } },
+      select: { id: true, storagePath: true, storageType: true },
+      take: PRUNE_BATCH,
+    });
+
+    for (const recording of expired) {
+      try {
+        await deleteClip(recording.storagePath, recording.storageType);
+      } catch (error) {
+        // Leave the row so the next pass retries the file
+        console.error('[Recordings] Segment file delete failed:', recording.storagePath, error);
+        continue;
+      }
+      await prisma.recording.delete({ where: { id: recording.id } });
+      pruned++;
+    }
+  }
+  return pruned;
+}
+
+/** Run the pruner on an interval. Returns a function that stops it. */
+export function startRecordingPruner(intervalMs = PRUNE_INTERVAL_MS): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const pruned = await pruneRecordings();
+      if (pruned) console.log(`[Recordings] Pruned ${pruned} expired segments`);
+    } catch (error) {
+      console.error('[Recordings] Prune failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -1,171 +1,171 @@
-import fs from 'fs/promises';
-import { createReadStream, existsSync, mkdirSync } from 'fs';
-import path from 'path';
 import { randomUUID } from 'crypto';
-import { fileURLToPath } from 'url';
-import type { ReadStream } from 'fs';
+import type { Readable } from 'stream';
 import {
-  S3Client,
-  PutObjectCommand,
-  GetObjectCommand,
-  DeleteObjectCommand,
-} from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+  defaultStorageType,
+  getStorageProvider,
+  type ByteRange,
+  type StoredObject,
+  type UploadedPart,
+} from './storage/index.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+export type { UploadedPart } from './storage/index.js';
+
+/**
+ * Clip, recording and thumbnail files. New files go to the default
+ * provider; anything that reads or removes a file names the provider it was
+ * written to, which callers keep in the row's storageType.
+ */
 
 export interface StoredFile {
   path: string;
   size: number;
+  /** Provider the file went to; store it next to the path */
+  storageType: string;
 }
 
-const STORAGE_TYPE = process.env.STORAGE_TYPE || 'local';
-const STORAGE_PATH = process.env.STORAGE_PATH || path.join(__dirname, '../../uploads');
+const EXTENSIONS: Record<string, string> = {
+  'video/webm': '.webm',
+  'image/jpeg': '.jpg',
+};
 
-// Local storage: ensure uploads directory exists
-if (STORAGE_TYPE === 'local' && !existsSync(STORAGE_PATH)) {
-  mkdirSync(STORAGE_PATH, { recursive: true });
+function buildKey(
+  prefix: 'clips' | 'recordings' | 'thumbnails',
+  userId: string,
+  roomId: string,
+  mimeType: string
+): string {
+  const ext = EXTENSIONS[mimeType] ?? '.mp4';
+  const date = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+  return `${prefix}/${userId}/${roomId}/${date}/${randomUUID()}${ext}`;
 }
 
-// R2 client (initialized lazily only when needed)
-let _r2Client: S3Client | null = null;
+// ── Upload ──────────────────────────────────────────────────────────
+//
+// Uploads arrive as streams and are never held in memory whole.
 
-function getR2Client(): S3Client {
-  if (!_r2Client) {
-    const accountId = process.env.R2_ACCOUNT_ID;
-    const accessKeyId = process.env.R2_ACCESS_KEY_ID;
-    const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
+export async function uploadClip(
+  userId: string,
+  roomId: string,
+  body: Readable,
+  mimeType: string
+): Promise<StoredFile> {
+  return putFile(buildKey('clips', userId, roomId, mimeType), body, mimeType);
+}
 
-    if (!accountId || !accessKeyId || !secretAccessKey) {
-      throw new Error(
-        'R2 storage requires R2_ACCOUNT_ID, R2_ACCESS_KEY_ID, and R2_SECRET_ACCESS_KEY env vars'
-      );
-    }
+/** Continuous-recording segments live next to clips under their own prefix. */
+export async function uploadRecordingSegment(
+  userId: string,
+  roomId: string,
+  body: Readable,
+  mimeType: string
+): Promise<StoredFile> {
+  return putFile(buildKey('recordings', userId, roomId, mimeType), body, mimeType);
+}
 
-    _r2Client = new S3Client({
-      region: 'auto',
-      endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
-      credentials: { accessKeyId, secretAccessKey },
-    });
-  }
-  return _r2Client;
+/** Event snapshots, always JPEG. */
+export async function uploadThumbnail(
+  userId: string,
+  roomId: string,
+  body: Readable
+): Promise<StoredFile> {
+  return putFile(buildKey('thumbnails', userId, roomId, 'image/jpeg'), body, 'image/jpeg');
 }
 
-function getR2Bucket(): string {
-  const bucket = process.env.R2_BUCKET_NAME;
-  if (!bucket) throw new Error('R2_BUCKET_NAME env var is required');
-  return bucket;
+async function putFile(key: string, body: Readable, mimeType: string): Promise<StoredFile> {
+  const storageType = defaultStorageType();
+  const { size } = await getStorageProvider(storageType).put(key, body, mimeType);
+  return { path: key, size, storageType };
 }
 
-function buildKey(userId: string, roomId: string, mimeType: string): string {
-  const ext = mimeType === 'video/webm' ? '.webm' : '.mp4';
-  const date = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
-  return `clips/${userId}/${roomId}/${date}/${randomUUID()}${ext}`;
+// ── Resumable uploads ────────────────────────────────────────────────
+//
+// A file assembled from chunks sent in order, each one a part of a
+// multipart upload on the provider.
+
+export interface UploadTarget {
+  /** Final storage key once the upload completes */
+  path: string;
+  storageType: string;
+  multipartId: string | null;
 }
 
-/** Prevent path traversal by ensuring resolved path stays within base. */
-function safePath(basePath: string, userPath: string): string {
-  const resolved = path.resolve(basePath, userPath);
-  if (!resolved.startsWith(path.resolve(basePath) + path.sep) && resolved !== path.resolve(basePath)) {
-    throw new Error('Invalid storage path');
-  }
-  return resolved;
+/** Chunk size clients must use, so chunks map one-to-one onto multipart parts. */
+export function getUploadChunkSize(): number {
+  return getStorageProvider().partSize;
 }
 
-// ── Upload ──────────────────────────────────────────────────────────
+function multipartIdOf(target: UploadTarget): string {
+  if (!target.multipartId) throw new Error(`Upload to ${target.path} has no multipart id`);
+  return target.multipartId;
+}
 
-export async function uploadClip(
+export async function beginUpload(
   userId: string,
   roomId: string,
-  file: Buffer,
   mimeType: string
-): Promise<StoredFile> {
-  const key = buildKey(userId, roomId, mimeType);
-
-  if (STORAGE_TYPE === 'r2') {
-    const client = getR2Client();
-    await client.send(
-      new PutObjectCommand({
-        Bucket: getR2Bucket(),
-        Key: key,
-        Body: file,
-        ContentType: mimeType,
-      })
-    );
-    return { path: key, size: file.length };
-  }
-
-  // Local storage
-  const fullPath = safePath(STORAGE_PATH, key);
-  await fs.mkdir(path.dirname(fullPath), { recursive: true });
-  await fs.writeFile(fullPath, file);
-  return { path: key, size: file.length };
+): Promise<UploadTarget> {
+  const storageType = defaultStorageType();
+  const key = buildKey('clips', userId, roomId, mimeType);
+  const multipartId = await getStorageProvider(storageType).createMultipart(key, mimeType);
+  return { path: key, storageType, multipartId };
 }
 
-// ── Delete ──────────────────────────────────────────────────────────
+/** Store one chunk. Returns the part to list on completion. */
+export async function writeUploadChunk(
+  target: UploadTarget,
+  partNumber: number,
+  chunk: Buffer
+): Promise<UploadedPart> {
+  return getStorageProvider(target.storageType).uploadPart(
+    target.path,
+    multipartIdOf(target),
+    partNumber,
+    chunk
+  );
+}
 
-export async function deleteClip(storagePath: string): Promise<void> {
-  if (STORAGE_TYPE === 'r2') {
-    const client = getR2Client();
-    await client.send(
-      new DeleteObjectCommand({
-        Bucket: getR2Bucket(),
-        Key: storagePath,
-      })
-    );
-    return;
-  }
+export async function completeUpload(target: UploadTarget, parts: UploadedPart[]): Promise<void> {
+  await getStorageProvider(target.storageType).completeMultipart(
+    target.path,
+    multipartIdOf(target),
+    parts
+  );
+}
 
-  // Local storage
-  const fullPath = safePath(STORAGE_PATH, storagePath);
-  await fs.unlink(fullPath).catch(() => {});
+/** Throw away an unfinished upload and whatever it stored. */
+export async function abortUpload(target: UploadTarget): Promise<void> {
+  await getStorageProvider(target.storageType).abortMultipart(target.path, multipartIdOf(target));
 }
 
-// ── Presigned URL (R2 only) ─────────────────────────────────────────
+// ── Read ────────────────────────────────────────────────────────────
 
+/** A direct download URL, or null when the file has to be streamed through us. */
 export async function getPresignedUrl(
   storagePath: string,
+  storageType: string,
   expiresIn = 3600
-): Promise<string> {
-  if (STORAGE_TYPE !== 'r2') {
-    throw new Error('Presigned URLs are only available with R2 storage');
-  }
-
-  const client = getR2Client();
-  return getSignedUrl(
-    client,
-    new GetObjectCommand({
-      Bucket: getR2Bucket(),
-      Key: storagePath,
-    }),
-    { expiresIn }
-  );
+): Promise<string | null> {
+  return getStorageProvider(storageType).signedUrl(storagePath, expiresIn);
 }
 
-// ── Local-only helpers (for streaming fallback) ─────────────────────
-
-export function getClipStream(storagePath: string): ReadStream {
-  if (STORAGE_TYPE !== 'local') {
-    throw new Error('getClipStream is only available with local storage');
-  }
-  const fullPath = safePath(STORAGE_PATH, storagePath);
-  return createReadStream(fullPath);
+export async function getClipStream(
+  storagePath: string,
+  storageType: string,
+  range?: ByteRange
+): Promise<Readable> {
+  return getStorageProvider(storageType).get(storagePath, range);
 }
 
+/** Size and modification time, or null if the file is gone. */
 export async function getClipStats(
-  storagePath: string
-): Promise<{ size: number }> {
-  if (STORAGE_TYPE !== 'local') {
-    throw new Error('getClipStats is only available with local storage');
-  }
-  const fullPath = safePath(STORAGE_PATH, storagePath);
-  const stats = await fs.stat(fullPath);
-  return { size: stats.size };
+  storagePath: string,
+  storageType: string
+): Promise<StoredObject | null> {
+  return getStorageProvider(storageType).head(storagePath);
 }
 
-// ── Helpers ─────────────────────────────────────────────────────────
+// ── Delete ──────────────────────────────────────────────────────────
 
-export function isR2(): boolean {
-  return STORAGE_TYPE === 'r2';
+export async function deleteClip(storagePath: string, storageType: string): Promise<void> {
+  await getStorageProvider(storageType).delete(storagePath);
 }
@@ -0,0 +1,83 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createLocalProvider } from './localProvider.js';
+import { createS3Provider, type S3ProviderConfig } from './s3Provider.js';
+import { createMemoryProvider } from './memoryProvider.js';
+import type { StorageProvider } from './provider.js';
+
+export type { StorageProvider, StoredObject, ByteRange, UploadedPart } from './provider.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Providers by storage type, the value kept in each row's storageType.
+ * STORAGE_TYPE picks where new files go; existing rows keep reading from
+ * wherever they were written, as long as that backend stays configured.
+ *
+ *   local   files under STORAGE_PATH (default server/uploads)
+ *   s3      any S3-compatible bucket: S3_BUCKET, S3_REGION, S3_ENDPOINT,
+ *           S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE
+ *   r2      Cloudflare R2: R2_ACCOUNT_ID, R2_ACCESS_KEY_ID,
+ *           R2_SECRET_ACCESS_KEY, R2_BUCKET_NAME
+ *   memory  nothing survives a restart; for tests
+ */
+const providers = new Map<string, StorageProvider>();
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} env var is required for this storage type`);
+  return value;
+}
+
+function s3Config(): S3ProviderConfig {
+  return {
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket: required('S3_BUCKET'),
+    accessKeyId: required('S3_ACCESS_KEY_ID'),
+    secretAccessKey: required('S3_SECRET_ACCESS_KEY'),
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  };
+}
+
+function r2Config(): S3ProviderConfig {
+  return {
+    endpoint: `https://${required('R2_ACCOUNT_ID')}.r2.cloudflarestorage.com`,
+    region: 'auto',
+    bucket: required('R2_BUCKET_NAME'),
+    accessKeyId: required('R2_ACCESS_KEY_ID'),
+    secretAccessKey: required('R2_SECRET_ACCESS_KEY'),
+    forcePathStyle: false,
+  };
+}
+
+function createProvider(type: string): StorageProvider {
+  switch (type) {
+    case 'local':
+      return createLocalProvider(process.env.STORAGE_PATH || path.join(__dirname, '../../../uploads'));
+    case 's3':
+      return createS3Provider(s3Config());
+    case 'r2':
+      return createS3Provider(r2Config());
+    case 'memory':
+      return createMemoryProvider();
+    default:
+      throw new Error(`Unknown storage type: ${type}`);
+  }
+}
+
+/** Where new files are written. */
+export function defaultStorageType(): string {
+  return process.env.STORAGE_TYPE || 'local';
+}
+
+/** The provider for a storage type, created on first use. */
+export function getStorageProvider(type = defaultStorageType()): StorageProvider {
+  let provider = providers.get(type);
+  if (!provider) {
+    provider = createProvider(type);
+    providers.set(type, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,139 @@
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream, mkdirSync, type Dirent } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import type { StorageProvider, StoredObject, UploadedPart } from './provider.js';
+import { signStorageUrl } from './signedUrls.js';
+
+// Multipart parts wait here, outside any key prefix, until completed
+const MULTIPART_DIR = '.multipart';
+const LOCAL_PART_SIZE = 1024 * 1024;
+
+/** Files under basePath; keys are relative paths. */
+export function createLocalProvider(basePath: string): StorageProvider {
+  const root = path.resolve(basePath);
+  mkdirSync(root, { recursive: true });
+
+  /** Prevent path traversal by ensuring resolved path stays within base. */
+  const safePath = (key: string): string => {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage path');
+    }
+    return resolved;
+  };
+
+  const partsDir = (uploadId: string) => safePath(path.join(MULTIPART_DIR, path.basename(uploadId)));
+
+  // Write to a staging file and rename, so readers never see half a file
+  const writeFile = async (key: string, write: (staging: string) => Promise<void>) => {
+    const fullPath = safePath(key);
+    const staging = `${fullPath}.partial`;
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    try {
+      await write(staging);
+      await fs.rename(staging, fullPath);
+    } catch (error) {
+      await fs.unlink(staging).catch(() => {});
+      throw error;
+    }
+    return fs.stat(fullPath);
+  };
+
+  async function* walk(dir: string): AsyncGenerator<StoredObject> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (fullPath !== path.join(root, MULTIPART_DIR)) yield* walk(fullPath);
+      } else if (!entry.name.endsWith('.partial')) {
+        const stats = await fs.stat(fullPath);
+        const key = path.relative(root, fullPath).split(path.sep).join('/');
+        yield { key, size: stats.size, lastModified: stats.mtime };
+      }
+    }
+  }
+
+  return {
+    partSize: LOCAL_PART_SIZE,
+
+    async put(key: string, body: Readable) {
+      const stats = await writeFile(key, (staging) => pipeline(body, createWriteStream(staging)));
+      return { size: stats.size };
+    },
+
+    async get(key, range) {
+      const fullPath = safePath(key);
+      // Fail here rather than on the stream's first read
+      await fs.access(fullPath);
+      return createReadStream(fullPath, range);
+    },
+
+    async head(key) {
+      try {
+        const stats = await fs.stat(safePath(key));
+        return { key, size: stats.size, lastModified: stats.mtime };
+      } catch {
+        return null;
+      }
+    },
+
+    async delete(key) {
+      await fs.unlink(safePath(key)).catch(() => {});
+    },
+
+    async *list(prefix) {
+      // Walk only the directory the prefix points into
+      const dir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+      for await (const object of walk(dir ? safePath(dir) : root)) {
+        if (object.key.startsWith(prefix)) yield object;
+      }
+    },
+
+    // Served back by /api/files, which checks the signature
+    async signedUrl(key, expiresIn) {
+      safePath(key);
+      return signStorageUrl(key, expiresIn);
+    },
+
+    async createMultipart() {
+      const uploadId = randomUUID();
+      await fs.mkdir(partsDir(uploadId), { recursive: true });
+      return uploadId;
+    },
+
+    async uploadPart(_key, uploadId, partNumber, body): Promise<UploadedPart> {
+      await fs.writeFile(path.join(partsDir(uploadId), String(partNumber)), body);
+      return { partNumber, etag: createHash('md5').update(body).digest('hex') };
+    },
+
+    async completeMultipart(key, uploadId, parts) {
+      const dir = partsDir(uploadId);
+      const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+
+      await writeFile(key, async (staging) => {
+        const out = createWriteStream(staging);
+        for (const part of ordered) {
+          await pipeline(createReadStream(path.join(dir, String(part.partNumber))), out, { end: false });
+        }
+        out.end();
+        await new Promise<void>((resolve, reject) => {
+          out.on('finish', resolve);
+          out.on('error', reject);
+        });
+      });
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+
+    async abortMultipart(_key, uploadId) {
+      await fs.rm(partsDir(uploadId), { recursive: true, force: true });
+    },
+  };
+}
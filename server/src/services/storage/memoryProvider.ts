@@ -0,0 +1,94 @@
+import { Readable } from 'stream';
+import { randomUUID } from 'crypto';
+import type { StorageProvider, UploadedPart } from './provider.js';
+
+interface MemoryObject {
+  data: Buffer;
+  lastModified: Date;
+}
+
+/** Objects in a Map, for tests and throwaway development servers. */
+export function createMemoryProvider(): StorageProvider {
+  const objects = new Map<string, MemoryObject>();
+  const uploads = new Map<string, Map<number, Buffer>>();
+
+  const find = (key: string): MemoryObject => {
+    const object = objects.get(key);
+    if (!object) throw new Error(`No object stored at ${key}`);
+    return object;
+  };
+
+  const openUpload = (uploadId: string) => {
+    const parts = uploads.get(uploadId);
+    if (!parts) throw new Error(`No multipart upload ${uploadId}`);
+    return parts;
+  };
+
+  return {
+    partSize: 1024 * 1024,
+
+    async put(key, body) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of body) chunks.push(chunk);
+      const data = Buffer.concat(chunks);
+      objects.set(key, { data, lastModified: new Date() });
+      return { size: data.length };
+    },
+
+    async get(key, range) {
+      const { data } = find(key);
+      return Readable.from([range ? data.subarray(range.start, range.end + 1) : data]);
+    },
+
+    async head(key) {
+      const object = objects.get(key);
+      return object ? { key, size: object.data.length, lastModified: object.lastModified } : null;
+    },
+
+    async delete(key) {
+      objects.delete(key);
+    },
+
+    async *list(prefix) {
+      for (const [key, object] of objects) {
+        if (key.startsWith(prefix)) {
+          yield { key, size: object.data.length, lastModified: object.lastModified };
+        }
+      }
+    },
+
+    async signedUrl() {
+      return null;
+    },
+
+    async createMultipart() {
+      const uploadId = randomUUID();
+      uploads.set(uploadId, new Map());
+      return uploadId;
+    },
+
+    async uploadPart(_key, uploadId, partNumber, body): Promise<UploadedPart> {
+      openUpload(uploadId).set(partNumber, Buffer.from(body));
+      return { partNumber, etag: String(partNumber) };
+    },
+
+    async completeMultipart(key, uploadId, parts) {
+      const stored = openUpload(uploadId);
+      const data = Buffer.concat(
+        [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => {
+            const body = stored.get(part.partNumber);
+            if (!body) throw new Error(`Part ${part.partNumber} was never uploaded`);
+            return body;
+          })
+      );
+      objects.set(key, { data, lastModified: new Date() });
+      uploads.delete(uploadId);
+    },
+
+    async abortMultipart(_key, uploadId) {
+      uploads.delete(uploadId);
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import type { Readable } from 'stream';
+
+/**
+ * A place to keep files. Every stored row records the provider's type next
+ * to its key, so files stay readable after the default backend changes.
+ */
+export interface StorageProvider {
+  /** Store a stream under key, replacing anything there. */
+  put(key: string, body: Readable, contentType: string): Promise<{ size: number }>;
+  /** Read the object, or just the inclusive byte range given. */
+  get(key: string, range?: ByteRange): Promise<Readable>;
+  /** Size and modification time, or null if nothing is stored under key. */
+  head(key: string): Promise<StoredObject | null>;
+  /** Remove the object; a missing key is not an error. */
+  delete(key: string): Promise<void>;
+  /** Every object whose key starts with prefix. */
+  list(prefix: string): AsyncIterable<StoredObject>;
+  /** A URL clients can download from directly, or null if the backend can't issue one. */
+  signedUrl(key: string, expiresIn: number): Promise<string | null>;
+
+  /** Size of every multipart part except the last */
+  readonly partSize: number;
+  createMultipart(key: string, contentType: string): Promise<string>;
+  /** Parts are numbered from 1 and may arrive in any order. */
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<UploadedPart>;
+  completeMultipart(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abortMultipart(key: string, uploadId: string): Promise<void>;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+/** Inclusive, like an HTTP Range */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
@@ -0,0 +1,188 @@
+import type { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { StorageProvider, UploadedPart } from './provider.js';
+
+export interface S3ProviderConfig {
+  /** Omit for AWS itself; set for R2, MinIO, Backblaze and friends */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** bucket-in-path URLs, which MinIO and most self-hosted stores need */
+  forcePathStyle: boolean;
+}
+
+// S3's floor for every part but the last
+const S3_MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/** Any S3-compatible bucket. */
+export function createS3Provider(config: S3ProviderConfig): StorageProvider {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+  });
+  const Bucket = config.bucket;
+
+  const createMultipart = async (key: string, contentType: string): Promise<string> => {
+    const result = await client.send(
+      new CreateMultipartUploadCommand({ Bucket, Key: key, ContentType: contentType })
+    );
+    if (!result.UploadId) throw new Error('S3 did not return an upload id');
+    return result.UploadId;
+  };
+
+  const uploadPart = async (
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer
+  ): Promise<UploadedPart> => {
+    const result = await client.send(
+      new UploadPartCommand({ Bucket, Key: key, UploadId: uploadId, PartNumber: partNumber, Body: body })
+    );
+    if (!result.ETag) throw new Error('S3 did not return a part ETag');
+    return { partNumber, etag: result.ETag };
+  };
+
+  const completeMultipart = async (key: string, uploadId: string, parts: UploadedPart[]) => {
+    await client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      })
+    );
+  };
+
+  const abortMultipart = async (key: string, uploadId: string) => {
+    await client.send(new AbortMultipartUploadCommand({ Bucket, Key: key, UploadId: uploadId }));
+  };
+
+  return {
+    partSize: S3_MIN_PART_SIZE,
+    createMultipart,
+    uploadPart,
+    completeMultipart,
+    abortMultipart,
+
+    /**
+     * A stream of unknown length can't go up in one PutObject, so it is cut
+     * into parts as it arrives, holding one part in memory at a time. Files
+     * smaller than a part still go up in a single request.
+     */
+    async put(key, body, contentType) {
+      let pending: Buffer[] = [];
+      let pendingBytes = 0;
+      let size = 0;
+      let uploadId: string | null = null;
+      const parts: UploadedPart[] = [];
+
+      const flushPart = async () => {
+        uploadId ??= await createMultipart(key, contentType);
+        parts.push(await uploadPart(key, uploadId, parts.length + 1, Buffer.concat(pending)));
+        pending = [];
+        pendingBytes = 0;
+      };
+
+      try {
+        for await (const chunk of body as AsyncIterable<Buffer>) {
+          pending.push(chunk);
+          pendingBytes += chunk.length;
+          size += chunk.length;
+          if (pendingBytes >= S3_MIN_PART_SIZE) await flushPart();
+        }
+
+        if (!uploadId) {
+          await client.send(
+            new PutObjectCommand({ Bucket, Key: key, Body: Buffer.concat(pending), ContentType: contentType })
+          );
+          return { size };
+        }
+
+        if (pendingBytes > 0) await flushPart();
+        await completeMultipart(key, uploadId, parts);
+        return { size };
+      } catch (error) {
+        if (uploadId) await abortMultipart(key, uploadId).catch(() => {});
+        throw error;
+      }
+    },
+
+    async get(key, range) {
+      const result = await client.send(
+        new GetObjectCommand({
+          Bucket,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        })
+      );
+      if (!result.Body) throw new Error(`S3 returned no body for ${key}`);
+      return result.Body as Readable;
+    },
+
+    async head(key) {
+      try {
+        const result = await client.send(new HeadObjectCommand({ Bucket, Key: key }));
+        return {
+          key,
+          size: result.ContentLength ?? 0,
+          lastModified: result.LastModified ?? new Date(0),
+        };
+      } catch (error) {
+        if ((error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: key }));
+    },
+
+    async *list(prefix) {
+      let ContinuationToken: string | undefined;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({ Bucket, Prefix: prefix, ContinuationToken })
+        );
+        for (const object of page.Contents ?? []) {
+          if (!object.Key) continue;
+          yield {
+            key: object.Key,
+            size: object.Size ?? 0,
+            lastModified: object.LastModified ?? new Date(0),
+          };
+        }
+        ContinuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (ContinuationToken);
+    },
+
+    async signedUrl(key, expiresIn) {
+      return getSignedUrl(client, new GetObjectCommand({ Bucket, Key: key }), { expiresIn });
+    },
+  };
+}
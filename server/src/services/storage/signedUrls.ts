@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+
+/**
+ * Expiring links to locally stored files, the local stand-in for S3/R2
+ * presigned URLs. A link grants GET/HEAD on exactly one key until it
+ * expires; there is no session behind it.
+ *
+ * Set STORAGE_URL_SECRET when more than one server instance serves files.
+ * Without it each process signs with its own random key, and its links stop
+ * working after a restart.
+ */
+
+const SIGNED_FILES_PATH = '/api/files';
+
+const secret = process.env.STORAGE_URL_SECRET || crypto.randomBytes(32).toString('hex');
+
+function signature(key: string, expires: number): Buffer {
+  return crypto.createHmac('sha256', secret).update(`${expires}:${key}`).digest();
+}
+
+/** A same-origin URL for key, valid for expiresIn seconds. */
+export function signStorageUrl(key: string, expiresIn: number): string {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  const sig = signature(key, expires).toString('base64url');
+  return `${SIGNED_FILES_PATH}/${encodedKey}?expires=${expires}&signature=${sig}`;
+}
+
+/** True if the signature was issued for this key and hasn't expired. */
+export function verifyStorageUrl(key: string, expires: string, sig: string): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) return false;
+
+  const expected = signature(key, expiresAt);
+  const provided = Buffer.from(sig, 'base64url');
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
@@ -16,6 +16,8 @@ export default defineConfig({
       FRONTEND_URL: 'https://app.test',
       CLERK_PUBLISHABLE_KEY: 'pk_test_dGVzdC5jbGVyay5hY2NvdW50cy5kZXYk',
       CLERK_SECRET_KEY: 'sk_test_dummy',
+      // Uploads that aren't mocked land in memory, not server/uploads
+      STORAGE_TYPE: 'memory',
     },
   },
 });
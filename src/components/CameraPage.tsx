@@ -18,6 +18,21 @@ import {
 import { cameraRoomOptions } from '../lib/livekit';
 import { useDetection } from '../hooks/useDetection';
 import { useClipSync } from '../hooks/useClipSync';
+import { useCameraHealth } from '../hooks/useCameraHealth';
+import { useDeviceHeartbeat } from '../hooks/useDeviceHeartbeat';
+import { useContinuousRecording } from '../hooks/useContinuousRecording';
+import type { RecordedSegment } from '../services/segmentRecorder';
+import {
+  registerCameraRpc,
+  captureFrame,
+  applyTorch,
+  CameraRpcError,
+  CAMERA_RPC_ERROR,
+  RESOLUTION_PRESETS,
+  type FacingMode,
+  type ResolutionPreset,
+} from '../lib/cameraRpc';
+import type { ArmingMode } from '../services/armSchedule';
 
 // Type for Wake Lock API (using built-in types if available)
 type WakeLockSentinelType = WakeLockSentinel;
@@ -28,6 +43,7 @@ interface CameraSession {
   roomId: string;
   deviceId: string;
   deviceName: string;
+  armingMode?: ArmingMode;
 }
 
 export function CameraPage() {
@@ -69,6 +85,14 @@ export function CameraPage() {
     }
   }, []);
 
+  // Device was removed from the account or room — credentials are dead
+  const requirePairing = useCallback(() => {
+    clearDeviceCredentials();
+    setSession(null);
+    setNeedsPairing(true);
+    setError('This camera is no longer paired. Add it again from the viewer.');
+  }, []);
+
   // Reconnect a previously paired device with a fresh token
   const reconnect = useCallback(async () => {
     setError(null);
@@ -80,19 +104,16 @@ export function CameraPage() {
         roomId: response.roomId,
         deviceId: response.deviceId!,
         deviceName: response.deviceName,
+        armingMode: response.armingMode,
       });
     } catch (err) {
-      if (err instanceof ApiError && err.status === 401) {
-        // Device was removed from the account — credentials are dead
-        clearDeviceCredentials();
-        setSession(null);
-        setNeedsPairing(true);
-        setError('This camera is no longer paired. Add it again from the viewer.');
+      if (err instanceof ApiError && (err.status === 401 || err.repairRequired)) {
+        requirePairing();
       } else {
         setError(err instanceof Error ? err.message : 'Connection failed');
       }
     }
-  }, []);
+  }, [requirePairing]);
 
   useEffect(() => {
     if (startedRef.current) return;
@@ -186,7 +207,12 @@ export function CameraPage() {
         options={cameraRoomOptions}
         onDisconnected={reconnect}
       >
-        <CameraInterface roomId={session.roomId} deviceId={session.deviceId} />
+        <CameraInterface
+          roomId={session.roomId}
+          deviceId={session.deviceId}
+          armingMode={session.armingMode}
+          onRepairRequired={requirePairing}
+        />
       </LiveKitRoom>
     </div>
   );
@@ -195,19 +221,26 @@ export function CameraPage() {
 interface CameraInterfaceProps {
   roomId: string;
   deviceId: string;
+  armingMode?: ArmingMode;
+  onRepairRequired: () => void;
 }
 
-function CameraInterface({ roomId, deviceId }: CameraInterfaceProps) {
+function CameraInterface({
+  roomId,
+  deviceId,
+  armingMode,
+  onRepairRequired,
+}: CameraInterfaceProps) {
   const room = useRoomContext();
   const { localParticipant } = useLocalParticipant();
   const [connectionState, setConnectionState] = useState<ConnectionState>(
     ConnectionState.Connecting
   );
   const isConnected = connectionState === ConnectionState.Connected;
-  const [facingMode, setFacingMode] = useState<'user' | 'environment'>(
-    'environment'
-  );
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
   const [isSwitching, setIsSwitching] = useState(false);
+  // Set remotely by a viewer; null = LiveKit's default capture size
+  const [resolution, setResolution] = useState<ResolutionPreset | null>(null);
 
   // Sleep mode state
   const [isSleeping, setIsSleeping] = useState(false);
@@ -271,6 +304,16 @@ function CameraInterface({ roomId, deviceId }: CameraInterfaceProps) {
     enabled: isConnected,
   });
 
+  const health = useCameraHealth({
+    room,
+    enabled: isConnected,
+    syncQueue: clipSync.stats.pending + clipSync.stats.uploading + clipSync.stats.failed,
+  });
+
+  // Keeps the camera online server-side even with no viewers, and catches
+  // arming or settings changes pushed while the data channel was down
+  const directives = useDeviceHeartbeat({ deviceId, health, onRepairRequired });
+
   // Handle clip captured for sync - use refs to avoid recreating callback
   const clipSyncRef = useRef(clipSync);
   clipSyncRef.current = clipSync;
@@ -283,6 +326,8 @@ function CameraInterface({ roomId, deviceId }: CameraInterfaceProps) {
       confidence: number;
       deviceId: string;
       videoBlob: Blob;
+      videoParts?: Blob[];
+      eventIds?: string[];
     }) => {
       if (clipSyncRef.current.isInitialized) {
         clipSyncRef.current.queueClip(clip);
@@ -301,9 +346,30 @@ function CameraInterface({ roomId, deviceId }: CameraInterfaceProps) {
     audioStream,
     videoStream,
     enabled: detectionEnabled && isConnected && !isSleeping,
+    armingMode: directives?.armingMode ?? armingMode,
+    settingsVersion: directives?.settingsVersion,
     onClipCaptured: handleClipCaptured,
   });
 
+  const handleSegment = useCallback(
+    (segment: RecordedSegment) => {
+      const id = `seg-${segment.startedAt}-${Math.random().toString(36).slice(2, 8)}`;
+      clipSyncRef.current.queueSegment({ ...segment, id, deviceId }).catch((err) => {
+        console.error('[Camera] Failed to queue recording segment:', err);
+      });
+    },
+    [deviceId]
+  );
+
+  // 24/7 recording when the room has it on; keeps going in sleep mode and
+  // through brief disconnects, with segments waiting in the sync queue
+  const isRecording = useContinuousRecording({
+    enabled: !!directives?.continuousRecording && clipSync.isInitialized,
+    videoStream,
+    audioStream,
+    onSegment: handleSegment,
+  });
+
   // Flash effect when event detected
   useEffect(() => {
     if (detection.lastMotionEvent || detection.lastSoundEvent) {
@@ -461,26 +527,97 @@ function CameraInterface({ roomId, deviceId }: CameraInterfaceProps) {
     };
   }, []);
 
-  const toggleCamera = useCallback(async () => {
-    if (isSwitching) return;
-
-    const newFacing = facingMode === 'user' ? 'environment' : 'user';
-    setIsSwitching(true);
+  const switchCamera = useCallback(
+    async (newFacing: FacingMode) => {
+      if (!localParticipant) return;
+      setIsSwitching(true);
 
-    try {
-      if (localParticipant) {
+      try {
         await localParticipant.setCameraEnabled(false);
         await localParticipant.setCameraEnabled(true, {
           facingMode: newFacing,
+          resolution: resolution ? RESOLUTION_PRESETS[resolution] : undefined,
         });
         setFacingMode(newFacing);
+      } finally {
+        setIsSwitching(false);
       }
+    },
+    [localParticipant, resolution]
+  );
+
+  const toggleCamera = useCallback(async () => {
+    if (isSwitching) return;
+
+    try {
+      await switchCamera(facingMode === 'user' ? 'environment' : 'user');
     } catch (err) {
       console.error('Failed to switch camera:', err);
-    } finally {
-      setIsSwitching(false);
     }
-  }, [localParticipant, facingMode, isSwitching]);
+  }, [switchCamera, facingMode, isSwitching]);
+
+  // Remote control from viewers (see lib/cameraRpc.ts)
+  useEffect(() => {
+    const cameraTrack = () => {
+      const track = localParticipant?.getTrackPublication(Track.Source.Camera)?.videoTrack;
+      if (!track) {
+        throw new CameraRpcError(CAMERA_RPC_ERROR.FAILED, 'Camera is not publishing video');
+      }
+      return track;
+    };
+
+    return registerCameraRpc(room, {
+      switchCamera: async ({ facingMode: target }) => {
+        if (isSwitching) {
+          throw new CameraRpcError(CAMERA_RPC_ERROR.FAILED, 'Camera is already switching');
+        }
+        const next = target ?? (facingMode === 'user' ? 'environment' : 'user');
+        if (next !== facingMode) await switchCamera(next);
+        return { facingMode: next };
+      },
+
+      setSleep: async ({ sleeping }) => {
+        await (sleeping ? enterSleepMode() : exitSleepMode());
+        return { sleeping };
+      },
+
+      setResolution: async ({ preset }) => {
+        const size = RESOLUTION_PRESETS[preset];
+        if (!size) {
+          throw new CameraRpcError(CAMERA_RPC_ERROR.INVALID_PARAMS, `Unknown resolution: ${preset}`);
+        }
+        const track = cameraTrack();
+        await track.restartTrack({ facingMode, resolution: size });
+        setResolution(preset);
+
+        // The camera may not support the exact size; report what it picked
+        const actual = track.mediaStreamTrack.getSettings();
+        return { preset, width: actual.width ?? size.width, height: actual.height ?? size.height };
+      },
+
+      setTorch: async ({ on }) => {
+        if (!(await applyTorch(cameraTrack().mediaStreamTrack, on))) {
+          throw new CameraRpcError(CAMERA_RPC_ERROR.NOT_SUPPORTED, 'This camera has no torch');
+        }
+        return { on };
+      },
+
+      captureSnapshot: async () => {
+        const video = videoElementRef.current;
+        const frame = video && captureFrame(video);
+        if (!frame) {
+          throw new CameraRpcError(CAMERA_RPC_ERROR.FAILED, 'No video frame available');
+        }
+        return frame;
+      },
+
+      reload: async () => {
+        // Let the response reach the viewer before the page goes away
+        setTimeout(() => window.location.reload(), 500);
+        return { reloading: true };
+      },
+    });
+  }, [room, localParticipant, facingMode, isSwitching, switchCamera, enterSleepMode, exitSleepMode]);
 
   const toggleMute = useCallback(async () => {
     if (localParticipant) {
@@ -602,12 +739,25 @@ function CameraInterface({ roomId, deviceId }: CameraInterfaceProps) {
         </span>
       </div>
 
+      {isRecording && (
+        <div className="recording-indicator" title="Continuous recording is on">
+          <span className="recording-dot" />
+          <span>REC</span>
+        </div>
+      )}
+
       {/* Detection status indicator */}
       {detectionEnabled && detection.isActive && (
         <div className="detection-status">
           <div className="detection-status-header">
             <span className="detection-icon">👁️</span>
-            <span>Detection Active</span>
+            <span>
+              {detection.armingMode === 'off'
+                ? 'Arming Off'
+                : detection.armingMode === 'home'
+                  ? 'Detection Active (Home)'
+                  : 'Detection Active'}
+            </span>
           </div>
           <div className="detection-levels">
             <div className="level-bar">
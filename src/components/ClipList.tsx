@@ -159,9 +159,13 @@ export function ClipList({ roomId, onPlayClip }: ClipListProps) {
               onClick={() => onPlayClip(clip)}
             >
               <div className="clip-thumbnail">
-                <span className="clip-type-icon">
-                  {clip.detectionType === 'motion' ? '🏃' : '🔊'}
-                </span>
+                {clip.thumbnailUrl ? (
+                  <img src={clip.thumbnailUrl} alt="" loading="lazy" />
+                ) : (
+                  <span className="clip-type-icon">
+                    {clip.detectionType === 'motion' ? '🏃' : '🔊'}
+                  </span>
+                )}
               </div>
               <div className="clip-info">
                 <div className="clip-title">
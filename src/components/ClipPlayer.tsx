@@ -5,11 +5,12 @@ import { api, type Clip } from '../lib/api';
 const urlCache = new Map<string, { url: string; expiresAt: number }>();
 const URL_CACHE_TTL = 50 * 60 * 1000; // 50 minutes (presigned URLs expire in 60)
 
-async function getCachedPlaybackUrl(clipId: string): Promise<string> {
-  const cached = urlCache.get(clipId);
+async function getCachedPlaybackUrl(clipId: string, part: number): Promise<string> {
+  const key = `${clipId}:${part}`;
+  const cached = urlCache.get(key);
   if (cached && Date.now() < cached.expiresAt) return cached.url;
-  const url = await api.getClipPlaybackUrl(clipId);
-  urlCache.set(clipId, { url, expiresAt: Date.now() + URL_CACHE_TTL });
+  const url = await api.getClipPlaybackUrl(clipId, part);
+  urlCache.set(key, { url, expiresAt: Date.now() + URL_CACHE_TTL });
   return url;
 }
 
@@ -24,20 +25,32 @@ export function ClipPlayer({ clip, onClose }: ClipPlayerProps) {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Long clips play their parts back to back; part 0 is the clip's own file
+  const parts = [0, ...(clip.parts ?? []).map((p) => p.index)];
+  const [playing, setPlaying] = useState({ clipId: clip.id, position: 0 });
+  const position = playing.clipId === clip.id ? playing.position : 0;
+  const part = parts[position] ?? 0;
+
   // Fetch playback URL (presigned R2 URL or local streaming URL)
   useEffect(() => {
     let cancelled = false;
     setVideoUrl(null);
     setError(null);
 
-    getCachedPlaybackUrl(clip.id).then((url) => {
+    getCachedPlaybackUrl(clip.id, part).then((url) => {
       if (!cancelled) setVideoUrl(url);
     }).catch((err) => {
       if (!cancelled) setError(err.message || 'Failed to load clip');
     });
 
     return () => { cancelled = true; };
-  }, [clip.id]);
+  }, [clip.id, part]);
+
+  const handleEnded = () => {
+    if (position + 1 < parts.length) {
+      setPlaying({ clipId: clip.id, position: position + 1 });
+    }
+  };
 
   // Auto-play when URL is ready
   useEffect(() => {
@@ -60,7 +73,7 @@ export function ClipPlayer({ clip, onClose }: ClipPlayerProps) {
   };
 
   const handleDownload = async () => {
-    const url = videoUrl || await api.getClipPlaybackUrl(clip.id);
+    const url = videoUrl || await api.getClipPlaybackUrl(clip.id, part);
     const link = document.createElement('a');
     link.href = url;
     link.download = clip.filename || `clip-${clip.id}.webm`;
@@ -108,6 +121,7 @@ export function ClipPlayer({ clip, onClose }: ClipPlayerProps) {
               controls
               autoPlay
               playsInline
+              onEnded={handleEnded}
             />
           )}
         </div>
@@ -122,6 +136,12 @@ export function ClipPlayer({ clip, onClose }: ClipPlayerProps) {
               <span className="meta-label">Duration</span>
               <span className="meta-value">{formatDuration(clip.duration)}</span>
             </div>
+            {parts.length > 1 && (
+              <div className="clip-meta-item">
+                <span className="meta-label">Part</span>
+                <span className="meta-value">{position + 1} of {parts.length}</span>
+              </div>
+            )}
             <div className="clip-meta-item">
               <span className="meta-label">Confidence</span>
               <span className="meta-value">{Math.round(clip.confidence * 100)}%</span>
@@ -1,6 +1,9 @@
 import { useState, useCallback, useEffect } from 'react';
-import { Room, RoomEvent, DataPacket_Kind } from 'livekit-client';
+import type { Room } from 'livekit-client';
+import { api } from '../lib/api';
+import { onMessage, sendRequest } from '../lib/protocol';
 import { usePushNotifications } from '../hooks/usePushNotifications';
+import { SOUND_CLASSES, SOUND_CLASS_LABELS, type SoundClass } from '../services/soundClassifier';
 
 export interface DetectionSettingsData {
   motionEnabled: boolean;
@@ -8,12 +11,27 @@ export interface DetectionSettingsData {
   motionSensitivity: number;
   soundSensitivity: number;
   cooldownSeconds: number;
+  maxClipSeconds: number;
+  motionMode: 'diff' | 'background';
+  backgroundAdaptation: number;
+  suppressLightingChanges: boolean;
+  soundClasses: SoundClass[];
+  adaptiveNoiseFloor: boolean;
+  soundLowCutHz: number;
+  soundHighCutHz: number;
+}
+
+/** A connected camera whose settings can be edited */
+export interface SettingsCamera {
+  identity: string;
+  deviceId: string;
+  name: string;
 }
 
 interface DetectionSettingsProps {
   room: Room | null;
-  initialSettings?: Partial<DetectionSettingsData>;
-  onSettingsChange?: (settings: DetectionSettingsData) => void;
+  cameras: SettingsCamera[];
+  onSettingsChange?: (deviceId: string, settings: DetectionSettingsData) => void;
 }
 
 const defaultSettings: DetectionSettingsData = {
@@ -22,81 +40,89 @@ const defaultSettings: DetectionSettingsData = {
   motionSensitivity: 0.5,
   soundSensitivity: 0.5,
   cooldownSeconds: 30,
+  maxClipSeconds: 120,
+  motionMode: 'diff',
+  backgroundAdaptation: 0.5,
+  suppressLightingChanges: true,
+  soundClasses: [...SOUND_CLASSES],
+  adaptiveNoiseFloor: true,
+  soundLowCutHz: 0,
+  soundHighCutHz: 0,
 };
 
 export function DetectionSettings({
   room,
-  initialSettings,
+  cameras,
   onSettingsChange,
 }: DetectionSettingsProps) {
-  const [settings, setSettings] = useState<DetectionSettingsData>({
-    ...defaultSettings,
-    ...initialSettings,
-  });
+  const [settings, setSettings] = useState<DetectionSettingsData>(defaultSettings);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedIdentity, setSelectedIdentity] = useState<string | null>(null);
+  // Device whose stored settings are currently shown
+  const [loadedDeviceId, setLoadedDeviceId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Ambient level learned by the selected camera (RMS, 0-1)
+  const [noiseFloor, setNoiseFloor] = useState<{ identity: string; rms: number } | null>(null);
 
   const push = usePushNotifications();
 
-  // Listen for settings from camera
+  // Fall back to the first camera when the selected one leaves
+  const camera =
+    cameras.find((c) => c.identity === selectedIdentity) ?? cameras[0] ?? null;
+  const deviceId = camera?.deviceId ?? null;
+  const cameraIdentity = camera?.identity ?? null;
+  const isLoading = deviceId !== null && loadedDeviceId !== deviceId;
+
+  // Settings are stored per camera on the server
   useEffect(() => {
-    if (!room) return;
+    if (!deviceId) return;
+    let cancelled = false;
 
-    const handleData = (
-      payload: Uint8Array,
-      participant: { identity: string } | undefined,
-      _kind?: DataPacket_Kind,
-      topic?: string
-    ) => {
-      if (topic !== 'detection') return;
-      if (!participant?.identity.startsWith('cam_')) return;
+    api
+      .getDeviceSettings(deviceId)
+      .then(({ settings: stored }) => {
+        if (cancelled) return;
+        setSettings({ ...defaultSettings, ...stored });
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('[DetectionSettings] Failed to load settings:', err);
+        if (!cancelled) setError('Failed to load camera settings');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedDeviceId(deviceId);
+      });
 
-      try {
-        const decoder = new TextDecoder();
-        const message = decoder.decode(payload);
-        const data = JSON.parse(message);
-
-        if (data.messageType === 'settings') {
-          setSettings((prev) => ({
-            ...prev,
-            motionEnabled: data.motionEnabled ?? prev.motionEnabled,
-            soundEnabled: data.soundEnabled ?? prev.soundEnabled,
-            motionSensitivity: data.motionSensitivity ?? prev.motionSensitivity,
-            soundSensitivity: data.soundSensitivity ?? prev.soundSensitivity,
-            cooldownSeconds: data.cooldownSeconds ?? prev.cooldownSeconds,
-          }));
-        }
-      } catch (err) {
-        console.error('[DetectionSettings] Failed to parse settings:', err);
-      }
+    return () => {
+      cancelled = true;
     };
+  }, [deviceId]);
 
-    room.on(RoomEvent.DataReceived, handleData);
+  // Cameras report their noise floor and the settings they run with
+  useEffect(() => {
+    if (!room) return;
 
-    return () => {
-      room.off(RoomEvent.DataReceived, handleData);
-    };
-  }, [room]);
+    return onMessage(room, (message, sender) => {
+      if (!sender?.identity.startsWith('cam_')) return;
 
-  // Send settings to camera
+      if (message.type === 'noise_floor') {
+        setNoiseFloor({ identity: sender.identity, rms: message.noiseFloor });
+      } else if (message.type === 'detection_settings' && sender.identity === cameraIdentity) {
+        setSettings((prev) => ({ ...prev, ...message.settings }));
+      }
+    });
+  }, [room, cameraIdentity]);
+
+  // Let the camera apply saved settings without waiting for a restart
   const sendSettings = useCallback(
-    async (newSettings: DetectionSettingsData) => {
+    async (identity: string, newSettings: DetectionSettingsData) => {
       if (!room) return;
 
-      const message = JSON.stringify({
-        messageType: 'settings',
-        ...newSettings,
-      });
-
-      const encoder = new TextEncoder();
-      const data = encoder.encode(message);
-
       try {
-        await room.localParticipant.publishData(data, {
-          reliable: true,
-          topic: 'detection',
-        });
-        console.log('[DetectionSettings] Settings sent to camera');
+        await sendRequest(room, { type: 'detection_settings', settings: newSettings }, identity);
+        console.log('[DetectionSettings] Settings applied by camera');
       } catch (err) {
+        // The camera loads the stored settings on its next start
         console.error('[DetectionSettings] Failed to send settings:', err);
       }
     },
@@ -104,21 +130,54 @@ export function DetectionSettings({
   );
 
   const updateSetting = useCallback(
-    <K extends keyof DetectionSettingsData>(key: K, value: DetectionSettingsData[K]) => {
-      const newSettings = { ...settings, [key]: value };
-      setSettings(newSettings);
-      sendSettings(newSettings);
-      onSettingsChange?.(newSettings);
+    async <K extends keyof DetectionSettingsData>(key: K, value: DetectionSettingsData[K]) => {
+      if (!camera) return;
+      const previous = settings;
+      setSettings({ ...settings, [key]: value });
+      setError(null);
+
+      try {
+        const { settings: saved } = await api.updateDeviceSettings(camera.deviceId, {
+          [key]: value,
+        });
+        setSettings(saved);
+        sendSettings(camera.identity, saved);
+        onSettingsChange?.(camera.deviceId, saved);
+      } catch (err) {
+        console.error('[DetectionSettings] Failed to save settings:', err);
+        setSettings(previous);
+        setError('Failed to save settings');
+      }
     },
-    [settings, sendSettings, onSettingsChange]
+    [camera, settings, sendSettings, onSettingsChange]
   );
 
+  const toggleSoundClass = (soundClass: SoundClass, enabled: boolean) => {
+    const selected = enabled
+      ? [...settings.soundClasses, soundClass]
+      : settings.soundClasses.filter((c) => c !== soundClass);
+    // Keep canonical order so the camera sees a stable list
+    updateSetting('soundClasses', SOUND_CLASSES.filter((c) => selected.includes(c)));
+  };
+
   const sensitivityLabel = (value: number) => {
     if (value < 0.3) return 'Low';
     if (value < 0.7) return 'Medium';
     return 'High';
   };
 
+  const noiseFloorLabel = (rms: number | null) => {
+    if (rms === null) return 'Waiting for camera…';
+    if (rms <= 0) return 'Silent';
+    return `${Math.round(20 * Math.log10(rms))} dBFS`;
+  };
+
+  const adaptationLabel = (value: number) => {
+    if (value < 0.3) return 'Slow';
+    if (value < 0.7) return 'Normal';
+    return 'Fast';
+  };
+
   return (
     <div className={`detection-settings ${isExpanded ? 'expanded' : ''}`}>
       <button
@@ -132,86 +191,247 @@ export function DetectionSettings({
 
       {isExpanded && (
         <div className="detection-settings-content">
-          {/* Motion Detection */}
-          <div className="setting-group">
-            <label className="setting-toggle">
-              <input
-                type="checkbox"
-                checked={settings.motionEnabled}
-                onChange={(e) => updateSetting('motionEnabled', e.target.checked)}
-              />
-              <span className="toggle-label">Motion Detection</span>
-            </label>
-
-            {settings.motionEnabled && (
-              <div className="setting-slider">
-                <span className="slider-label">Sensitivity</span>
-                <input
-                  type="range"
-                  min="0.1"
-                  max="1"
-                  step="0.1"
-                  value={settings.motionSensitivity}
-                  onChange={(e) =>
-                    updateSetting('motionSensitivity', parseFloat(e.target.value))
-                  }
-                />
-                <span className="slider-value">
-                  {sensitivityLabel(settings.motionSensitivity)}
-                </span>
+          {cameras.length > 1 && (
+            <div className="setting-group">
+              <div className="setting-select">
+                <span className="select-label">Camera</span>
+                <select
+                  value={camera?.identity}
+                  onChange={(e) => setSelectedIdentity(e.target.value)}
+                >
+                  {cameras.map((c) => (
+                    <option key={c.identity} value={c.identity}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
               </div>
-            )}
-          </div>
+            </div>
+          )}
 
-          {/* Sound Detection */}
-          <div className="setting-group">
-            <label className="setting-toggle">
-              <input
-                type="checkbox"
-                checked={settings.soundEnabled}
-                onChange={(e) => updateSetting('soundEnabled', e.target.checked)}
-              />
-              <span className="toggle-label">Sound Detection</span>
-            </label>
-
-            {settings.soundEnabled && (
-              <div className="setting-slider">
-                <span className="slider-label">Sensitivity</span>
-                <input
-                  type="range"
-                  min="0.1"
-                  max="1"
-                  step="0.1"
-                  value={settings.soundSensitivity}
-                  onChange={(e) =>
-                    updateSetting('soundSensitivity', parseFloat(e.target.value))
-                  }
-                />
-                <span className="slider-value">
-                  {sensitivityLabel(settings.soundSensitivity)}
-                </span>
-              </div>
-            )}
-          </div>
+          {error && <div className="notification-status error">{error}</div>}
 
-          {/* Cooldown */}
-          <div className="setting-group">
-            <div className="setting-select">
-              <span className="select-label">Event Cooldown</span>
-              <select
-                value={settings.cooldownSeconds}
-                onChange={(e) =>
-                  updateSetting('cooldownSeconds', parseInt(e.target.value))
-                }
-              >
-                <option value="10">10 seconds</option>
-                <option value="30">30 seconds</option>
-                <option value="60">1 minute</option>
-                <option value="120">2 minutes</option>
-                <option value="300">5 minutes</option>
-              </select>
+          {!camera ? (
+            <div className="notification-status disabled">
+              Connect a camera to change its detection settings
             </div>
-          </div>
+          ) : isLoading ? (
+            <div className="notification-status disabled">Loading camera settings…</div>
+          ) : (
+            <>
+              {/* Motion Detection */}
+              <div className="setting-group">
+                <label className="setting-toggle">
+                  <input
+                    type="checkbox"
+                    checked={settings.motionEnabled}
+                    onChange={(e) => updateSetting('motionEnabled', e.target.checked)}
+                  />
+                  <span className="toggle-label">Motion Detection</span>
+                </label>
+
+                {settings.motionEnabled && (
+                  <div className="setting-slider">
+                    <span className="slider-label">Sensitivity</span>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="1"
+                      step="0.1"
+                      value={settings.motionSensitivity}
+                      onChange={(e) =>
+                        updateSetting('motionSensitivity', parseFloat(e.target.value))
+                      }
+                    />
+                    <span className="slider-value">
+                      {sensitivityLabel(settings.motionSensitivity)}
+                    </span>
+                  </div>
+                )}
+
+                {settings.motionEnabled && (
+                  <div className="setting-select setting-select-sub">
+                    <span className="select-label">Method</span>
+                    <select
+                      value={settings.motionMode}
+                      onChange={(e) =>
+                        updateSetting('motionMode', e.target.value as DetectionSettingsData['motionMode'])
+                      }
+                    >
+                      <option value="diff">Frame difference</option>
+                      <option value="background">Background model</option>
+                    </select>
+                  </div>
+                )}
+
+                {settings.motionEnabled && settings.motionMode === 'background' && (
+                  <div className="setting-slider">
+                    <span className="slider-label">Adaptation</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.1"
+                      value={settings.backgroundAdaptation}
+                      onChange={(e) =>
+                        updateSetting('backgroundAdaptation', parseFloat(e.target.value))
+                      }
+                    />
+                    <span className="slider-value">
+                      {adaptationLabel(settings.backgroundAdaptation)}
+                    </span>
+                  </div>
+                )}
+
+                {settings.motionEnabled && settings.motionMode === 'background' && (
+                  <label className="setting-toggle setting-toggle-sub">
+                    <input
+                      type="checkbox"
+                      checked={settings.suppressLightingChanges}
+                      onChange={(e) => updateSetting('suppressLightingChanges', e.target.checked)}
+                    />
+                    <span className="toggle-label">Ignore lighting changes</span>
+                  </label>
+                )}
+              </div>
+
+              {/* Sound Detection */}
+              <div className="setting-group">
+                <label className="setting-toggle">
+                  <input
+                    type="checkbox"
+                    checked={settings.soundEnabled}
+                    onChange={(e) => updateSetting('soundEnabled', e.target.checked)}
+                  />
+                  <span className="toggle-label">Sound Detection</span>
+                </label>
+
+                {settings.soundEnabled && (
+                  <div className="setting-slider">
+                    <span className="slider-label">Sensitivity</span>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="1"
+                      step="0.1"
+                      value={settings.soundSensitivity}
+                      onChange={(e) =>
+                        updateSetting('soundSensitivity', parseFloat(e.target.value))
+                      }
+                    />
+                    <span className="slider-value">
+                      {sensitivityLabel(settings.soundSensitivity)}
+                    </span>
+                  </div>
+                )}
+
+                {settings.soundEnabled && (
+                  <label className="setting-toggle setting-toggle-sub">
+                    <input
+                      type="checkbox"
+                      checked={settings.adaptiveNoiseFloor}
+                      onChange={(e) => updateSetting('adaptiveNoiseFloor', e.target.checked)}
+                    />
+                    <span className="toggle-label">Adapt to background noise</span>
+                  </label>
+                )}
+
+                {settings.soundEnabled && settings.adaptiveNoiseFloor && (
+                  <div className="setting-readout setting-select-sub">
+                    <span className="select-label">Noise floor</span>
+                    <span className="slider-value">{noiseFloorLabel(
+                      noiseFloor && noiseFloor.identity === camera?.identity ? noiseFloor.rms : null
+                    )}</span>
+                  </div>
+                )}
+
+                {settings.soundEnabled && (
+                  <div className="setting-select setting-select-sub">
+                    <span className="select-label">Ignore below</span>
+                    <select
+                      value={settings.soundLowCutHz}
+                      onChange={(e) => updateSetting('soundLowCutHz', parseInt(e.target.value))}
+                    >
+                      <option value="0">Off</option>
+                      <option value="100">100 Hz</option>
+                      <option value="150">150 Hz</option>
+                      <option value="250">250 Hz</option>
+                      <option value="400">400 Hz</option>
+                    </select>
+                  </div>
+                )}
+
+                {settings.soundEnabled && (
+                  <div className="setting-select setting-select-sub">
+                    <span className="select-label">Ignore above</span>
+                    <select
+                      value={settings.soundHighCutHz}
+                      onChange={(e) => updateSetting('soundHighCutHz', parseInt(e.target.value))}
+                    >
+                      <option value="0">Off</option>
+                      <option value="4000">4 kHz</option>
+                      <option value="6000">6 kHz</option>
+                      <option value="8000">8 kHz</option>
+                    </select>
+                  </div>
+                )}
+
+                {settings.soundEnabled && (
+                  <div className="setting-chips">
+                    <span className="select-label">Alert on</span>
+                    {SOUND_CLASSES.map((soundClass) => (
+                      <label key={soundClass} className="setting-chip">
+                        <input
+                          type="checkbox"
+                          checked={settings.soundClasses.includes(soundClass)}
+                          onChange={(e) => toggleSoundClass(soundClass, e.target.checked)}
+                        />
+                        <span>{SOUND_CLASS_LABELS[soundClass]}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Cooldown */}
+              <div className="setting-group">
+                <div className="setting-select">
+                  <span className="select-label">Event Cooldown</span>
+                  <select
+                    value={settings.cooldownSeconds}
+                    onChange={(e) =>
+                      updateSetting('cooldownSeconds', parseInt(e.target.value))
+                    }
+                  >
+                    <option value="10">10 seconds</option>
+                    <option value="30">30 seconds</option>
+                    <option value="60">1 minute</option>
+                    <option value="120">2 minutes</option>
+                    <option value="300">5 minutes</option>
+                  </select>
+                </div>
+              </div>
+
+              {/* Clip length */}
+              <div className="setting-group">
+                <div className="setting-select">
+                  <span className="select-label">Max Clip Length</span>
+                  <select
+                    value={settings.maxClipSeconds}
+                    onChange={(e) =>
+                      updateSetting('maxClipSeconds', parseInt(e.target.value))
+                    }
+                  >
+                    <option value="30">30 seconds</option>
+                    <option value="60">1 minute</option>
+                    <option value="120">2 minutes</option>
+                    <option value="300">5 minutes</option>
+                    <option value="600">10 minutes</option>
+                  </select>
+                </div>
+              </div>
+            </>
+          )}
 
           {/* Push Notifications */}
           <div className="setting-group notifications-group">
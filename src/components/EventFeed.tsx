@@ -1,14 +1,21 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Room, RoomEvent, DataPacket_Kind } from 'livekit-client';
+import type { Room } from 'livekit-client';
 import { api } from '../lib/api';
+import { onMessage } from '../lib/protocol';
 import type { DetectionEvent } from '../lib/api';
+import { SOUND_CLASS_LABELS, type SoundClass } from '../services/soundClassifier';
 
 interface LiveDetectionEvent {
   id: string;
-  type: 'motion' | 'sound';
+  type: 'motion' | 'sound' | 'inactivity';
   timestamp: string;
   deviceId: string;
   confidence: number;
+  zoneName?: string | null;
+  soundClass?: SoundClass | null;
+  episodeId?: string;
+  duration?: number | null;
+  endedAt?: string | null;
   isLive: true;
 }
 
@@ -23,6 +30,7 @@ interface EventFeedProps {
 export function EventFeed({ room, roomId = null, maxEvents = 20 }: EventFeedProps) {
   const [events, setEvents] = useState<FeedEvent[]>([]);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [activeMinutes, setActiveMinutes] = useState<number | null>(null);
 
   // Load persisted event history so the feed isn't empty on open
   useEffect(() => {
@@ -31,8 +39,9 @@ export function EventFeed({ room, roomId = null, maxEvents = 20 }: EventFeedProp
 
     api
       .getEvents({ roomId, limit: maxEvents })
-      .then(({ events: history }) => {
+      .then(({ events: history, activeMinutes: minutes }) => {
         if (cancelled) return;
+        setActiveMinutes(minutes);
         setEvents((prev) => {
           const live = prev.filter((e) => e.isLive);
           const merged: FeedEvent[] = [...live, ...history.map((e) => ({ ...e, isLive: false as const }))];
@@ -52,47 +61,48 @@ export function EventFeed({ room, roomId = null, maxEvents = 20 }: EventFeedProp
   useEffect(() => {
     if (!room) return;
 
-    const handleData = (
-      payload: Uint8Array,
-      participant: { identity: string } | undefined,
-      _kind?: DataPacket_Kind,
-      topic?: string
-    ) => {
-      if (topic !== 'detection') return;
+    return onMessage(room, (message, sender) => {
       // Only listen to camera participants (not other viewers)
-      if (!participant?.identity.startsWith('cam_')) return;
-
-      try {
-        const decoder = new TextDecoder();
-        const message = decoder.decode(payload);
-        const data = JSON.parse(message);
-
-        // Only handle event messages
-        if (data.messageType !== 'event') return;
-
-        const newEvent: LiveDetectionEvent = {
-          id: `live-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-          type: data.type,
-          timestamp: data.timestamp,
-          deviceId: data.deviceId,
-          confidence: data.confidence,
-          isLive: true,
-        };
-
-        setEvents((prev) => {
-          const updated = [newEvent, ...prev];
-          return updated.slice(0, maxEvents);
-        });
-      } catch (err) {
-        console.error('[EventFeed] Failed to parse event:', err);
+      if (!sender?.identity.startsWith('cam_')) return;
+
+      // Episode progress updates the live event that started it
+      if (message.type === 'detection_episode') {
+        const { episode, phase } = message;
+        const duration = Math.round((episode.lastDetectionAt - episode.startedAt) / 1000);
+        setEvents((prev) =>
+          prev.map((e) =>
+            e.isLive && e.episodeId === episode.id
+              ? {
+                  ...e,
+                  duration,
+                  endedAt: phase === 'end' ? new Date(episode.lastDetectionAt).toISOString() : null,
+                }
+              : e
+          )
+        );
+        return;
       }
-    };
-
-    room.on(RoomEvent.DataReceived, handleData);
 
-    return () => {
-      room.off(RoomEvent.DataReceived, handleData);
-    };
+      if (message.type !== 'detection_event') return;
+      const { event } = message;
+
+      const newEvent: LiveDetectionEvent = {
+        id: `live-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+        type: event.type,
+        timestamp: new Date(event.timestamp).toISOString(),
+        deviceId: event.deviceId,
+        confidence: event.confidence,
+        zoneName: event.zoneName ?? null,
+        soundClass: event.soundClass ?? null,
+        episodeId: event.episodeId,
+        isLive: true,
+      };
+
+      setEvents((prev) => {
+        const updated = [newEvent, ...prev];
+        return updated.slice(0, maxEvents);
+      });
+    });
   }, [room, maxEvents]);
 
   const clearEvents = useCallback(() => {
@@ -109,12 +119,25 @@ export function EventFeed({ room, roomId = null, maxEvents = 20 }: EventFeedProp
     return `${Math.round(confidence * 100)}%`;
   };
 
-  const getEventIcon = (type: 'motion' | 'sound') => {
-    return type === 'motion' ? '🏃' : '🔊';
+  const formatDuration = (seconds: number) => {
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const getEventIcon = (event: FeedEvent) => {
+    if (event.type === 'motion') return '🏃';
+    if (event.type === 'inactivity') return '💤';
+    if (event.soundClass === 'bark') return '🐕';
+    if (event.soundClass === 'meow') return '🐈';
+    return '🔊';
   };
 
-  const getEventLabel = (type: 'motion' | 'sound') => {
-    return type === 'motion' ? 'Motion' : 'Sound';
+  const getEventLabel = (event: FeedEvent) => {
+    if (event.type === 'motion') return 'Motion';
+    if (event.type === 'inactivity') return event.endedAt ? 'No motion (cleared)' : 'No motion';
+    return event.soundClass ? SOUND_CLASS_LABELS[event.soundClass] : 'Sound';
   };
 
   if (events.length === 0) {
@@ -138,6 +161,9 @@ export function EventFeed({ room, roomId = null, maxEvents = 20 }: EventFeedProp
         <span className="event-feed-title">
           Events
           <span className="event-count">{events.length}</span>
+          {activeMinutes !== null && activeMinutes > 0 && (
+            <span className="event-active-minutes">{activeMinutes} min active</span>
+          )}
         </span>
         <div className="event-feed-actions">
           {events.length > 3 && (
@@ -160,9 +186,20 @@ export function EventFeed({ room, roomId = null, maxEvents = 20 }: EventFeedProp
             key={event.id}
             className={`event-item ${event.type} ${event.isLive ? 'live' : ''}`}
           >
-            <span className="event-icon">{getEventIcon(event.type)}</span>
+            {!event.isLive && event.thumbnailUrl ? (
+              <img className="event-thumbnail" src={event.thumbnailUrl} alt="" loading="lazy" />
+            ) : (
+              <span className="event-icon">{getEventIcon(event)}</span>
+            )}
             <div className="event-details">
-              <span className="event-type">{getEventLabel(event.type)}</span>
+              <span className="event-type">{getEventLabel(event)}</span>
+              {event.zoneName && <span className="event-zone">{event.zoneName}</span>}
+              {!!event.duration && (
+                <span className={`event-duration ${event.endedAt ? '' : 'ongoing'}`}>
+                  {formatDuration(event.duration)}
+                  {!event.endedAt && '+'}
+                </span>
+              )}
               {event.confidence !== null && (
                 <span className="event-confidence">
                   {formatConfidence(event.confidence)}
@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { api, type Recording } from '../lib/api';
+
+interface RecordingTimelineProps {
+  roomId: string;
+  /** Backend device id -> camera name */
+  deviceNames: Record<string, string>;
+}
+
+const RANGE_OPTIONS = [1, 6, 24, 72];
+
+// Local URLs never expire; presigned ones last an hour
+const urlCache = new Map<string, { url: string; expiresAt: number }>();
+const URL_CACHE_TTL = 50 * 60 * 1000;
+
+async function getCachedSegmentUrl(recordingId: string): Promise<string> {
+  const cached = urlCache.get(recordingId);
+  if (cached && Date.now() < cached.expiresAt) return cached.url;
+  const url = await api.getRecordingPlaybackUrl(recordingId);
+  urlCache.set(recordingId, { url, expiresAt: Date.now() + URL_CACHE_TTL });
+  return url;
+}
+
+interface Segment {
+  recording: Recording;
+  start: number;
+  end: number;
+}
+
+function formatClock(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Scrub back through continuous recording. Segments are laid out on a bar
+ * spanning the selected range; gaps are times the camera was off. Playback
+ * moves on to the next segment when one ends.
+ */
+export function RecordingTimeline({ roomId, deviceNames }: RecordingTimelineProps) {
+  const [hours, setHours] = useState(6);
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // What's playing: the segment, where in it to start, and its URL
+  const [current, setCurrent] = useState<{ index: number; offset: number } | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  const fetchRecordings = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const to = Date.now();
+    const from = to - hours * 60 * 60 * 1000;
+    try {
+      const result = await api.getRecordings({
+        roomId,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+      });
+      setRange({ from, to });
+      setRecordings(result.recordings);
+    } catch (err) {
+      console.error('[RecordingTimeline] Failed to fetch recordings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load recordings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId, hours]);
+
+  useEffect(() => {
+    fetchRecordings();
+  }, [fetchRecordings]);
+
+  const deviceIds = useMemo(
+    () => [...new Set(recordings.flatMap((r) => (r.deviceId ? [r.deviceId] : [])))],
+    [recordings]
+  );
+
+  // Stick with the chosen camera while it still has footage in range
+  useEffect(() => {
+    if (!deviceId || !deviceIds.includes(deviceId)) setDeviceId(deviceIds[0] ?? null);
+  }, [deviceId, deviceIds]);
+
+  const segments = useMemo<Segment[]>(
+    () =>
+      recordings
+        .filter((r) => r.deviceId === deviceId)
+        .map((recording) => ({
+          recording,
+          start: new Date(recording.startedAt).getTime(),
+          end: new Date(recording.endedAt).getTime(),
+        })),
+    [recordings, deviceId]
+  );
+
+  // New footage list means old indexes are meaningless
+  useEffect(() => {
+    setCurrent(null);
+    setVideoUrl(null);
+    setPlayhead(null);
+  }, [segments]);
+
+  const currentSegment = current ? segments[current.index] : undefined;
+
+  useEffect(() => {
+    if (!currentSegment) return;
+    let cancelled = false;
+    setVideoUrl(null);
+
+    getCachedSegmentUrl(currentSegment.recording.id)
+      .then((url) => {
+        if (!cancelled) setVideoUrl(url);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || 'Failed to load recording');
+      });
+
+    // Warm the next URL so the hand-off doesn't stall on a round trip
+    const next = current && segments[current.index + 1];
+    if (next) getCachedSegmentUrl(next.recording.id).catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSegment, current, segments]);
+
+  // Jump to the footage at a point in time, or the next footage after it
+  const seekTo = (time: number) => {
+    const index = segments.findIndex((s) => s.end > time);
+    if (index === -1) return;
+    const segment = segments[index];
+    const offset = Math.max(0, time - segment.start) / 1000;
+    if (current?.index === index && videoRef.current && videoUrl) {
+      videoRef.current.currentTime = offset;
+      return;
+    }
+    setCurrent({ index, offset });
+  };
+
+  const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!range || !barRef.current) return;
+    const rect = barRef.current.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    seekTo(range.from + fraction * (range.to - range.from));
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video || !current) return;
+    if (current.offset > 0) video.currentTime = current.offset;
+    video.play().catch(() => {});
+  };
+
+  const handleTimeUpdate = () => {
+    if (videoRef.current && currentSegment) {
+      setPlayhead(currentSegment.start + videoRef.current.currentTime * 1000);
+    }
+  };
+
+  const handleEnded = () => {
+    if (current && current.index + 1 < segments.length) {
+      setCurrent({ index: current.index + 1, offset: 0 });
+    }
+  };
+
+  const position = (time: number) =>
+    range ? ((time - range.from) / (range.to - range.from)) * 100 : 0;
+
+  return (
+    <div className="clip-list recording-timeline">
+      <div className="clip-list-header">
+        <span className="clip-list-title">Recordings</span>
+        <div className="recording-timeline-controls">
+          <select value={hours} onChange={(e) => setHours(parseInt(e.target.value))}>
+            {RANGE_OPTIONS.map((h) => (
+              <option key={h} value={h}>
+                Last {h}h
+              </option>
+            ))}
+          </select>
+          <button className="clip-refresh-btn" onClick={fetchRecordings} disabled={isLoading}>
+            {isLoading ? '...' : '↻'}
+          </button>
+        </div>
+      </div>
+
+      {deviceIds.length > 1 && (
+        <div className="clip-filters">
+          {deviceIds.map((id) => (
+            <button
+              key={id}
+              className={`clip-filter-btn ${id === deviceId ? 'active' : ''}`}
+              onClick={() => setDeviceId(id)}
+            >
+              {deviceNames[id] ?? 'Camera'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="clip-list-error-message">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {isLoading && recordings.length === 0 ? (
+        <div className="clip-list-empty">
+          <p>Loading recordings...</p>
+        </div>
+      ) : segments.length === 0 || !range ? (
+        <div className="clip-list-empty">
+          <span className="clip-list-empty-icon">⏺</span>
+          <p>No recordings in this range</p>
+          <span className="clip-list-empty-hint">
+            Turn on continuous recording in Room Settings
+          </span>
+        </div>
+      ) : (
+        <>
+          <div className="recording-timeline-video">
+            {currentSegment && videoUrl ? (
+              <video
+                ref={videoRef}
+                key={currentSegment.recording.id}
+                src={videoUrl}
+                controls
+                playsInline
+                onLoadedMetadata={handleLoadedMetadata}
+                onTimeUpdate={handleTimeUpdate}
+                onEnded={handleEnded}
+              />
+            ) : (
+              <div className="recording-timeline-placeholder">
+                {currentSegment ? 'Loading…' : 'Tap the timeline to play'}
+              </div>
+            )}
+          </div>
+
+          <div className="recording-timeline-bar" ref={barRef} onClick={handleBarClick}>
+            {segments.map((s, index) => (
+              <div
+                key={s.recording.id}
+                className={`recording-timeline-segment ${current?.index === index ? 'active' : ''}`}
+                style={{
+                  left: `${Math.max(0, position(s.start))}%`,
+                  width: `${Math.max(0.2, position(s.end) - Math.max(0, position(s.start)))}%`,
+                }}
+              />
+            ))}
+            {playhead !== null && (
+              <div className="recording-timeline-playhead" style={{ left: `${position(playhead)}%` }} />
+            )}
+          </div>
+          <div className="recording-timeline-labels">
+            <span>{formatClock(range.from)}</span>
+            <span>{formatClock((range.from + range.to) / 2)}</span>
+            <span>{formatClock(range.to)}</span>
+          </div>
+          {playhead !== null && (
+            <div className="recording-timeline-time">{new Date(playhead).toLocaleString()}</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import { useState, useCallback } from 'react';
+import { api } from '../lib/api';
+import type { RoomCameraConfig } from '../lib/api';
+import {
+  isArmed,
+  ARMING_MODE_LABELS,
+  WEEKDAY_LABELS,
+  type ArmWindow,
+  type ArmingMode,
+} from '../services/armSchedule';
+
+interface RoomSettingsProps {
+  roomId: string;
+  config: RoomCameraConfig | null;
+  onConfigChange: (config: RoomCameraConfig) => void;
+}
+
+const THRESHOLD_OPTIONS = [60, 120, 180, 240, 360, 480];
+
+const RETENTION_OPTIONS = [12, 24, 48, 72, 168];
+
+// Weekdays 9-5, a common starting point when a schedule is first enabled
+const DEFAULT_WINDOWS: ArmWindow[] = [1, 2, 3, 4, 5].map((day) => ({
+  day,
+  start: '09:00',
+  end: '17:00',
+}));
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+/**
+ * Room-level settings stored on the server. The server tells connected
+ * cameras to re-fetch after every save.
+ */
+export function RoomSettings({ roomId, config, onConfigChange }: RoomSettingsProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Unsaved schedule edits; null = nothing pending
+  const [draftWindows, setDraftWindows] = useState<ArmWindow[] | null>(null);
+
+  // Optimistically apply, persist, then roll back on failure
+  const save = useCallback(
+    async (next: RoomCameraConfig) => {
+      if (!config) return false;
+      const previous = config;
+      onConfigChange(next);
+      setError(null);
+
+      try {
+        await api.updateRoom(roomId, {
+          inactivityMinutes: next.inactivity.thresholdMinutes,
+          inactivityStart: next.inactivity.start,
+          inactivityEnd: next.inactivity.end,
+          timezone: next.schedule.timezone,
+          armSchedule: next.schedule.windows,
+          continuousRecording: next.recording.continuous,
+          recordingRetentionHours: next.recording.retentionHours,
+        });
+        return true;
+      } catch (err) {
+        console.error('[RoomSettings] Failed to save room settings:', err);
+        onConfigChange(previous);
+        setError('Failed to save room settings');
+        return false;
+      }
+    },
+    [config, roomId, onConfigChange]
+  );
+
+  const updateInactivity = (changes: Partial<RoomCameraConfig['inactivity']>) => {
+    if (!config) return;
+    save({ ...config, inactivity: { ...config.inactivity, ...changes } });
+  };
+
+  const updateRecording = (changes: Partial<RoomCameraConfig['recording']>) => {
+    if (!config) return;
+    save({ ...config, recording: { ...config.recording, ...changes } });
+  };
+
+  const saveSchedule = async (windows: ArmWindow[] | null, timezone?: string) => {
+    if (!config) return;
+    const schedule = {
+      timezone: timezone ?? config.schedule.timezone,
+      windows,
+    };
+    const saved = await save({
+      ...config,
+      schedule: { ...schedule, armed: isArmed(schedule) },
+    });
+    if (saved) setDraftWindows(null);
+  };
+
+  // The server pushes the new mode to the cameras itself
+  const setRoomMode = async (roomMode: ArmingMode | null) => {
+    if (!config) return;
+    const previous = config;
+    onConfigChange({ ...config, roomMode, mode: roomMode ?? config.accountMode });
+    setError(null);
+
+    try {
+      await api.setRoomArmingMode(roomId, roomMode);
+    } catch (err) {
+      console.error('[RoomSettings] Failed to set arming mode:', err);
+      onConfigChange(previous);
+      setError('Failed to set arming mode');
+    }
+  };
+
+  const updateDraftWindow = (index: number, changes: Partial<ArmWindow>) => {
+    setDraftWindows((prev) =>
+      (prev ?? config?.schedule.windows ?? []).map((w, i) => (i === index ? { ...w, ...changes } : w))
+    );
+  };
+
+  if (!config) return null;
+
+  const { inactivity, schedule, recording } = config;
+  const windows = draftWindows ?? schedule.windows;
+  const alwaysArmed = !windows || windows.length === 0;
+  const allDay = !inactivity.start || !inactivity.end;
+
+  return (
+    <div className={`detection-settings ${isExpanded ? 'expanded' : ''}`}>
+      <button
+        className="detection-settings-toggle"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <span className="settings-icon">🏠</span>
+        <span>Room Settings</span>
+        <span className={`expand-icon ${isExpanded ? 'expanded' : ''}`}>▼</span>
+      </button>
+
+      {isExpanded && (
+        <div className="detection-settings-content">
+          {error && <div className="notification-status error">{error}</div>}
+
+          {/* Arming mode override */}
+          <div className="setting-group">
+            <div className="setting-select">
+              <span className="select-label">Arming Mode</span>
+              <select
+                value={config.roomMode ?? ''}
+                onChange={(e) => setRoomMode((e.target.value || null) as ArmingMode | null)}
+              >
+                <option value="">Same as account ({ARMING_MODE_LABELS[config.accountMode]})</option>
+                {(['home', 'away', 'off'] as const).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {ARMING_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Arm schedule */}
+          <div className="setting-group">
+            <label className="setting-toggle">
+              <input
+                type="checkbox"
+                checked={alwaysArmed}
+                onChange={(e) =>
+                  e.target.checked ? saveSchedule(null) : setDraftWindows(DEFAULT_WINDOWS)
+                }
+              />
+              <span className="toggle-label">Always armed</span>
+            </label>
+
+            {!alwaysArmed && (
+              <div className="setting-select setting-select-sub">
+                <span className="select-label">Timezone</span>
+                <select
+                  value={schedule.timezone}
+                  onChange={(e) => saveSchedule(windows, e.target.value)}
+                >
+                  {TIME_ZONES.map((tz) => (
+                    <option key={tz} value={tz}>
+                      {tz}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {!alwaysArmed &&
+              windows.map((w, index) => (
+                <div key={index} className="schedule-window setting-time-range">
+                  <select
+                    value={w.day}
+                    onChange={(e) => updateDraftWindow(index, { day: parseInt(e.target.value) })}
+                  >
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <option key={label} value={day}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="time"
+                    value={w.start}
+                    onChange={(e) => e.target.value && updateDraftWindow(index, { start: e.target.value })}
+                  />
+                  <span className="setting-time-separator">–</span>
+                  <input
+                    type="time"
+                    value={w.end}
+                    onChange={(e) => e.target.value && updateDraftWindow(index, { end: e.target.value })}
+                  />
+                  <button
+                    className="schedule-remove-btn"
+                    onClick={() => setDraftWindows(windows.filter((_, i) => i !== index))}
+                    title="Remove window"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+
+            {!alwaysArmed && (
+              <button
+                className="schedule-add-btn"
+                onClick={() => setDraftWindows([...windows, { day: 1, start: '09:00', end: '17:00' }])}
+                disabled={windows.length >= 50}
+              >
+                ＋ Add window
+              </button>
+            )}
+
+            {draftWindows && (
+              <div className="notification-controls">
+                <button className="notification-btn" onClick={() => setDraftWindows(null)}>
+                  Cancel
+                </button>
+                <button
+                  className="notification-btn enable"
+                  onClick={() => saveSchedule(draftWindows.length > 0 ? draftWindows : null)}
+                >
+                  Save schedule
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Inactivity alert */}
+          <div className="setting-group">
+            <div className="setting-select">
+              <span className="select-label">Inactivity Alert</span>
+              <select
+                value={inactivity.thresholdMinutes ?? ''}
+                onChange={(e) =>
+                  updateInactivity({
+                    thresholdMinutes: e.target.value ? parseInt(e.target.value) : null,
+                  })
+                }
+              >
+                <option value="">Off</option>
+                {THRESHOLD_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    No motion for {minutes / 60} {minutes === 60 ? 'hour' : 'hours'}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {inactivity.thresholdMinutes !== null && (
+              <label className="setting-toggle setting-toggle-sub">
+                <input
+                  type="checkbox"
+                  checked={allDay}
+                  onChange={(e) =>
+                    updateInactivity(
+                      e.target.checked
+                        ? { start: null, end: null }
+                        : { start: '08:00', end: '20:00' }
+                    )
+                  }
+                />
+                <span className="toggle-label">All day</span>
+              </label>
+            )}
+
+            {inactivity.thresholdMinutes !== null && !allDay && (
+              <div className="setting-select setting-select-sub setting-time-range">
+                <span className="select-label">Hours</span>
+                <input
+                  type="time"
+                  value={inactivity.start ?? ''}
+                  onChange={(e) => e.target.value && updateInactivity({ start: e.target.value })}
+                />
+                <span className="setting-time-separator">–</span>
+                <input
+                  type="time"
+                  value={inactivity.end ?? ''}
+                  onChange={(e) => e.target.value && updateInactivity({ end: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Continuous recording */}
+          <div className="setting-group">
+            <label className="setting-toggle">
+              <input
+                type="checkbox"
+                checked={recording.continuous}
+                onChange={(e) => updateRecording({ continuous: e.target.checked })}
+              />
+              <span className="toggle-label">Continuous recording</span>
+            </label>
+
+            {recording.continuous && (
+              <div className="setting-select setting-select-sub">
+                <span className="select-label">Keep for</span>
+                <select
+                  value={recording.retentionHours}
+                  onChange={(e) => updateRecording({ retentionHours: parseInt(e.target.value) })}
+                >
+                  {RETENTION_OPTIONS.map((hours) => (
+                    <option key={hours} value={hours}>
+                      {hours % 24 === 0 ? `${hours / 24} ${hours === 24 ? 'day' : 'days'}` : `${hours} hours`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,24 @@ import {
   VideoTrack,
   AudioTrack,
   isTrackReference,
+  useRoomContext,
 } from '@livekit/components-react';
 import type { TrackReferenceOrPlaceholder } from '@livekit/components-react';
 import { ConnectionQuality, type Participant } from 'livekit-client';
+import { api } from '../lib/api';
+import { onMessage } from '../lib/protocol';
+import { assessHealth, type CameraHealth } from '../services/cameraHealth';
+import {
+  callCamera,
+  CameraRpcError,
+  RESOLUTION_PRESETS,
+  type CameraRpcMethod,
+  type CameraRpcParams,
+  type CameraRpcResult,
+  type ResolutionPreset,
+} from '../lib/cameraRpc';
+import type { MotionZone } from '../services/motionDetector';
+import { ZoneEditor } from './ZoneEditor';
 
 interface VideoTileProps {
   participant: Participant;
@@ -16,10 +31,26 @@ interface VideoTileProps {
   onPin: () => void;
   onToggleMute: () => void;
   portraitMode?: boolean;
+  /** Backend device id; enables the motion zone editor when set */
+  deviceId?: string | null;
+  onSaveZones?: (zones: MotionZone[]) => Promise<void>;
+}
+
+interface ZoneEditorState {
+  zones: MotionZone[];
+  frameWidth: number;
+  frameHeight: number;
 }
 
 type RotationDegree = 0 | 90 | 180 | 270;
 
+interface CommandStatus {
+  state: 'pending' | 'ok' | 'error';
+  message: string;
+}
+
+const COMMAND_STATUS_MS = 4000;
+
 export function VideoTile({
   participant,
   videoTrack,
@@ -29,7 +60,10 @@ export function VideoTile({
   onPin,
   onToggleMute,
   portraitMode = false,
+  deviceId = null,
+  onSaveZones,
 }: VideoTileProps) {
+  const room = useRoomContext();
   const tileRef = useRef<HTMLDivElement>(null);
   const videoContainerRef = useRef<HTMLDivElement>(null);
 
@@ -48,6 +82,22 @@ export function VideoTile({
   // Controls expanded state
   const [showControls, setShowControls] = useState(false);
 
+  // Motion zone editor (null when closed)
+  const [zoneEditor, setZoneEditor] = useState<ZoneEditorState | null>(null);
+
+  // Remote camera control (cameras only); the last values set from here,
+  // since the camera doesn't report them on its own
+  const isCamera = participant.identity.startsWith('cam_');
+  const [commandStatus, setCommandStatus] = useState<CommandStatus | null>(null);
+  const [remoteSleeping, setRemoteSleeping] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [resolution, setResolution] = useState<ResolutionPreset | ''>('');
+  const [snapshot, setSnapshot] = useState<CameraRpcResult<'captureSnapshot'> | null>(null);
+  const statusTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Latest telemetry from the camera
+  const [health, setHealth] = useState<CameraHealth | null>(null);
+
   // Get connection quality indicator
   const qualityLevel = participant.connectionQuality;
   const qualityLabel =
@@ -266,19 +316,157 @@ export function VideoTile({
     }
   }, [rotation, portraitMode, participant.identity]);
 
+  // Open the zone editor with the camera's stored zones. The view is reset
+  // so the drawing overlay lines up with the unrotated, unzoomed frame.
+  const handleEditZones = useCallback(async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!deviceId) return;
+
+    const videoElement = videoContainerRef.current?.querySelector('video');
+    const frameWidth = videoElement?.videoWidth || 320;
+    const frameHeight = videoElement?.videoHeight || 240;
+
+    try {
+      const { zones } = await api.getDeviceZones(deviceId);
+      setRotation(0);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+      setShowControls(false);
+      setZoneEditor({ zones, frameWidth, frameHeight });
+    } catch (err) {
+      console.error('Failed to load motion zones:', err);
+    }
+  }, [deviceId]);
+
+  useEffect(() => () => clearTimeout(statusTimerRef.current), []);
+
+  useEffect(() => {
+    if (!isCamera) return;
+    return onMessage(room, (message, sender) => {
+      if (message.type === 'camera_health' && sender?.identity === participant.identity) {
+        setHealth(message.health);
+      }
+    });
+  }, [room, isCamera, participant.identity]);
+
+  // Show the stored snapshot until the camera publishes a fresh one
+  useEffect(() => {
+    if (!deviceId) return;
+    let cancelled = false;
+    api
+      .getDeviceHealth(deviceId)
+      .then(({ health: stored }) => {
+        if (!cancelled && stored) setHealth((current) => current ?? stored);
+      })
+      .catch((err) => console.error('Failed to load camera health:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [deviceId]);
+
+  // Send a command to the camera and show the outcome on the tile
+  const runCommand = useCallback(
+    async <M extends CameraRpcMethod>(
+      method: M,
+      params: CameraRpcParams<M>,
+      describe: (result: CameraRpcResult<M>) => string
+    ): Promise<CameraRpcResult<M> | null> => {
+      clearTimeout(statusTimerRef.current);
+      setCommandStatus({ state: 'pending', message: 'Sending…' });
+
+      try {
+        const result = await callCamera(room, participant.identity, method, params);
+        setCommandStatus({ state: 'ok', message: describe(result) });
+        return result;
+      } catch (err) {
+        console.error(`[VideoTile] ${method} failed:`, err);
+        setCommandStatus({
+          state: 'error',
+          message: err instanceof CameraRpcError ? err.message : 'Command failed',
+        });
+        return null;
+      } finally {
+        statusTimerRef.current = setTimeout(() => setCommandStatus(null), COMMAND_STATUS_MS);
+      }
+    },
+    [room, participant.identity]
+  );
+
+  const handleSwitchCamera = useCallback(async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    await runCommand('switchCamera', {}, ({ facingMode }) =>
+      facingMode === 'user' ? 'Using front camera' : 'Using back camera'
+    );
+  }, [runCommand]);
+
+  const handleToggleSleep = useCallback(async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const result = await runCommand('setSleep', { sleeping: !remoteSleeping }, ({ sleeping }) =>
+      sleeping ? 'Camera screen asleep' : 'Camera screen awake'
+    );
+    if (result) setRemoteSleeping(result.sleeping);
+  }, [runCommand, remoteSleeping]);
+
+  const handleToggleTorch = useCallback(async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const result = await runCommand('setTorch', { on: !torchOn }, ({ on }) =>
+      on ? 'Torch on' : 'Torch off'
+    );
+    if (result) setTorchOn(result.on);
+  }, [runCommand, torchOn]);
+
+  const handleSetResolution = useCallback(async (preset: ResolutionPreset) => {
+    const result = await runCommand('setResolution', { preset }, ({ width, height }) =>
+      `Resolution ${width}×${height}`
+    );
+    if (result) {
+      setResolution(result.preset);
+      setTorchOn(false); // restarting the track turns the torch off
+    }
+  }, [runCommand]);
+
+  const handleRemoteSnapshot = useCallback(async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const result = await runCommand('captureSnapshot', {}, () => 'Snapshot received');
+    if (result) setSnapshot(result);
+  }, [runCommand]);
+
+  const handleReload = useCallback(async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!window.confirm('Reload the camera app? The stream drops for a few seconds.')) return;
+    const result = await runCommand('reload', {}, () => 'Camera is reloading');
+    if (result) {
+      setRemoteSleeping(false);
+      setTorchOn(false);
+      setResolution('');
+    }
+  }, [runCommand]);
+
   // Toggle controls visibility
   const handleToggleControls = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
     setShowControls((prev) => !prev);
   }, []);
 
+  const healthSummary = health && assessHealth(health);
+  const healthDetails = health && [
+    health.battery &&
+      `Battery ${Math.round(health.battery.level * 100)}%${health.battery.charging ? ' (charging)' : ''}`,
+    health.video &&
+      `${Math.round(health.video.fps)} fps at ${health.video.width}×${health.video.height}`,
+    health.thermal && `Thermal: ${health.thermal}`,
+    `Connection: ${health.connectionQuality}`,
+    `Upload queue: ${health.syncQueue}`,
+    `Up ${Math.floor(health.uptimeSeconds / 3600)}h ${Math.floor((health.uptimeSeconds % 3600) / 60)}m`,
+  ].filter(Boolean).join('\n');
+
   // Video transform style - rotation, zoom, and pan for the video content
   const videoTransform = `rotate(${rotation}deg) scale(${zoom}) translate(${pan.x / zoom}px, ${pan.y / zoom}px)`;
 
   return (
     <div
       ref={tileRef}
-      className={`video-tile ${isPinned ? 'pinned' : ''} ${showControls ? 'controls-visible' : ''} ${zoom > 1 ? 'zoomed' : ''} ${portraitMode ? 'portrait' : ''}`}
+      className={`video-tile ${isPinned ? 'pinned' : ''} ${showControls ? 'controls-visible' : ''} ${zoom > 1 ? 'zoomed' : ''} ${portraitMode ? 'portrait' : ''} ${zoneEditor ? 'editing-zones' : ''}`}
       onClick={handleTileClick}
     >
       <div
@@ -312,6 +500,42 @@ export function VideoTile({
 
         {showFlash && <div className="screenshot-flash" />}
 
+        {zoneEditor && onSaveZones && (
+          <ZoneEditor
+            zones={zoneEditor.zones}
+            frameWidth={zoneEditor.frameWidth}
+            frameHeight={zoneEditor.frameHeight}
+            onSave={onSaveZones}
+            onClose={() => setZoneEditor(null)}
+          />
+        )}
+
+        {snapshot && (
+          <div className="tile-snapshot" onClick={(e) => e.stopPropagation()}>
+            <img src={snapshot.image} alt="Snapshot from camera" />
+            <div className="tile-snapshot-actions">
+              <span className="tile-snapshot-time">
+                {new Date(snapshot.capturedAt).toLocaleTimeString()}
+              </span>
+              <a
+                className="tile-btn tile-btn-sm"
+                href={snapshot.image}
+                download={`camera-${participant.identity}-${snapshot.capturedAt}.jpg`}
+                title="Download snapshot"
+              >
+                ⬇
+              </a>
+              <button
+                className="tile-btn tile-btn-sm"
+                onClick={() => setSnapshot(null)}
+                title="Close snapshot"
+              >
+                ×
+              </button>
+            </div>
+          </div>
+        )}
+
         {hasValidAudioTrack && !isMuted && <AudioTrack trackRef={audioTrack} />}
       </div>
 
@@ -327,6 +551,19 @@ export function VideoTile({
             {rotation !== 0 && (
               <span className="rotation-indicator">{rotation}°</span>
             )}
+            {health && healthSummary && (
+              <span
+                className={`health-badge health-${healthSummary.level}`}
+                title={[...healthSummary.issues, healthDetails].filter(Boolean).join('\n')}
+              >
+                {health.battery
+                  ? `${health.battery.charging ? '⚡' : '🔋'}${Math.round(health.battery.level * 100)}%`
+                  : health.video
+                    ? `${Math.round(health.video.fps)} fps`
+                    : 'Health'}
+                {healthSummary.level !== 'ok' && ' ⚠'}
+              </span>
+            )}
             <span className={`quality-indicator quality-${qualityLevel}`}>
               {qualityLabel}
             </span>
@@ -415,6 +652,95 @@ export function VideoTile({
             </div>
           </div>
 
+          {deviceId && onSaveZones && (
+            <div className="control-group">
+              <span className="control-label">Zones</span>
+              <button
+                className="tile-btn"
+                onClick={handleEditZones}
+                title="Edit motion zones"
+              >
+                ⬚
+              </button>
+            </div>
+          )}
+
+          {isCamera && (
+            <>
+              <div className="control-group">
+                <span className="control-label">Camera</span>
+                <div className="zoom-controls">
+                  <button
+                    className="tile-btn tile-btn-sm"
+                    onClick={handleSwitchCamera}
+                    disabled={commandStatus?.state === 'pending'}
+                    title="Switch front/back camera"
+                  >
+                    🔄
+                  </button>
+                  <button
+                    className={`tile-btn tile-btn-sm ${torchOn ? 'active' : ''}`}
+                    onClick={handleToggleTorch}
+                    disabled={commandStatus?.state === 'pending'}
+                    title={torchOn ? 'Turn torch off' : 'Turn torch on'}
+                  >
+                    🔦
+                  </button>
+                  <button
+                    className="tile-btn tile-btn-sm"
+                    onClick={handleRemoteSnapshot}
+                    disabled={commandStatus?.state === 'pending'}
+                    title="Snapshot from the camera"
+                  >
+                    📷
+                  </button>
+                </div>
+              </div>
+
+              <div className="control-group">
+                <span className="control-label">Device</span>
+                <div className="zoom-controls">
+                  <button
+                    className={`tile-btn tile-btn-sm ${remoteSleeping ? 'active' : ''}`}
+                    onClick={handleToggleSleep}
+                    disabled={commandStatus?.state === 'pending'}
+                    title={remoteSleeping ? 'Wake camera screen' : 'Put camera screen to sleep'}
+                  >
+                    🌙
+                  </button>
+                  <button
+                    className="tile-btn tile-btn-sm"
+                    onClick={handleReload}
+                    disabled={commandStatus?.state === 'pending'}
+                    title="Reload camera app"
+                  >
+                    ⟳
+                  </button>
+                </div>
+              </div>
+
+              <div className="control-group">
+                <span className="control-label">Quality</span>
+                <select
+                  className="tile-select"
+                  value={resolution}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => handleSetResolution(e.target.value as ResolutionPreset)}
+                  disabled={commandStatus?.state === 'pending'}
+                >
+                  <option value="" disabled>
+                    Default
+                  </option>
+                  {(Object.keys(RESOLUTION_PRESETS) as ResolutionPreset[]).map((preset) => (
+                    <option key={preset} value={preset}>
+                      {preset}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+
           {zoom > 1 && (
             <div className="pan-hint">
               Drag to pan around
@@ -422,6 +748,12 @@ export function VideoTile({
           )}
         </div>
 
+        {commandStatus && (
+          <div className={`tile-command-status ${commandStatus.state}`}>
+            {commandStatus.message}
+          </div>
+        )}
+
         {!isVideoEnabled && (
           <div className="video-status">
             <span>Video Paused</span>
@@ -9,13 +9,18 @@ import {
 import { Track, RoomEvent, ConnectionState } from 'livekit-client';
 import { api } from '../lib/api';
 import { viewerRoomOptions } from '../lib/livekit';
+import { onMessage, sendRequest } from '../lib/protocol';
 import { VideoTile } from './VideoTile';
 import { EventFeed } from './EventFeed';
 import { DetectionSettings } from './DetectionSettings';
+import { RoomSettings } from './RoomSettings';
 import { ClipList } from './ClipList';
+import { RecordingTimeline } from './RecordingTimeline';
 import { ClipPlayer } from './ClipPlayer';
 import { PairingModal } from './PairingModal';
-import type { Clip } from '../lib/api';
+import type { Clip, RoomCameraConfig } from '../lib/api';
+import { isArmed, ARMING_MODE_LABELS, type ArmingMode } from '../services/armSchedule';
+import type { MotionZone } from '../services/motionDetector';
 
 const DEFAULT_ROOM_NAME = 'Home';
 
@@ -103,11 +108,107 @@ function ViewerInterface({ roomId }: { roomId: string }) {
   // Sidebar visibility
   const [showSidebar, setShowSidebar] = useState(true);
   // Sidebar tab
-  const [sidebarTab, setSidebarTab] = useState<'events' | 'clips' | 'settings'>('events');
+  const [sidebarTab, setSidebarTab] = useState<'events' | 'clips' | 'recordings' | 'settings'>(
+    'events'
+  );
   // Clip player
   const [selectedClip, setSelectedClip] = useState<Clip | null>(null);
   // Add-camera pairing modal
   const [showPairing, setShowPairing] = useState(false);
+  // LiveKit identity (cam_…) -> backend device, for per-device settings
+  const [cameraDevices, setCameraDevices] = useState<Record<string, { id: string; name: string }>>(
+    {}
+  );
+  // Room-level config (arm schedule, inactivity alert)
+  const [roomConfig, setRoomConfig] = useState<RoomCameraConfig | null>(null);
+  // Re-evaluates the arm schedule once a minute
+  const [clock, setClock] = useState(() => Date.now());
+
+  const cameraCount = participants.filter((p) => p.identity.startsWith('cam_')).length;
+
+  // Refresh the device map whenever a camera joins or leaves
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getDevices()
+      .then(({ devices }) => {
+        if (cancelled) return;
+        setCameraDevices(
+          Object.fromEntries(devices.map((d) => [d.participantId, { id: d.id, name: d.name }]))
+        );
+      })
+      .catch((err) => {
+        console.error('[Viewer] Failed to load devices:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraCount]);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getRoomCameraConfig(roomId)
+      .then(({ config }) => {
+        if (!cancelled) setRoomConfig(config);
+      })
+      .catch((err) => {
+        console.error('[Viewer] Failed to load room config:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setClock(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The server pushes arming mode switches made anywhere (other viewers, the API)
+  useEffect(() => {
+    return onMessage(room, (message) => {
+      if (message.type !== 'arming_mode') return;
+      setRoomConfig((prev) =>
+        prev && {
+          ...prev,
+          mode: message.mode,
+          accountMode: prev.roomMode === null ? message.mode : prev.accountMode,
+        }
+      );
+    });
+  }, [room]);
+
+  const armed = roomConfig
+    ? roomConfig.mode !== 'off' && isArmed(roomConfig.schedule, new Date(clock))
+    : null;
+
+  const setAccountMode = useCallback(
+    async (mode: ArmingMode) => {
+      if (!roomConfig) return;
+      const previous = roomConfig;
+      setRoomConfig({ ...roomConfig, accountMode: mode, mode: roomConfig.roomMode ?? mode });
+      try {
+        await api.setArmingMode(mode);
+      } catch (err) {
+        console.error('[Viewer] Failed to set arming mode:', err);
+        setRoomConfig(previous);
+      }
+    },
+    [roomConfig]
+  );
+
+  // Persist zones, then push them to the camera so it applies them live
+  const saveZones = useCallback(
+    async (identity: string, deviceId: string, zones: MotionZone[]) => {
+      const { zones: saved } = await api.updateDeviceZones(deviceId, zones);
+      await sendRequest(room, { type: 'motion_zones', zones: saved }, identity).catch((err) => {
+        // Camera picks stored zones up on its next start
+        console.error('[Viewer] Failed to send zones to camera:', err);
+      });
+    },
+    [room]
+  );
 
   // Disable microphone on mount (start silent)
   useEffect(() => {
@@ -213,9 +314,40 @@ function ViewerInterface({ roomId }: { roomId: string }) {
             {cameraParticipants.length} camera
             {cameraParticipants.length !== 1 ? 's' : ''}
           </span>
+          {armed !== null && (
+            <span
+              className={`armed-badge ${armed ? 'armed' : 'disarmed'}`}
+              title={
+                armed
+                  ? roomConfig?.mode === 'home'
+                    ? 'Events are recorded without notifications'
+                    : 'Detections are reported'
+                  : roomConfig?.mode === 'off'
+                    ? 'Arming mode is off'
+                    : 'Outside the arm schedule'
+              }
+            >
+              {armed ? (roomConfig?.mode === 'home' ? 'Home' : 'Armed') : 'Disarmed'}
+            </span>
+          )}
         </div>
 
         <div className="viewer-header-controls">
+          {/* Account-wide arming mode */}
+          {roomConfig && (
+            <div className="arming-mode-switch" title="Arming mode for all rooms">
+              {(['home', 'away', 'off'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  className={`arming-mode-btn ${roomConfig.accountMode === mode ? 'active' : ''}`}
+                  onClick={() => setAccountMode(mode)}
+                >
+                  {ARMING_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Add camera */}
           <button
             className="add-camera-btn"
@@ -280,6 +412,13 @@ function ViewerInterface({ roomId }: { roomId: string }) {
                 onPin={() => handlePin(participant.identity)}
                 onToggleMute={() => handleToggleMute(participant.identity)}
                 portraitMode={portraitMode}
+                deviceId={cameraDevices[participant.identity]?.id ?? null}
+                onSaveZones={(zones) => {
+                  const deviceId = cameraDevices[participant.identity]?.id;
+                  return deviceId
+                    ? saveZones(participant.identity, deviceId, zones)
+                    : Promise.reject(new Error('Camera is not paired'));
+                }}
               />
             ))
           )}
@@ -301,6 +440,12 @@ function ViewerInterface({ roomId }: { roomId: string }) {
               >
                 Clips
               </button>
+              <button
+                className={`sidebar-tab ${sidebarTab === 'recordings' ? 'active' : ''}`}
+                onClick={() => setSidebarTab('recordings')}
+              >
+                Recordings
+              </button>
               <button
                 className={`sidebar-tab ${sidebarTab === 'settings' ? 'active' : ''}`}
                 onClick={() => setSidebarTab('settings')}
@@ -311,7 +456,32 @@ function ViewerInterface({ roomId }: { roomId: string }) {
             <div className="sidebar-content">
               {sidebarTab === 'events' && <EventFeed room={room} roomId={roomId} />}
               {sidebarTab === 'clips' && <ClipList onPlayClip={setSelectedClip} />}
-              {sidebarTab === 'settings' && <DetectionSettings room={room} />}
+              {sidebarTab === 'recordings' && (
+                <RecordingTimeline
+                  roomId={roomId}
+                  deviceNames={Object.fromEntries(
+                    Object.values(cameraDevices).map((d) => [d.id, d.name])
+                  )}
+                />
+              )}
+              {sidebarTab === 'settings' && (
+                <>
+                  <RoomSettings
+                    roomId={roomId}
+                    config={roomConfig}
+                    onConfigChange={setRoomConfig}
+                  />
+                  <DetectionSettings
+                    room={room}
+                    cameras={cameraParticipants.flatMap((p) => {
+                      const device = cameraDevices[p.identity];
+                      return device
+                        ? [{ identity: p.identity, deviceId: device.id, name: device.name }]
+                        : [];
+                    })}
+                  />
+                </>
+              )}
             </div>
           </div>
         )}
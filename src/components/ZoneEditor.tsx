@@ -0,0 +1,211 @@
+import { useState, useRef, useCallback } from 'react';
+import type { MotionZone, ZonePoint } from '../services/motionDetector';
+
+interface ZoneEditorProps {
+  zones: MotionZone[];
+  /** Intrinsic size of the camera frame, used to match the video's aspect ratio */
+  frameWidth: number;
+  frameHeight: number;
+  onSave: (zones: MotionZone[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const MAX_ZONES = 16;
+
+export function ZoneEditor({ zones, frameWidth, frameHeight, onSave, onClose }: ZoneEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draftZones, setDraftZones] = useState<MotionZone[]>(zones);
+  const [points, setPoints] = useState<ZonePoint[]>([]);
+  const [kind, setKind] = useState<MotionZone['kind']>('include');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Map a click to normalized frame coordinates. getScreenCTM accounts for
+  // the letterboxing introduced by preserveAspectRatio.
+  const handleCanvasClick = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
+    e.stopPropagation();
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const local = pt.matrixTransform(ctm.inverse());
+
+    const x = Math.min(Math.max(local.x / frameWidth, 0), 1);
+    const y = Math.min(Math.max(local.y / frameHeight, 0), 1);
+    setPoints((prev) => (prev.length >= 32 ? prev : [...prev, { x, y }]));
+  }, [frameWidth, frameHeight]);
+
+  const finishShape = useCallback(() => {
+    if (points.length < 3) return;
+    setDraftZones((prev) => {
+      const sameKind = prev.filter((z) => z.kind === kind).length;
+      const zone: MotionZone = {
+        id: `zone_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        name: `${kind === 'include' ? 'Zone' : 'Mask'} ${sameKind + 1}`,
+        kind,
+        enabled: true,
+        points,
+      };
+      return [...prev, zone];
+    });
+    setPoints([]);
+  }, [points, kind]);
+
+  const toggleZone = useCallback((id: string) => {
+    setDraftZones((prev) =>
+      prev.map((z) => (z.id === id ? { ...z, enabled: !z.enabled } : z))
+    );
+  }, []);
+
+  const renameZone = useCallback((id: string, name: string) => {
+    setDraftZones((prev) => prev.map((z) => (z.id === id ? { ...z, name } : z)));
+  }, []);
+
+  const removeZone = useCallback((id: string) => {
+    setDraftZones((prev) => prev.filter((z) => z.id !== id));
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(draftZones.map((z) => ({ ...z, name: z.name.trim() || 'Zone' })));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save zones');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [draftZones, onSave, onClose]);
+
+  const toSvgPoints = (pts: ZonePoint[]) =>
+    pts.map((p) => `${p.x * frameWidth},${p.y * frameHeight}`).join(' ');
+
+  return (
+    <div className="zone-editor" onClick={(e) => e.stopPropagation()}>
+      <svg
+        ref={svgRef}
+        className="zone-editor-canvas"
+        viewBox={`0 0 ${frameWidth} ${frameHeight}`}
+        preserveAspectRatio="xMidYMid meet"
+        onClick={handleCanvasClick}
+      >
+        <rect
+          className="zone-editor-frame"
+          x={0}
+          y={0}
+          width={frameWidth}
+          height={frameHeight}
+        />
+        {draftZones.map((zone) => (
+          <polygon
+            key={zone.id}
+            className={`zone-shape ${zone.kind} ${zone.enabled ? '' : 'disabled'}`}
+            points={toSvgPoints(zone.points)}
+          />
+        ))}
+        {points.length > 0 && (
+          <polyline className={`zone-draft ${kind}`} points={toSvgPoints(points)} />
+        )}
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            className="zone-draft-point"
+            cx={p.x * frameWidth}
+            cy={p.y * frameHeight}
+            r={Math.max(frameWidth, frameHeight) / 120}
+          />
+        ))}
+      </svg>
+
+      <div className="zone-editor-panel">
+        <div className="zone-editor-kind">
+          <button
+            className={`zone-kind-btn ${kind === 'include' ? 'active' : ''}`}
+            onClick={() => setKind('include')}
+            title="Only motion inside this area counts"
+          >
+            Detect
+          </button>
+          <button
+            className={`zone-kind-btn exclude ${kind === 'exclude' ? 'active' : ''}`}
+            onClick={() => setKind('exclude')}
+            title="Ignore motion inside this area"
+          >
+            Ignore
+          </button>
+        </div>
+
+        <div className="zone-editor-actions">
+          <button
+            className="zone-action-btn"
+            onClick={() => setPoints((prev) => prev.slice(0, -1))}
+            disabled={points.length === 0}
+          >
+            Undo
+          </button>
+          <button
+            className="zone-action-btn primary"
+            onClick={finishShape}
+            disabled={points.length < 3 || draftZones.length >= MAX_ZONES}
+          >
+            Add shape
+          </button>
+        </div>
+
+        {draftZones.length === 0 && points.length === 0 && (
+          <div className="zone-editor-hint">
+            Tap the video to place corners. Without detect zones the whole frame is watched.
+          </div>
+        )}
+
+        {draftZones.length > 0 && (
+          <ul className="zone-list">
+            {draftZones.map((zone) => (
+              <li key={zone.id} className={`zone-list-item ${zone.kind}`}>
+                <input
+                  type="checkbox"
+                  checked={zone.enabled}
+                  onChange={() => toggleZone(zone.id)}
+                  title={zone.enabled ? 'Disable zone' : 'Enable zone'}
+                />
+                <input
+                  type="text"
+                  className="zone-name-input"
+                  value={zone.name}
+                  maxLength={50}
+                  onChange={(e) => renameZone(zone.id, e.target.value)}
+                />
+                <button
+                  className="zone-remove-btn"
+                  onClick={() => removeZone(zone.id)}
+                  title="Remove zone"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <div className="zone-editor-error">{error}</div>}
+
+        <div className="zone-editor-footer">
+          <button className="zone-action-btn" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </button>
+          <button
+            className="zone-action-btn primary"
+            onClick={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { RoomEvent, Track, type Room, type RemoteParticipant } from 'livekit-client';
+import { publishMessage } from '../lib/protocol';
+import { HealthMonitor, type CameraHealth, type LinkQuality } from '../services/cameraHealth';
+
+export interface UseCameraHealthOptions {
+  room: Room;
+  enabled?: boolean;
+  /** Clips not uploaded yet */
+  syncQueue: number;
+}
+
+const PUBLISH_INTERVAL_MS = 30_000;
+
+/**
+ * Periodically publish this camera's health to viewers over the data
+ * channel. The latest snapshot is also returned so the heartbeat can carry
+ * it to the server.
+ */
+export function useCameraHealth(options: UseCameraHealthOptions): RefObject<CameraHealth | null> {
+  const { room, enabled = true, syncQueue } = options;
+  const syncQueueRef = useRef(syncQueue);
+  const latestRef = useRef<CameraHealth | null>(null);
+
+  useEffect(() => {
+    syncQueueRef.current = syncQueue;
+  }, [syncQueue]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const monitor = new HealthMonitor();
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    const report = async () => {
+      const health = await monitor.snapshot({
+        videoTrack: room.localParticipant.getTrackPublication(Track.Source.Camera)?.videoTrack,
+        connectionQuality: room.localParticipant.connectionQuality as LinkQuality,
+        syncQueue: syncQueueRef.current,
+      });
+      if (cancelled) return;
+      latestRef.current = health;
+
+      try {
+        await publishMessage(room, { type: 'camera_health', health }, { reliable: false });
+      } catch (err) {
+        console.warn('[CameraHealth] Failed to publish:', err);
+      }
+    };
+
+    monitor.start().then(() => {
+      if (cancelled) return;
+      report();
+      interval = setInterval(report, PUBLISH_INTERVAL_MS);
+    });
+
+    // Viewers that just joined get a snapshot instead of waiting for the next tick
+    const handleParticipantConnected = (participant: RemoteParticipant) => {
+      if (participant.identity.startsWith('viewer_')) report();
+    };
+    room.on(RoomEvent.ParticipantConnected, handleParticipantConnected);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      monitor.stop();
+      room.off(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    };
+  }, [room, enabled]);
+
+  return latestRef;
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { syncService, type SyncStats } from '../services/syncService';
+import type { RecordedSegment } from '../services/segmentRecorder';
 
 export interface UseClipSyncOptions {
   roomId: string | null;
@@ -16,7 +17,10 @@ export interface UseClipSyncResult {
     confidence: number;
     deviceId: string;
     videoBlob: Blob;
+    videoParts?: Blob[];
+    eventIds?: string[];
   }) => Promise<void>;
+  queueSegment: (segment: RecordedSegment & { id: string; deviceId: string }) => Promise<void>;
   retryFailed: () => Promise<void>;
   clearSynced: () => Promise<void>;
   processQueue: () => Promise<void>;
@@ -85,6 +89,8 @@ export function useClipSync(options: UseClipSyncOptions): UseClipSyncResult {
       confidence: number;
       deviceId: string;
       videoBlob: Blob;
+      videoParts?: Blob[];
+      eventIds?: string[];
     }) => {
       if (!isInitialized) {
         console.warn('[useClipSync] Cannot queue clip - not initialized');
@@ -95,6 +101,23 @@ export function useClipSync(options: UseClipSyncOptions): UseClipSyncResult {
     [isInitialized]
   );
 
+  const queueSegment = useCallback(
+    async (segment: RecordedSegment & { id: string; deviceId: string }) => {
+      if (!isInitialized) {
+        console.warn('[useClipSync] Cannot queue segment - not initialized');
+        return;
+      }
+      await syncService.queueSegment({
+        id: segment.id,
+        timestamp: segment.startedAt,
+        endedAt: segment.endedAt,
+        deviceId: segment.deviceId,
+        videoBlob: segment.blob,
+      });
+    },
+    [isInitialized]
+  );
+
   const retryFailed = useCallback(async () => {
     if (!isInitialized) return;
     await syncService.retryFailed();
@@ -114,6 +137,7 @@ export function useClipSync(options: UseClipSyncOptions): UseClipSyncResult {
     stats,
     isInitialized,
     queueClip,
+    queueSegment,
     retryFailed,
     clearSynced,
     processQueue,
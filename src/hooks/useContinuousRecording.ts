@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+import { SegmentRecorder, type RecordedSegment } from '../services/segmentRecorder';
+
+export interface UseContinuousRecordingOptions {
+  /** Room has continuous recording on and the camera is running */
+  enabled: boolean;
+  videoStream: MediaStream | null;
+  audioStream: MediaStream | null;
+  onSegment: (segment: RecordedSegment) => void;
+}
+
+/**
+ * Record the camera around the clock as rolling segments. Restarts when
+ * the camera's tracks change (camera switch, resolution change), which
+ * closes the current segment early.
+ */
+export function useContinuousRecording(options: UseContinuousRecordingOptions): boolean {
+  const { enabled, videoStream, audioStream, onSegment } = options;
+  const [isRecording, setIsRecording] = useState(false);
+
+  const onSegmentRef = useRef(onSegment);
+  useEffect(() => {
+    onSegmentRef.current = onSegment;
+  }, [onSegment]);
+
+  useEffect(() => {
+    if (!enabled || !videoStream) return;
+
+    const stream = new MediaStream([
+      ...videoStream.getVideoTracks(),
+      ...(audioStream?.getAudioTracks() ?? []),
+    ]);
+    const recorder = new SegmentRecorder((segment) => onSegmentRef.current(segment));
+    recorder.start(stream);
+    setIsRecording(recorder.recording);
+
+    return () => {
+      recorder.stop();
+      setIsRecording(false);
+    };
+  }, [enabled, videoStream, audioStream]);
+
+  return isRecording;
+}
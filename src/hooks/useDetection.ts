@@ -1,15 +1,24 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
-import { Room, RoomEvent, DataPacket_Kind } from 'livekit-client';
+import type { Room } from 'livekit-client';
 import { api } from '../lib/api';
-import { MotionDetector } from '../services/motionDetector';
+import { onMessage, publishMessage, acknowledge } from '../lib/protocol';
+import type { MotionDetector, MotionZone } from '../services/motionDetector';
+import { createMotionDetector, type WorkerMotionDetector } from '../services/workerMotionDetector';
 import { SoundDetector } from '../services/soundDetector';
+import { SOUND_CLASSES } from '../services/soundClassifier';
+import { InactivityMonitor } from '../services/inactivityMonitor';
+import type { ArmingMode } from '../services/armSchedule';
 import { ClipRecorder, type StoredClip } from '../services/clipRecorder';
 import {
   EventManager,
   type DetectionSettings,
   type DetectionEvent,
+  type DetectionEpisode,
+  type EpisodePhase,
+  episodeDurationSeconds,
   sensitivityToMotionThreshold,
   sensitivityToSoundThreshold,
+  adaptationToLearningRate,
 } from '../services/eventManager';
 
 export interface UseDetectionOptions {
@@ -21,6 +30,10 @@ export interface UseDetectionOptions {
   audioStream: MediaStream | null;
   videoStream: MediaStream | null;
   enabled?: boolean;
+  /** Arming mode from the camera token or heartbeat; live changes arrive over the data channel */
+  armingMode?: ArmingMode;
+  /** Server settings version from the heartbeat; stored zones and settings reload when it changes */
+  settingsVersion?: number;
   onClipCaptured?: (clip: {
     id: string;
     type: 'motion' | 'sound';
@@ -28,6 +41,9 @@ export interface UseDetectionOptions {
     confidence: number;
     deviceId: string;
     videoBlob: Blob;
+    videoParts?: Blob[];
+    /** Server ids of every event the clip covers */
+    eventIds: string[];
   }) => void;
 }
 
@@ -35,6 +51,9 @@ export interface DetectionState {
   isActive: boolean;
   lastMotionEvent: DetectionEvent | null;
   lastSoundEvent: DetectionEvent | null;
+  /** Set while an inactivity alert is open */
+  lastInactivityEvent: DetectionEvent | null;
+  armingMode: ArmingMode;
   motionLevel: number;
   soundLevel: number;
   settings: DetectionSettings;
@@ -42,9 +61,21 @@ export interface DetectionState {
 }
 
 const DETECTION_INTERVAL = 200; // ms between detection checks
+const NOISE_FLOOR_REPORT_INTERVAL = 5000; // ms between noise floor updates to viewers
 
 export function useDetection(options: UseDetectionOptions) {
-  const { room, deviceId, roomId = null, videoElement, audioStream, videoStream, enabled = true, onClipCaptured } = options;
+  const {
+    room,
+    deviceId,
+    roomId = null,
+    videoElement,
+    audioStream,
+    videoStream,
+    enabled = true,
+    armingMode,
+    settingsVersion,
+    onClipCaptured,
+  } = options;
 
   // Use ref for callback to avoid recreating services when callback changes
   const onClipCapturedRef = useRef(onClipCaptured);
@@ -54,6 +85,8 @@ export function useDetection(options: UseDetectionOptions) {
     isActive: false,
     lastMotionEvent: null,
     lastSoundEvent: null,
+    lastInactivityEvent: null,
+    armingMode: armingMode ?? 'away',
     motionLevel: 0,
     soundLevel: 0,
     settings: {
@@ -62,41 +95,71 @@ export function useDetection(options: UseDetectionOptions) {
       motionSensitivity: 0.5,
       soundSensitivity: 0.5,
       cooldownSeconds: 30,
+      maxClipSeconds: 120,
+      motionMode: 'diff',
+      backgroundAdaptation: 0.5,
+      suppressLightingChanges: true,
+      soundClasses: [...SOUND_CLASSES],
+      adaptiveNoiseFloor: true,
+      soundLowCutHz: 0,
+      soundHighCutHz: 0,
     },
     isCapturing: false,
   });
 
-  const motionDetectorRef = useRef<MotionDetector | null>(null);
+  const motionDetectorRef = useRef<MotionDetector | WorkerMotionDetector | null>(null);
   const soundDetectorRef = useRef<SoundDetector | null>(null);
   const clipRecorderRef = useRef<ClipRecorder | null>(null);
+  const inactivityMonitorRef = useRef<InactivityMonitor | null>(null);
   const eventManagerRef = useRef<EventManager | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const lastCheckRef = useRef<number>(0);
+  const lastFloorReportRef = useRef<number>(0);
+  // Worker analysis is async; skip frames while one is still being scored
+  const motionBusyRef = useRef(false);
+  // Server event id per episode, resolved once the start event is persisted
+  const episodeEventIdsRef = useRef(new Map<string, Promise<string | null>>());
+  // Server event ids for the clip being recorded; events merged into it add theirs
+  const clipEventIdsRef = useRef<Promise<string | null>[]>([]);
+  // Kept outside the detector so zones survive service re-creation
+  const zonesRef = useRef<MotionZone[]>([]);
+  // Last settings applied, so re-created services keep them
+  const settingsRef = useRef<DetectionSettings | null>(null);
+
+  // Record a clip for an episode, or extend the clip already being recorded
+  const recordClip = useCallback(async (
+    type: 'motion' | 'sound',
+    confidence: number,
+    clipDeviceId: string,
+    episodeId: string
+  ) => {
+    const recorder = clipRecorderRef.current;
+    if (!recorder?.buffering) return;
+
+    const eventId = episodeEventIdsRef.current.get(episodeId);
+    if (recorder.extendCapture(confidence)) {
+      if (eventId && !clipEventIdsRef.current.includes(eventId)) {
+        clipEventIdsRef.current.push(eventId);
+      }
+      return;
+    }
 
-  // Handle detection event
-  const handleEvent = useCallback(async (event: DetectionEvent) => {
-    console.log('[useDetection] Event detected:', event);
-
-    setState((prev) => ({
-      ...prev,
-      isCapturing: true,
-      ...(event.type === 'motion'
-        ? { lastMotionEvent: event }
-        : { lastSoundEvent: event }),
-    }));
+    const eventIds = eventId ? [eventId] : [];
+    clipEventIdsRef.current = eventIds;
+    setState((prev) => ({ ...prev, isCapturing: true }));
 
-    // Capture clip
-    const clip = await clipRecorderRef.current?.captureEvent(
-      event.type,
-      event.confidence,
-      event.deviceId,
+    const clip = await recorder.captureEvent(
+      type,
+      confidence,
+      clipDeviceId,
       videoElement || undefined
     );
 
-    setState((prev) => ({ ...prev, isCapturing: false }));
+    setState((prev) => ({ ...prev, isCapturing: recorder.capturing }));
 
     // Notify for sync if clip was captured
     if (clip && clip.videoBlob && onClipCapturedRef.current) {
+      const ids = (await Promise.all(eventIds)).filter((id): id is string => !!id);
       onClipCapturedRef.current({
         id: clip.id,
         type: clip.type,
@@ -104,20 +167,32 @@ export function useDetection(options: UseDetectionOptions) {
         confidence: clip.confidence,
         deviceId: clip.deviceId,
         videoBlob: clip.videoBlob,
+        videoParts: clip.videoParts,
+        eventIds: ids,
       });
     }
+  }, [videoElement]);
 
-    // Send event to viewers via LiveKit data channel
-    if (room && eventManagerRef.current) {
-      const message = eventManagerRef.current.createEventMessage(event);
-      const encoder = new TextEncoder();
-      const data = encoder.encode(message);
+  // Handle detection event
+  const handleEvent = useCallback(async (event: DetectionEvent) => {
+    console.log('[useDetection] Event detected:', event);
 
+    if (event.type === 'inactivity') {
+      setState((prev) => ({ ...prev, lastInactivityEvent: event }));
+    } else {
+      const type = event.type;
+      setState((prev) => ({
+        ...prev,
+        ...(type === 'motion'
+          ? { lastMotionEvent: event }
+          : { lastSoundEvent: event }),
+      }));
+    }
+
+    // Send event to viewers via LiveKit data channel
+    if (room) {
       try {
-        await room.localParticipant.publishData(data, {
-          reliable: true,
-          topic: 'detection',
-        });
+        await publishMessage(room, { type: 'detection_event', event });
         console.log('[useDetection] Sent event to viewers');
       } catch (err) {
         console.error('[useDetection] Failed to send event:', err);
@@ -125,55 +200,220 @@ export function useDetection(options: UseDetectionOptions) {
     }
 
     // Persist event server-side (triggers push notification + event history).
-    // Fire-and-forget: detection must not stall on a flaky uplink.
+    // Fire-and-forget: detection must not stall on a flaky uplink. The
+    // snapshot goes up right behind the event so the push can show it.
     if (roomId) {
-      api
-        .createEvent({
-          roomId,
-          type: event.type,
-          deviceId: event.deviceId,
-          confidence: event.confidence,
+      const recorder = clipRecorderRef.current;
+      const snapshot = videoElement && recorder
+        ? recorder.captureScreenshot(videoElement)
+        : Promise.resolve(null);
+      const eventId = snapshot
+        .then(async (image) => {
+          const { event: created } = await api.createEvent({
+            roomId,
+            type: event.type,
+            deviceId: event.deviceId,
+            confidence: event.confidence,
+            zoneId: event.zoneId,
+            zoneName: event.zoneName,
+            soundClass: event.soundClass,
+            thumbnailPending: !!image,
+          });
+          if (image) {
+            api.uploadEventThumbnail(created.id, image).catch((err) => {
+              console.error('[useDetection] Failed to upload event snapshot:', err);
+            });
+          }
+          return created.id;
         })
         .catch((err) => {
           console.error('[useDetection] Failed to persist event:', err);
+          return null;
+        });
+      episodeEventIdsRef.current.set(event.episodeId, eventId);
+    }
+
+    // Capture clip; an event during another clip is merged into it
+    if (event.type !== 'inactivity') {
+      await recordClip(event.type, event.confidence, event.deviceId, event.episodeId);
+    }
+  }, [room, roomId, videoElement, recordClip]);
+
+  // Activity within an open episode keeps its clip going, or starts a new
+  // one if the last clip already closed
+  const handleActivity = useCallback((episode: DetectionEpisode, confidence: number) => {
+    if (episode.type === 'inactivity') return;
+    recordClip(episode.type, confidence, episode.deviceId, episode.id);
+  }, [recordClip]);
+
+  // Report episode progress to viewers and to the persisted start event
+  const handleEpisodeChange = useCallback((episode: DetectionEpisode, phase: EpisodePhase) => {
+    if (room) {
+      publishMessage(room, { type: 'detection_episode', phase, episode }).catch((err) => {
+          console.error('[useDetection] Failed to send episode update:', err);
         });
     }
-  }, [room, roomId, videoElement]);
+
+    const eventId = episodeEventIdsRef.current.get(episode.id);
+    if (phase === 'end') {
+      episodeEventIdsRef.current.delete(episode.id);
+    }
+    eventId
+      ?.then((id) => {
+        if (!id) return;
+        return api.updateEventEpisode(id, {
+          durationSeconds: episodeDurationSeconds(episode),
+          peakConfidence: episode.peakConfidence,
+          averageConfidence: episode.averageConfidence,
+          ended: phase === 'end',
+        });
+      })
+      .catch((err) => {
+        console.error('[useDetection] Failed to persist episode:', err);
+      });
+  }, [room]);
 
   // Handle settings received from viewer
   const handleSettingsReceived = useCallback((settings: DetectionSettings) => {
+    settingsRef.current = settings;
     setState((prev) => ({ ...prev, settings }));
+    // Cameras on older settings have no maxClipSeconds yet
+    if (settings.maxClipSeconds) {
+      clipRecorderRef.current?.updateConfig({ maxClipSeconds: settings.maxClipSeconds });
+    }
 
     // Update detector thresholds
     if (motionDetectorRef.current) {
       motionDetectorRef.current.updateConfig({
         motionThreshold: sensitivityToMotionThreshold(settings.motionSensitivity),
+        mode: settings.motionMode,
+        learningRate: adaptationToLearningRate(settings.backgroundAdaptation),
+        suppressLightingChanges: settings.suppressLightingChanges,
       });
     }
     if (soundDetectorRef.current) {
       soundDetectorRef.current.updateConfig({
         volumeThreshold: sensitivityToSoundThreshold(settings.soundSensitivity),
+        adaptiveFloor: settings.adaptiveNoiseFloor,
+        lowCutHz: settings.soundLowCutHz,
+        highCutHz: settings.soundHighCutHz,
       });
     }
   }, []);
 
+  // Handle motion zones received from viewer
+  const handleZonesReceived = useCallback((zones: MotionZone[]) => {
+    zonesRef.current = zones;
+    motionDetectorRef.current?.updateConfig({ zones });
+  }, []);
+
+  const handleArmingModeChanged = useCallback((mode: ArmingMode) => {
+    setState((prev) => ({ ...prev, armingMode: mode }));
+  }, []);
+
+  // Fetch room-level config (arming mode, arm schedule, inactivity alert) from the server
+  const loadRoomConfig = useCallback(() => {
+    if (!roomId) return;
+    api
+      .getRoomCameraConfig(roomId, { asDevice: true })
+      .then(({ config }) => {
+        eventManagerRef.current?.setArmingMode(config.mode);
+        eventManagerRef.current?.setArmSchedule(config.schedule);
+        inactivityMonitorRef.current?.updateConfig({
+          ...config.inactivity,
+          timezone: config.schedule.timezone,
+        });
+      })
+      .catch((err) => {
+        console.error('[useDetection] Failed to load room config:', err);
+      });
+  }, [roomId]);
+
   // Initialize services
   useEffect(() => {
     if (!deviceId) return;
 
-    motionDetectorRef.current = new MotionDetector();
+    motionDetectorRef.current = createMotionDetector({ zones: zonesRef.current });
     soundDetectorRef.current = new SoundDetector();
     clipRecorderRef.current = new ClipRecorder();
+    inactivityMonitorRef.current = new InactivityMonitor();
     eventManagerRef.current = new EventManager(deviceId, {
       onEvent: handleEvent,
+      onEpisodeChange: handleEpisodeChange,
+      onActivity: handleActivity,
       onSettingsReceived: handleSettingsReceived,
+      onZonesReceived: handleZonesReceived,
+      onRoomConfigChanged: loadRoomConfig,
+      onArmingModeChanged: handleArmingModeChanged,
     });
+    if (settingsRef.current) {
+      eventManagerRef.current.updateSettings(settingsRef.current);
+      handleSettingsReceived(settingsRef.current);
+    }
+    loadRoomConfig();
 
     return () => {
+      eventManagerRef.current?.endEpisodes();
+      motionDetectorRef.current?.dispose();
       soundDetectorRef.current?.disconnect();
       clipRecorderRef.current?.stopBuffering();
     };
-  }, [deviceId, handleEvent, handleSettingsReceived]);
+  }, [
+    deviceId,
+    handleEvent,
+    handleEpisodeChange,
+    handleActivity,
+    handleSettingsReceived,
+    handleZonesReceived,
+    handleArmingModeChanged,
+    loadRoomConfig,
+  ]);
+
+  // A refreshed token or heartbeat carries the current mode, covering pushes missed while offline
+  useEffect(() => {
+    if (armingMode) eventManagerRef.current?.setArmingMode(armingMode);
+  }, [deviceId, armingMode]);
+
+  // Load stored motion zones; live edits then arrive over the data channel
+  useEffect(() => {
+    if (!deviceId || !roomId) return;
+    let cancelled = false;
+
+    api
+      .getDeviceZones(deviceId, { asDevice: true })
+      .then(({ zones }) => {
+        if (!cancelled) handleZonesReceived(zones);
+      })
+      .catch((err) => {
+        console.error('[useDetection] Failed to load motion zones:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [deviceId, roomId, settingsVersion, handleZonesReceived]);
+
+  // Load stored detection settings; the server is the source of truth and
+  // viewer messages only deliver edits live
+  useEffect(() => {
+    if (!deviceId || !roomId) return;
+    let cancelled = false;
+
+    api
+      .getDeviceSettings(deviceId, { asDevice: true })
+      .then(({ settings }) => {
+        if (cancelled) return;
+        eventManagerRef.current?.updateSettings(settings);
+        handleSettingsReceived(settings);
+      })
+      .catch((err) => {
+        console.error('[useDetection] Failed to load detection settings:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [deviceId, roomId, settingsVersion, handleSettingsReceived]);
 
   // Connect audio analyzer
   useEffect(() => {
@@ -201,29 +441,28 @@ export function useDetection(options: UseDetectionOptions) {
     };
   }, [enabled, videoStream]);
 
-  // Listen for settings messages from viewers
+  // Listen for settings messages from viewers, and server pushes (no sender)
   useEffect(() => {
     if (!room) return;
 
-    const handleData = (
-      payload: Uint8Array,
-      participant: { identity: string } | undefined,
-      _kind?: DataPacket_Kind,
-      topic?: string
-    ) => {
-      if (topic !== 'detection') return;
-      if (!participant?.identity.startsWith('viewer_')) return;
-
-      const decoder = new TextDecoder();
-      const message = decoder.decode(payload);
-      eventManagerRef.current?.handleSettingsMessage(message);
-    };
+    return onMessage(room, (message, sender) => {
+      if (sender && !sender.identity.startsWith('viewer_')) return;
+      const manager = eventManagerRef.current;
+      if (!manager?.handleMessage(message)) return;
 
-    room.on(RoomEvent.DataReceived, handleData);
+      acknowledge(room, message, sender).catch((err) => {
+        console.error('[useDetection] Failed to acknowledge message:', err);
+      });
 
-    return () => {
-      room.off(RoomEvent.DataReceived, handleData);
-    };
+      // Echo what the camera now runs with so every viewer stays in sync
+      if (message.type === 'detection_settings') {
+        publishMessage(room, { type: 'detection_settings', settings: manager.getSettings() }).catch(
+          (err) => {
+            console.error('[useDetection] Failed to send settings:', err);
+          }
+        );
+      }
+    });
   }, [room]);
 
   // Main detection loop
@@ -235,24 +474,58 @@ export function useDetection(options: UseDetectionOptions) {
 
     setState((prev) => ({ ...prev, isActive: true }));
 
+    // Time spent paused or with motion detection off doesn't count as inactivity
+    if (inactivityMonitorRef.current?.reset()) {
+      eventManagerRef.current?.clearInactivity();
+      setState((prev) => ({ ...prev, lastInactivityEvent: null }));
+    }
+
     const runDetection = () => {
       const now = Date.now();
 
       if (now - lastCheckRef.current >= DETECTION_INTERVAL) {
         lastCheckRef.current = now;
+        eventManagerRef.current?.checkEpisodes(now);
 
         // Motion detection
+        const motionDetector = motionDetectorRef.current;
         if (
-          motionDetectorRef.current &&
+          motionDetector &&
+          !motionBusyRef.current &&
           state.settings.motionEnabled &&
           videoElement.readyState >= 2
         ) {
-          const motionResult = motionDetectorRef.current.analyze(videoElement);
-          setState((prev) => ({ ...prev, motionLevel: motionResult.score }));
+          motionBusyRef.current = true;
+          Promise.resolve(motionDetector.analyze(videoElement))
+            .then((motionResult) => {
+              setState((prev) => ({ ...prev, motionLevel: motionResult.score }));
+
+              if (motionResult.hasMotion && inactivityMonitorRef.current?.recordMotion()) {
+                eventManagerRef.current?.clearInactivity();
+                setState((prev) => ({ ...prev, lastInactivityEvent: null }));
+              }
+
+              if (motionResult.hasMotion && eventManagerRef.current) {
+                eventManagerRef.current.handleDetection('motion', motionResult.confidence, {
+                  zoneId: motionResult.zoneId,
+                  zoneName: motionResult.zoneName,
+                });
+              }
+            })
+            .catch((err) => {
+              console.error('[useDetection] Motion analysis failed:', err);
+            })
+            .finally(() => {
+              motionBusyRef.current = false;
+            });
+        }
 
-          if (motionResult.hasMotion && eventManagerRef.current) {
-            eventManagerRef.current.handleDetection('motion', motionResult.confidence);
-          }
+        // Inactivity needs motion detection to know the pet moved
+        const inactivityMonitor = inactivityMonitorRef.current;
+        if (state.settings.motionEnabled && inactivityMonitor?.check(now) && eventManagerRef.current) {
+          eventManagerRef.current.handleDetection('inactivity', 1).then((reported) => {
+            if (!reported) inactivityMonitor.cancelAlert();
+          });
         }
 
         // Sound detection
@@ -260,10 +533,26 @@ export function useDetection(options: UseDetectionOptions) {
           const soundResult = soundDetectorRef.current.analyze();
           setState((prev) => ({ ...prev, soundLevel: soundResult.volume }));
 
-          if (soundResult.hasSound && eventManagerRef.current) {
-            // Use volume as confidence (normalized)
-            const confidence = Math.min(soundResult.volume / 0.3, 1);
-            eventManagerRef.current.handleDetection('sound', confidence);
+          // Let viewers show the learned ambient level
+          if (room && now - lastFloorReportRef.current >= NOISE_FLOOR_REPORT_INTERVAL) {
+            lastFloorReportRef.current = now;
+            publishMessage(
+              room,
+              { type: 'noise_floor', noiseFloor: soundResult.noiseFloor },
+              { reliable: false }
+            ).catch((err) => {
+              console.error('[useDetection] Failed to send noise floor:', err);
+            });
+          }
+
+          // Events fire once the episode is labelled, not on the first loud frame
+          const { classification } = soundResult;
+          if (classification && eventManagerRef.current) {
+            // Use peak volume as confidence (normalized)
+            const confidence = Math.min(classification.peakVolume / 0.3, 1);
+            eventManagerRef.current.handleDetection('sound', confidence, {
+              soundClass: classification.soundClass,
+            });
           }
         }
       }
@@ -280,11 +569,12 @@ export function useDetection(options: UseDetectionOptions) {
       }
       setState((prev) => ({ ...prev, isActive: false }));
     };
-  }, [enabled, videoElement, state.settings.motionEnabled, state.settings.soundEnabled]);
+  }, [room, enabled, videoElement, state.settings.motionEnabled, state.settings.soundEnabled]);
 
   // Update settings
   const updateSettings = useCallback((settings: Partial<DetectionSettings>) => {
     eventManagerRef.current?.updateSettings(settings);
+    settingsRef.current = eventManagerRef.current?.getSettings() ?? settingsRef.current;
     setState((prev) => ({
       ...prev,
       settings: { ...prev.settings, ...settings },
@@ -296,21 +586,42 @@ export function useDetection(options: UseDetectionOptions) {
         motionThreshold: sensitivityToMotionThreshold(settings.motionSensitivity),
       });
     }
+    if (settings.motionMode !== undefined && motionDetectorRef.current) {
+      motionDetectorRef.current.updateConfig({ mode: settings.motionMode });
+    }
+    if (settings.backgroundAdaptation !== undefined && motionDetectorRef.current) {
+      motionDetectorRef.current.updateConfig({
+        learningRate: adaptationToLearningRate(settings.backgroundAdaptation),
+      });
+    }
+    if (settings.suppressLightingChanges !== undefined && motionDetectorRef.current) {
+      motionDetectorRef.current.updateConfig({
+        suppressLightingChanges: settings.suppressLightingChanges,
+      });
+    }
+    if (settings.maxClipSeconds !== undefined) {
+      clipRecorderRef.current?.updateConfig({ maxClipSeconds: settings.maxClipSeconds });
+    }
     if (settings.soundSensitivity !== undefined && soundDetectorRef.current) {
       soundDetectorRef.current.updateConfig({
         volumeThreshold: sensitivityToSoundThreshold(settings.soundSensitivity),
       });
     }
+    if (settings.adaptiveNoiseFloor !== undefined && soundDetectorRef.current) {
+      soundDetectorRef.current.updateConfig({ adaptiveFloor: settings.adaptiveNoiseFloor });
+    }
+    if (settings.soundLowCutHz !== undefined && soundDetectorRef.current) {
+      soundDetectorRef.current.updateConfig({ lowCutHz: settings.soundLowCutHz });
+    }
+    if (settings.soundHighCutHz !== undefined && soundDetectorRef.current) {
+      soundDetectorRef.current.updateConfig({ highCutHz: settings.soundHighCutHz });
+    }
 
     // Send updated settings to viewers
     if (room && eventManagerRef.current) {
-      const message = eventManagerRef.current.createSettingsMessage();
-      const encoder = new TextEncoder();
-      const data = encoder.encode(message);
-
-      room.localParticipant.publishData(data, {
-        reliable: true,
-        topic: 'detection',
+      publishMessage(room, {
+        type: 'detection_settings',
+        settings: eventManagerRef.current.getSettings(),
       }).catch((err) => {
         console.error('[useDetection] Failed to send settings:', err);
       });
@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { api, ApiError, type HeartbeatDirectives } from '../lib/api';
+import type { CameraHealth } from '../services/cameraHealth';
+
+export interface UseDeviceHeartbeatOptions {
+  deviceId: string;
+  enabled?: boolean;
+  /** Latest telemetry, sent along with each beat when available */
+  health?: RefObject<CameraHealth | null>;
+  /** The server no longer accepts this camera's credentials */
+  onRepairRequired?: () => void;
+}
+
+// Well inside the server's offline timeout (DEVICE_OFFLINE_AFTER_SECONDS)
+const HEARTBEAT_INTERVAL_MS = 60_000;
+
+/**
+ * Keep the camera marked online and pick up server-side changes the data
+ * channel may have missed: arming mode and settings version. Returns the
+ * directives from the most recent successful beat.
+ */
+export function useDeviceHeartbeat(options: UseDeviceHeartbeatOptions): HeartbeatDirectives | null {
+  const { deviceId, enabled = true, health, onRepairRequired } = options;
+  const [directives, setDirectives] = useState<HeartbeatDirectives | null>(null);
+
+  const onRepairRequiredRef = useRef(onRepairRequired);
+  useEffect(() => {
+    onRepairRequiredRef.current = onRepairRequired;
+  }, [onRepairRequired]);
+
+  useEffect(() => {
+    if (!enabled || !deviceId) return;
+    let cancelled = false;
+
+    const beat = async () => {
+      try {
+        const result = await api.sendHeartbeat(deviceId, health?.current);
+        if (cancelled) return;
+        if (result.repairRequired) {
+          onRepairRequiredRef.current?.();
+          return;
+        }
+        // Keep the same object while nothing changed so consumers don't rerun
+        setDirectives((prev) =>
+          prev &&
+          prev.armingMode === result.armingMode &&
+          prev.armed === result.armed &&
+          prev.settingsVersion === result.settingsVersion
+            ? prev
+            : result
+        );
+      } catch (err) {
+        if (cancelled) return;
+        if (err instanceof ApiError && err.repairRequired) {
+          onRepairRequiredRef.current?.();
+          return;
+        }
+        console.warn('[Heartbeat] Failed:', err);
+      }
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [deviceId, enabled, health]);
+
+  return directives;
+}
@@ -1,15 +1,24 @@
 import { deviceAuthHeader } from './deviceAuth';
+import type { MotionZone } from '../services/motionDetector';
+import type { SoundClass } from '../services/soundClassifier';
+import type { InactivityConfig } from '../services/inactivityMonitor';
+import type { ArmSchedule, ArmWindow, ArmingMode } from '../services/armSchedule';
+import type { DetectionSettings } from '../services/eventManager';
+import type { CameraHealth } from '../services/cameraHealth';
 
 // Use relative URL - Vite proxy handles /api in dev, same-origin in production
 const API_URL = '';
 
 export class ApiError extends Error {
   status: number;
+  /** Set on device requests the server rejected for good; the camera must pair again */
+  repairRequired: boolean;
 
-  constructor(message: string, status: number) {
+  constructor(message: string, status: number, repairRequired = false) {
     super(message);
     this.name = 'ApiError';
     this.status = status;
+    this.repairRequired = repairRequired;
   }
 }
 
@@ -33,16 +42,59 @@ interface Room {
   name: string;
   livekitRoom: string;
   deviceCount?: number;
+  armed?: boolean;
+  mode?: ArmingMode;
+  inactivity?: InactivityConfig;
+  createdAt: string;
+}
+
+interface RoomCameraConfig {
+  mode: ArmingMode;
+  roomMode: ArmingMode | null; // null = follows the account
+  accountMode: ArmingMode;
+  schedule: ArmSchedule & { armed: boolean };
+  inactivity: InactivityConfig;
+  recording: { continuous: boolean; retentionHours: number };
+}
+
+interface HeartbeatDirectives {
+  armingMode: ArmingMode;
+  armed: boolean;
+  /** Changes whenever detection settings or motion zones are edited */
+  settingsVersion: number;
+  /** Record rolling segments for the timeline */
+  continuousRecording: boolean;
+  repairRequired: boolean;
+}
+
+interface Device {
+  id: string;
+  name: string;
+  deviceType: string;
+  participantId: string;
+  isOnline: boolean;
+  lastSeen: string | null;
+  roomId: string | null;
+  room?: { id: string; name: string } | null;
   createdAt: string;
 }
 
 interface DetectionEvent {
   id: string;
-  type: 'motion' | 'sound';
+  type: 'motion' | 'sound' | 'inactivity';
   timestamp: string;
   deviceId: string;
   confidence: number | null;
+  zoneId: string | null;
+  zoneName: string | null;
+  soundClass: SoundClass | null;
+  endedAt: string | null;
+  duration: number | null; // seconds
+  peakConfidence: number | null;
+  averageConfidence: number | null;
   thumbnailPath: string | null;
+  /** Where to load the event's snapshot from; signed, so usable as an img src */
+  thumbnailUrl: string | null;
   notificationSent: boolean;
   markedFalsePositive: boolean;
   room?: {
@@ -53,6 +105,7 @@ interface DetectionEvent {
 
 interface EventsListResponse {
   events: DetectionEvent[];
+  activeMinutes: number;
   pagination: {
     total: number;
     limit: number;
@@ -63,7 +116,7 @@ interface EventsListResponse {
 
 interface EventsListParams {
   roomId?: string;
-  type?: 'motion' | 'sound';
+  type?: 'motion' | 'sound' | 'inactivity';
   deviceId?: string;
   startDate?: string;
   endDate?: string;
@@ -77,6 +130,7 @@ interface EventStats {
   last7d: number;
   byType: Record<string, number>;
   byDevice: Record<string, number>;
+  activeMinutes: { total: number; last24h: number; last7d: number };
 }
 
 interface Clip {
@@ -92,10 +146,47 @@ interface Clip {
   deviceId: string;
   roomId: string;
   room?: { id: string; name: string };
+  /** Later parts of a long clip; the clip's own file is part 0 */
+  parts?: ClipPart[];
+  /** Events the clip covers (single-clip fetch only) */
+  events?: { id: string; type: string; timestamp: string }[];
+  /** Snapshot of the first event the clip recorded */
+  thumbnailUrl: string | null;
   recordedAt: string;
   createdAt: string;
 }
 
+interface ClipPart {
+  index: number;
+  duration: number | null;
+  fileSize: number;
+}
+
+/** A resumable clip upload; chunks go up from receivedBytes */
+interface ClipUpload {
+  id: string;
+  status: 'open' | 'assembling' | 'complete';
+  totalSize: number;
+  /** Every chunk but the last must be exactly this long */
+  chunkSize: number;
+  receivedBytes: number;
+  expiresAt: string;
+}
+
+interface NewClipUpload {
+  roomId: string;
+  deviceId: string;
+  detectionType: 'motion' | 'sound';
+  confidence: number;
+  recordedAt: string;
+  mimeType: string;
+  size: number;
+  eventIds?: string[];
+  /** Set together for a later part of an existing clip */
+  clipId?: string;
+  partIndex?: number;
+}
+
 interface ClipsListParams {
   roomId?: string;
   deviceId?: string;
@@ -111,6 +202,27 @@ interface ClipsListResponse {
   offset: number;
 }
 
+/** One continuous-recording segment */
+interface Recording {
+  id: string;
+  filename: string;
+  fileSize: number | null;
+  duration: number | null;
+  startedAt: string;
+  endedAt: string;
+  mimeType: string;
+  roomId: string;
+  deviceId: string | null;
+  createdAt: string;
+}
+
+interface RecordingsListParams {
+  roomId: string;
+  deviceId?: string;
+  from?: string;
+  to?: string;
+}
+
 // Token getter function - set by Clerk's useAuth hook
 type TokenGetter = () => Promise<string | null>;
 let tokenGetter: TokenGetter | null = null;
@@ -162,7 +274,35 @@ class ApiClient {
       const error = await response
         .json()
         .catch(() => ({ error: 'Request failed' }));
-      throw new ApiError(error.error || 'Request failed', response.status);
+      throw new ApiError(
+        error.error || 'Request failed',
+        response.status,
+        error.repairRequired === true
+      );
+    }
+
+    return response.json();
+  }
+
+  /** Multipart upload from the camera; the browser sets the boundary header */
+  private async upload<T>(endpoint: string, formData: FormData): Promise<T> {
+    const headers: Record<string, string> = {};
+    const authHeader = await this.getAuthHeader(true);
+    if (authHeader) {
+      headers['Authorization'] = authHeader;
+    }
+
+    const response = await fetch(`${API_URL}${endpoint}`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const error = await response
+        .json()
+        .catch(() => ({ error: 'Upload failed' }));
+      throw new ApiError(error.error || 'Upload failed', response.status);
     }
 
     return response.json();
@@ -184,7 +324,9 @@ class ApiClient {
   }
 
   // Fresh camera token using stored paired-device credentials
-  async getDeviceCameraToken(): Promise<TokenResponse & { roomId: string; deviceName: string }> {
+  async getDeviceCameraToken(): Promise<
+    TokenResponse & { roomId: string; deviceName: string; armingMode: ArmingMode }
+  > {
     return this.request(
       '/api/tokens/device',
       { method: 'POST' },
@@ -208,6 +350,123 @@ class ApiClient {
     await this.request(`/api/rooms/${id}`, { method: 'DELETE' });
   }
 
+  // Devices
+  async updateRoom(
+    id: string,
+    data: {
+      name?: string;
+      inactivityMinutes?: number | null;
+      inactivityStart?: string | null;
+      inactivityEnd?: string | null;
+      timezone?: string;
+      armSchedule?: ArmWindow[] | null;
+      continuousRecording?: boolean;
+      recordingRetentionHours?: number;
+    }
+  ): Promise<{ room: Room }> {
+    return this.request<{ room: Room }>(`/api/rooms/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getRoomCameraConfig(
+    roomId: string,
+    { asDevice = false }: { asDevice?: boolean } = {}
+  ): Promise<{ config: RoomCameraConfig }> {
+    return this.request<{ config: RoomCameraConfig }>(
+      `/api/rooms/${roomId}/camera-config`,
+      {},
+      { preferDevice: asDevice }
+    );
+  }
+
+  // Arming mode: account-wide, with optional per-room overrides
+  async getArmingMode(): Promise<{
+    mode: ArmingMode;
+    rooms: { id: string; name: string; mode: ArmingMode; roomMode: ArmingMode | null }[];
+  }> {
+    return this.request('/api/arming');
+  }
+
+  async setArmingMode(mode: ArmingMode): Promise<{ mode: ArmingMode }> {
+    return this.request('/api/arming', {
+      method: 'PUT',
+      body: JSON.stringify({ mode }),
+    });
+  }
+
+  async setRoomArmingMode(
+    roomId: string,
+    mode: ArmingMode | null
+  ): Promise<{ mode: ArmingMode; roomMode: ArmingMode | null }> {
+    return this.request(`/api/rooms/${roomId}/mode`, {
+      method: 'PUT',
+      body: JSON.stringify({ mode }),
+    });
+  }
+
+  async getDevices(): Promise<{ devices: Device[] }> {
+    return this.request<{ devices: Device[] }>('/api/devices');
+  }
+
+  // Motion zones are edited by the viewer and read by the camera itself
+  async getDeviceZones(
+    deviceId: string,
+    { asDevice = false }: { asDevice?: boolean } = {}
+  ): Promise<{ zones: MotionZone[] }> {
+    return this.request<{ zones: MotionZone[] }>(
+      `/api/devices/${deviceId}/zones`,
+      {},
+      { preferDevice: asDevice }
+    );
+  }
+
+  async updateDeviceZones(deviceId: string, zones: MotionZone[]): Promise<{ zones: MotionZone[] }> {
+    return this.request<{ zones: MotionZone[] }>(`/api/devices/${deviceId}/zones`, {
+      method: 'PUT',
+      body: JSON.stringify({ zones }),
+    });
+  }
+
+  // Detection settings are stored per camera; viewers edit, the camera loads them
+  async getDeviceSettings(
+    deviceId: string,
+    { asDevice = false }: { asDevice?: boolean } = {}
+  ): Promise<{ settings: DetectionSettings }> {
+    return this.request<{ settings: DetectionSettings }>(
+      `/api/devices/${deviceId}/settings`,
+      {},
+      { preferDevice: asDevice }
+    );
+  }
+
+  async updateDeviceSettings(
+    deviceId: string,
+    changes: Partial<DetectionSettings>
+  ): Promise<{ settings: DetectionSettings }> {
+    return this.request<{ settings: DetectionSettings }>(`/api/devices/${deviceId}/settings`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  // Camera heartbeat; the response says what the camera should be running with
+  async sendHeartbeat(deviceId: string, health?: CameraHealth | null): Promise<HeartbeatDirectives> {
+    return this.request<HeartbeatDirectives>(
+      `/api/devices/${deviceId}/heartbeat`,
+      { method: 'POST', body: JSON.stringify(health ? { health } : {}) },
+      { preferDevice: true }
+    );
+  }
+
+  // Latest health snapshot, stored from heartbeats
+  async getDeviceHealth(
+    deviceId: string
+  ): Promise<{ health: CameraHealth | null; reportedAt: string | null }> {
+    return this.request(`/api/devices/${deviceId}/health`);
+  }
+
   // Pairing
   async generatePairingCode(roomId: string): Promise<{
     code: string;
@@ -263,10 +522,14 @@ class ApiClient {
 
   async createEvent(data: {
     roomId: string;
-    type: 'motion' | 'sound';
+    type: 'motion' | 'sound' | 'inactivity';
     deviceId: string;
     confidence?: number;
-    thumbnailPath?: string;
+    /** A snapshot follows via uploadEventThumbnail; the push waits briefly for it */
+    thumbnailPending?: boolean;
+    zoneId?: string | null;
+    zoneName?: string | null;
+    soundClass?: SoundClass | null;
   }): Promise<{ event: DetectionEvent }> {
     return this.request<{ event: DetectionEvent }>(
       '/api/events',
@@ -278,6 +541,21 @@ class ApiClient {
     );
   }
 
+  async uploadEventThumbnail(
+    id: string,
+    image: Blob
+  ): Promise<{ event: Pick<DetectionEvent, 'id' | 'thumbnailPath' | 'thumbnailUrl'> }> {
+    return this.request(
+      `/api/events/${id}/thumbnail`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'image/jpeg' },
+        body: image,
+      },
+      { preferDevice: true }
+    );
+  }
+
   async updateEvent(
     id: string,
     data: { markedFalsePositive?: boolean; notificationSent?: boolean }
@@ -288,6 +566,25 @@ class ApiClient {
     });
   }
 
+  async updateEventEpisode(
+    id: string,
+    data: {
+      durationSeconds: number;
+      peakConfidence: number;
+      averageConfidence: number;
+      ended: boolean;
+    }
+  ): Promise<{ event: Pick<DetectionEvent, 'id' | 'endedAt' | 'duration'> }> {
+    return this.request(
+      `/api/events/${id}/episode`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      },
+      { preferDevice: true }
+    );
+  }
+
   async deleteEvent(id: string): Promise<{ success: boolean }> {
     return this.request<{ success: boolean }>(`/api/events/${id}`, {
       method: 'DELETE',
@@ -327,28 +624,52 @@ class ApiClient {
   }
 
   // Clips
-  async uploadClip(formData: FormData): Promise<{ clip: Clip }> {
-    const headers: Record<string, string> = {};
-    const authHeader = await this.getAuthHeader(true);
-    if (authHeader) {
-      headers['Authorization'] = authHeader;
-    }
-    // Don't set Content-Type - let browser set it with boundary for multipart
+  async createClipUpload(body: NewClipUpload): Promise<{ upload: ClipUpload }> {
+    return this.request(
+      '/api/clips/uploads',
+      { method: 'POST', body: JSON.stringify(body) },
+      { preferDevice: true }
+    );
+  }
 
-    const response = await fetch(`${API_URL}/api/clips`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
+  async getClipUpload(uploadId: string): Promise<{ upload: ClipUpload }> {
+    return this.request(`/api/clips/uploads/${uploadId}`, {}, { preferDevice: true });
+  }
 
-    if (!response.ok) {
-      const error = await response
-        .json()
-        .catch(() => ({ error: 'Upload failed' }));
-      throw new ApiError(error.error || 'Upload failed', response.status);
-    }
+  /** Send bytes [start, start + chunk.size) of a file `total` bytes long */
+  async uploadClipChunk(
+    uploadId: string,
+    chunk: Blob,
+    start: number,
+    total: number
+  ): Promise<{ upload: ClipUpload }> {
+    return this.request(
+      `/api/clips/uploads/${uploadId}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Range': `bytes ${start}-${start + chunk.size - 1}/${total}`,
+        },
+        body: chunk,
+      },
+      { preferDevice: true }
+    );
+  }
 
-    return response.json();
+  /**
+   * Finish an upload: a new clip, or a part when the upload named a clipId.
+   * The server checks the assembled file against `checksum` (SHA-256, hex).
+   */
+  async completeClipUpload(
+    uploadId: string,
+    checksum: string
+  ): Promise<{ clip?: Clip; part?: ClipPart }> {
+    return this.request(
+      `/api/clips/uploads/${uploadId}/complete`,
+      { method: 'POST', body: JSON.stringify({ checksum }) },
+      { preferDevice: true }
+    );
   }
 
   async getClips(params: ClipsListParams = {}): Promise<ClipsListResponse> {
@@ -372,9 +693,33 @@ class ApiClient {
     });
   }
 
-  async getClipPlaybackUrl(clipId: string): Promise<string> {
+  async getClipPlaybackUrl(clipId: string, part = 0): Promise<string> {
+    const data = await this.request<{ url: string; expiresIn: number | null }>(
+      `/api/clips/${clipId}/url${part > 0 ? `?part=${part}` : ''}`
+    );
+    return data.url;
+  }
+
+  // Continuous recording
+  async uploadRecordingSegment(formData: FormData): Promise<{ recording: Recording }> {
+    return this.upload('/api/recordings/segments', formData);
+  }
+
+  async getRecordings(
+    params: RecordingsListParams
+  ): Promise<{ recordings: Recording[]; from: string; to: string }> {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.set(key, String(value));
+      }
+    });
+    return this.request(`/api/recordings?${searchParams.toString()}`);
+  }
+
+  async getRecordingPlaybackUrl(recordingId: string): Promise<string> {
     const data = await this.request<{ url: string; expiresIn: number | null }>(
-      `/api/clips/${clipId}/url`
+      `/api/recordings/${recordingId}/url`
     );
     return data.url;
   }
@@ -401,11 +746,19 @@ export const api = new ApiClient();
 export type {
   TokenResponse,
   Room,
+  RoomCameraConfig,
+  Device,
+  HeartbeatDirectives,
   DetectionEvent,
   EventsListResponse,
   EventsListParams,
   EventStats,
   Clip,
+  ClipPart,
+  ClipUpload,
+  NewClipUpload,
   ClipsListParams,
   ClipsListResponse,
+  Recording,
+  RecordingsListParams,
 };
@@ -0,0 +1,200 @@
+import { RpcError, type Room } from 'livekit-client';
+
+/**
+ * Remote camera control over LiveKit RPC. Viewers call methods on a
+ * specific cam_ participant; the camera registers one handler per method.
+ * Params and results travel as JSON and are typed by CameraRpcMethods.
+ */
+
+export type FacingMode = 'user' | 'environment';
+export type ResolutionPreset = '360p' | '720p' | '1080p';
+
+export const RESOLUTION_PRESETS: Record<ResolutionPreset, { width: number; height: number }> = {
+  '360p': { width: 640, height: 360 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+};
+
+export interface CameraRpcMethods {
+  /** Omit facingMode to flip to the other camera */
+  switchCamera: { params: { facingMode?: FacingMode }; result: { facingMode: FacingMode } };
+  setSleep: { params: { sleeping: boolean }; result: { sleeping: boolean } };
+  setResolution: {
+    params: { preset: ResolutionPreset };
+    result: { preset: ResolutionPreset; width: number; height: number };
+  };
+  setTorch: { params: { on: boolean }; result: { on: boolean } };
+  /** JPEG data URL, downscaled to fit in a single RPC response */
+  captureSnapshot: {
+    params: Record<string, never>;
+    result: { image: string; width: number; height: number; capturedAt: number };
+  };
+  reload: { params: Record<string, never>; result: { reloading: true } };
+}
+
+export type CameraRpcMethod = keyof CameraRpcMethods;
+export type CameraRpcParams<M extends CameraRpcMethod> = CameraRpcMethods[M]['params'];
+export type CameraRpcResult<M extends CameraRpcMethod> = CameraRpcMethods[M]['result'];
+export type CameraRpcHandlers = {
+  [M in CameraRpcMethod]: (params: CameraRpcParams<M>) => Promise<CameraRpcResult<M>>;
+};
+
+const CAMERA_RPC_METHODS: CameraRpcMethod[] = [
+  'switchCamera',
+  'setSleep',
+  'setResolution',
+  'setTorch',
+  'captureSnapshot',
+  'reload',
+];
+
+// Application error codes; LiveKit reserves 1001-1999
+export const CAMERA_RPC_ERROR = {
+  NOT_SUPPORTED: 2001,
+  INVALID_PARAMS: 2002,
+  FAILED: 2003,
+  FORBIDDEN: 2004,
+} as const;
+
+// Keeps camera methods apart from any other RPC the app may add
+const METHOD_PREFIX = 'camera.';
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Thrown by callCamera on the viewer. Handlers on the camera throw it too,
+ * to send a specific code back; any other error becomes FAILED.
+ */
+export class CameraRpcError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'CameraRpcError';
+    this.code = code;
+  }
+}
+
+function describeRpcError(err: RpcError): string {
+  switch (err.code) {
+    case RpcError.ErrorCode.RESPONSE_TIMEOUT:
+    case RpcError.ErrorCode.CONNECTION_TIMEOUT:
+      return 'Camera did not respond';
+    case RpcError.ErrorCode.RECIPIENT_DISCONNECTED:
+    case RpcError.ErrorCode.RECIPIENT_NOT_FOUND:
+      return 'Camera is offline';
+    case RpcError.ErrorCode.UNSUPPORTED_METHOD:
+      return 'Camera app does not support this yet - reload it';
+    default:
+      return err.message;
+  }
+}
+
+/** Invoke a method on a camera. Throws CameraRpcError on failure. */
+export async function callCamera<M extends CameraRpcMethod>(
+  room: Room,
+  identity: string,
+  method: M,
+  params: CameraRpcParams<M>,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<CameraRpcResult<M>> {
+  let response: string;
+  try {
+    response = await room.localParticipant.performRpc({
+      destinationIdentity: identity,
+      method: METHOD_PREFIX + method,
+      payload: JSON.stringify(params),
+      responseTimeout: timeoutMs,
+    });
+  } catch (err) {
+    if (err instanceof RpcError) {
+      throw new CameraRpcError(err.code, describeRpcError(err));
+    }
+    throw err;
+  }
+  return JSON.parse(response) as CameraRpcResult<M>;
+}
+
+/**
+ * Register the camera's handlers. Only viewers may call them. Returns a
+ * cleanup function that unregisters every method.
+ */
+export function registerCameraRpc(room: Room, handlers: CameraRpcHandlers): () => void {
+  for (const method of CAMERA_RPC_METHODS) {
+    const handler = handlers[method] as (params: unknown) => Promise<unknown>;
+
+    room.registerRpcMethod(METHOD_PREFIX + method, async (data) => {
+      if (!data.callerIdentity.startsWith('viewer_')) {
+        throw new RpcError(CAMERA_RPC_ERROR.FORBIDDEN, 'Only viewers can control cameras');
+      }
+
+      let params: unknown;
+      try {
+        params = data.payload ? JSON.parse(data.payload) : {};
+      } catch {
+        throw new RpcError(CAMERA_RPC_ERROR.INVALID_PARAMS, 'Invalid parameters');
+      }
+
+      try {
+        return JSON.stringify(await handler(params));
+      } catch (err) {
+        if (err instanceof CameraRpcError) throw new RpcError(err.code, err.message);
+        console.error(`[CameraRpc] ${method} failed:`, err);
+        throw new RpcError(
+          CAMERA_RPC_ERROR.FAILED,
+          err instanceof Error ? err.message : `${method} failed`
+        );
+      }
+    });
+  }
+
+  return () => {
+    for (const method of CAMERA_RPC_METHODS) {
+      room.unregisterRpcMethod(METHOD_PREFIX + method);
+    }
+  };
+}
+
+/**
+ * Grab the current frame as a JPEG data URL small enough for an RPC
+ * response, stepping quality and size down until it fits.
+ */
+export function captureFrame(
+  video: HTMLVideoElement
+): CameraRpcResult<'captureSnapshot'> | null {
+  if (video.readyState < 2 || !video.videoWidth) return null;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const maxBytes = RpcError.MAX_DATA_BYTES - 512; // room for the JSON wrapper
+  let width = Math.min(video.videoWidth, 480);
+
+  while (width >= 120) {
+    canvas.width = width;
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * width);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    for (let quality = 0.7; quality >= 0.3; quality -= 0.2) {
+      const image = canvas.toDataURL('image/jpeg', quality);
+      if (image.length <= maxBytes) {
+        return { image, width: canvas.width, height: canvas.height, capturedAt: Date.now() };
+      }
+    }
+    width = Math.round(width * 0.75);
+  }
+  return null;
+}
+
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+type TorchConstraints = MediaTrackConstraintSet & { torch?: boolean };
+
+/** Turn the flashlight on or off; false when the camera has none. */
+export async function applyTorch(track: MediaStreamTrack, on: boolean): Promise<boolean> {
+  const capabilities: TorchCapabilities = track.getCapabilities?.() ?? {};
+  if (!capabilities.torch) return false;
+
+  const advanced: TorchConstraints[] = [{ torch: on }];
+  await track.applyConstraints({ advanced });
+  return true;
+}
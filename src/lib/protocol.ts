@@ -0,0 +1,246 @@
+import { RoomEvent, type Room, type RemoteParticipant } from 'livekit-client';
+import type { MotionZone } from '../services/motionDetector';
+import type { ArmingMode } from '../services/armSchedule';
+import type { CameraHealth } from '../services/cameraHealth';
+import type {
+  DetectionEvent,
+  DetectionEpisode,
+  DetectionSettings,
+  EpisodePhase,
+} from '../services/eventManager';
+
+/**
+ * Messages exchanged on the LiveKit data channel between cameras, viewers
+ * and the server. Every message is a JSON envelope `{ v, type, ... }`;
+ * `id` marks a request that expects an `ack` with a matching `replyTo`.
+ *
+ * Bump PROTOCOL_VERSION for changes old clients can't read. Adding a new
+ * message type doesn't need a bump: receivers drop types they don't know.
+ * The server sends `arming_mode` and `room_config_changed`
+ * (server/src/services/livekit.service.ts).
+ */
+export const PROTOCOL_VERSION = 1;
+export const PROTOCOL_TOPIC = 'detection';
+
+export type ProtocolMessage =
+  // Camera -> viewers
+  | { type: 'detection_event'; event: DetectionEvent }
+  | { type: 'detection_episode'; phase: EpisodePhase; episode: DetectionEpisode }
+  | { type: 'noise_floor'; noiseFloor: number }
+  | { type: 'camera_health'; health: CameraHealth }
+  // Both ways: viewers push edits, cameras report what they run with
+  | { type: 'detection_settings'; settings: Partial<DetectionSettings> }
+  // Viewer -> camera
+  | { type: 'motion_zones'; zones: MotionZone[] }
+  // Server -> everyone
+  | { type: 'room_config_changed' }
+  | { type: 'arming_mode'; mode: ArmingMode }
+  // Reply to a message that carried an id
+  | { type: 'ack'; ok: boolean; error?: string };
+
+export type MessageType = ProtocolMessage['type'];
+
+export type ProtocolEnvelope = ProtocolMessage & {
+  v: number;
+  id?: string;
+  replyTo?: string;
+};
+
+export interface ProtocolSender {
+  identity: string;
+}
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+const EVENT_TYPES = ['motion', 'sound', 'inactivity'];
+const ARMING_MODES = ['home', 'away', 'off'];
+
+// Structural checks per message type. They guard against malformed or
+// mismatched senders; they don't re-validate every nested value.
+const validators: { [T in MessageType]: (m: Fields) => boolean } = {
+  detection_event: ({ event }) =>
+    isObject(event) &&
+    EVENT_TYPES.includes(event.type as string) &&
+    isNumber(event.timestamp) &&
+    isNumber(event.confidence) &&
+    isString(event.deviceId) &&
+    isString(event.episodeId),
+  detection_episode: ({ phase, episode }) =>
+    (phase === 'update' || phase === 'end') &&
+    isObject(episode) &&
+    isString(episode.id) &&
+    EVENT_TYPES.includes(episode.type as string) &&
+    isNumber(episode.startedAt) &&
+    isNumber(episode.lastDetectionAt),
+  noise_floor: ({ noiseFloor }) => isNumber(noiseFloor),
+  camera_health: ({ health }) =>
+    isObject(health) &&
+    isString(health.connectionQuality) &&
+    isNumber(health.syncQueue) &&
+    isNumber(health.uptimeSeconds),
+  detection_settings: ({ settings }) => isObject(settings),
+  motion_zones: ({ zones }) =>
+    Array.isArray(zones) &&
+    zones.every((z) => isObject(z) && isString(z.id) && Array.isArray(z.points)),
+  room_config_changed: () => true,
+  arming_mode: ({ mode }) => ARMING_MODES.includes(mode as string),
+  ack: ({ ok, error }) => typeof ok === 'boolean' && (error === undefined || isString(error)),
+};
+
+export function encodeMessage(
+  message: ProtocolMessage,
+  meta: { id?: string; replyTo?: string } = {}
+): Uint8Array {
+  const envelope: ProtocolEnvelope = { ...message, ...meta, v: PROTOCOL_VERSION };
+  return new TextEncoder().encode(JSON.stringify(envelope));
+}
+
+/** Parse and validate a payload; null for anything this client can't read. */
+export function decodeMessage(payload: Uint8Array): ProtocolEnvelope | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(payload));
+  } catch {
+    console.warn('[Protocol] Dropped non-JSON message');
+    return null;
+  }
+
+  if (!isObject(data) || !isString(data.type)) {
+    console.warn('[Protocol] Dropped message without a type');
+    return null;
+  }
+  if (data.v !== PROTOCOL_VERSION) {
+    console.warn(`[Protocol] Dropped ${data.type} with version ${data.v} (expected ${PROTOCOL_VERSION})`);
+    return null;
+  }
+
+  const validate = validators[data.type as MessageType];
+  if (!validate) {
+    console.warn('[Protocol] Dropped unknown message type:', data.type);
+    return null;
+  }
+  if (!validate(data)) {
+    console.warn('[Protocol] Dropped malformed message:', data.type);
+    return null;
+  }
+  return data as ProtocolEnvelope;
+}
+
+/**
+ * Subscribe to protocol messages on the room. Returns an unsubscribe
+ * function, so it can be returned straight from an effect.
+ */
+export function onMessage(
+  room: Room,
+  handler: (message: ProtocolEnvelope, sender: ProtocolSender | undefined) => void
+): () => void {
+  const handleData = (
+    payload: Uint8Array,
+    participant?: RemoteParticipant,
+    _kind?: unknown,
+    topic?: string
+  ) => {
+    if (topic !== PROTOCOL_TOPIC) return;
+    const message = decodeMessage(payload);
+    if (message) handler(message, participant && { identity: participant.identity });
+  };
+
+  room.on(RoomEvent.DataReceived, handleData);
+  return () => {
+    room.off(RoomEvent.DataReceived, handleData);
+  };
+}
+
+export interface PublishOptions {
+  /** Lossy delivery for frequent, replaceable updates */
+  reliable?: boolean;
+  /** Participant identities; everyone when omitted */
+  destination?: string[];
+}
+
+export async function publishMessage(
+  room: Room,
+  message: ProtocolMessage,
+  { reliable = true, destination }: PublishOptions = {},
+  meta: { id?: string; replyTo?: string } = {}
+): Promise<void> {
+  await room.localParticipant.publishData(encodeMessage(message, meta), {
+    reliable,
+    topic: PROTOCOL_TOPIC,
+    destinationIdentities: destination,
+  });
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Send a message to one participant and wait for its ack. Rejects with a
+ * ProtocolError when the receiver reports a failure or doesn't answer.
+ */
+export async function sendRequest(
+  room: Room,
+  message: ProtocolMessage,
+  destination: string,
+  timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+): Promise<void> {
+  const id = `req_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  let unsubscribe = () => {};
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const acked = new Promise<void>((resolve, reject) => {
+    unsubscribe = onMessage(room, (reply, sender) => {
+      if (reply.type !== 'ack' || reply.replyTo !== id || sender?.identity !== destination) return;
+      if (reply.ok) resolve();
+      else reject(new ProtocolError(reply.error ?? `${message.type} was rejected`));
+    });
+    timer = setTimeout(
+      () => reject(new ProtocolError(`No reply to ${message.type} from ${destination}`)),
+      timeoutMs
+    );
+  });
+
+  try {
+    await Promise.all([
+      publishMessage(room, message, { destination: [destination] }, { id }),
+      acked,
+    ]);
+  } finally {
+    clearTimeout(timer);
+    unsubscribe();
+  }
+}
+
+/** Answer a request; messages without an id expect no reply. */
+export async function acknowledge(
+  room: Room,
+  request: ProtocolEnvelope,
+  sender: ProtocolSender | undefined,
+  error?: string
+): Promise<void> {
+  if (!request.id || !sender) return;
+  await publishMessage(
+    room,
+    error ? { type: 'ack', ok: false, error } : { type: 'ack', ok: true },
+    { destination: [sender.identity] },
+    { replyTo: request.id }
+  );
+}
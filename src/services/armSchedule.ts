@@ -0,0 +1,68 @@
+/**
+ * Weekly arm/disarm schedules, evaluated in the room's IANA timezone.
+ * Mirrors server/src/services/armSchedule.ts.
+ */
+
+export interface ArmWindow {
+  day: number; // 0 = Sunday
+  start: string; // HH:MM
+  end: string; // HH:MM, not after start = runs past midnight
+}
+
+export interface ArmSchedule {
+  timezone: string;
+  /** null = always armed */
+  windows: ArmWindow[] | null;
+}
+
+/**
+ * Manual arming mode, per account with an optional per-room override.
+ * Away: detect and notify. Home: detect and record, no push. Off: no detection.
+ */
+export type ArmingMode = 'home' | 'away' | 'off';
+
+export const ARMING_MODE_LABELS: Record<ArmingMode, string> = {
+  home: 'Home',
+  away: 'Away',
+  off: 'Off',
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Weekday and minutes past midnight of `date` on the clocks in `timeZone`. */
+export function localTime(date: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAY_LABELS.indexOf(get('weekday')),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+export function isArmed(schedule: ArmSchedule | null, date: Date = new Date()): boolean {
+  if (!schedule?.windows || schedule.windows.length === 0) return true;
+
+  const { day, minutes } = localTime(date, schedule.timezone);
+  const previousDay = (day + 6) % 7;
+
+  return schedule.windows.some((w) => {
+    const start = minutesOfDay(w.start);
+    const end = minutesOfDay(w.end);
+    if (start < end) {
+      return w.day === day && minutes >= start && minutes < end;
+    }
+    return (w.day === day && minutes >= start) || (w.day === previousDay && minutes < end);
+  });
+}
@@ -0,0 +1,162 @@
+import type { LocalVideoTrack, VideoSenderStats } from 'livekit-client';
+
+export type ThermalState = 'nominal' | 'fair' | 'serious' | 'critical';
+export type LinkQuality = 'excellent' | 'good' | 'poor' | 'lost' | 'unknown';
+
+/** Telemetry a camera reports; null where the browser can't measure it. */
+export interface CameraHealth {
+  battery: { level: number; charging: boolean } | null;
+  /** CPU pressure, the closest thing to a thermal reading browsers expose */
+  thermal: ThermalState | null;
+  /** What is actually being sent, not what was requested */
+  video: { fps: number; width: number; height: number } | null;
+  connectionQuality: LinkQuality;
+  /** Clips waiting to upload */
+  syncQueue: number;
+  uptimeSeconds: number;
+}
+
+export type HealthLevel = 'ok' | 'warning' | 'critical';
+
+export interface HealthAssessment {
+  level: HealthLevel;
+  issues: string[];
+}
+
+const LOW_BATTERY = 0.2;
+const CRITICAL_BATTERY = 0.1;
+const LOW_FPS = 5;
+const SYNC_BACKLOG = 20;
+
+/** Summarize a snapshot into a badge level and the reasons for it. */
+export function assessHealth(health: CameraHealth): HealthAssessment {
+  const critical: string[] = [];
+  const warnings: string[] = [];
+
+  const { battery, thermal, video, connectionQuality, syncQueue } = health;
+  if (battery && !battery.charging) {
+    const percent = Math.round(battery.level * 100);
+    if (battery.level <= CRITICAL_BATTERY) critical.push(`Battery ${percent}%`);
+    else if (battery.level <= LOW_BATTERY) warnings.push(`Battery ${percent}%`);
+  }
+  if (thermal === 'critical') critical.push('Overheating');
+  else if (thermal === 'serious') warnings.push('Running hot');
+  if (video && video.fps < LOW_FPS) warnings.push(`${Math.round(video.fps)} fps`);
+  if (connectionQuality === 'lost') critical.push('Connection lost');
+  else if (connectionQuality === 'poor') warnings.push('Poor connection');
+  if (syncQueue >= SYNC_BACKLOG) warnings.push(`${syncQueue} clips waiting to upload`);
+
+  return {
+    level: critical.length > 0 ? 'critical' : warnings.length > 0 ? 'warning' : 'ok',
+    issues: [...critical, ...warnings],
+  };
+}
+
+// Battery Status and Compute Pressure APIs aren't in the DOM typings yet
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+interface PressureRecord {
+  state: ThermalState;
+}
+
+interface PressureObserverInstance {
+  observe(source: 'cpu'): Promise<void>;
+  disconnect(): void;
+}
+
+type PressureObserverConstructor = new (
+  callback: (records: PressureRecord[]) => void
+) => PressureObserverInstance;
+
+/**
+ * Collects the parts of CameraHealth that need long-lived browser handles
+ * (battery manager, pressure observer). Everything else is sampled on
+ * demand in snapshot().
+ */
+export class HealthMonitor {
+  private battery: BatteryManager | null = null;
+  private thermal: ThermalState | null = null;
+  private pressureObserver: PressureObserverInstance | null = null;
+  private stopped = false;
+
+  async start(): Promise<void> {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+    if (nav.getBattery) {
+      try {
+        this.battery = await nav.getBattery();
+      } catch (err) {
+        console.warn('[HealthMonitor] Battery API unavailable:', err);
+      }
+    }
+
+    const PressureObserver = (globalThis as { PressureObserver?: PressureObserverConstructor })
+      .PressureObserver;
+    if (PressureObserver) {
+      try {
+        this.pressureObserver = new PressureObserver((records) => {
+          const latest = records[records.length - 1];
+          if (latest) this.thermal = latest.state;
+        });
+        await this.pressureObserver.observe('cpu');
+        // stop() may have run while observe() was pending
+        if (this.stopped) this.pressureObserver.disconnect();
+      } catch (err) {
+        console.warn('[HealthMonitor] Pressure API unavailable:', err);
+        this.pressureObserver = null;
+      }
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.pressureObserver?.disconnect();
+    this.pressureObserver = null;
+    this.battery = null;
+  }
+
+  async snapshot({
+    videoTrack,
+    connectionQuality,
+    syncQueue,
+  }: {
+    videoTrack: LocalVideoTrack | undefined;
+    connectionQuality: LinkQuality;
+    syncQueue: number;
+  }): Promise<CameraHealth> {
+    return {
+      battery: this.battery
+        ? { level: this.battery.level, charging: this.battery.charging }
+        : null,
+      thermal: this.thermal,
+      video: videoTrack ? await sampleVideo(videoTrack) : null,
+      connectionQuality,
+      syncQueue,
+      // Time since the page loaded, so reconnects don't reset it
+      uptimeSeconds: Math.round(performance.now() / 1000),
+    };
+  }
+}
+
+// The top simulcast layer reflects what the encoder is really producing
+async function sampleVideo(track: LocalVideoTrack): Promise<CameraHealth['video']> {
+  try {
+    const layers = await track.getSenderStats();
+    const top = layers.reduce<VideoSenderStats | undefined>(
+      (best, layer) => (layer.frameWidth > (best?.frameWidth ?? 0) ? layer : best),
+      undefined
+    );
+    if (top) {
+      return { fps: top.framesPerSecond ?? 0, width: top.frameWidth, height: top.frameHeight };
+    }
+  } catch (err) {
+    console.warn('[HealthMonitor] Failed to read sender stats:', err);
+  }
+
+  // Not publishing yet; report the capture settings instead
+  const settings = track.mediaStreamTrack.getSettings();
+  if (!settings.width || !settings.height) return null;
+  return { fps: settings.frameRate ?? 0, width: settings.width, height: settings.height };
+}
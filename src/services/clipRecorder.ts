@@ -1,6 +1,17 @@
+import {
+  WebmStreamParser,
+  buildWebm,
+  clustersDuration,
+  splitAtKeyframes,
+  type WebmCluster,
+} from './webm';
+
 export interface RecordingConfig {
   preBufferSeconds: number;
+  /** Quiet time after the last activity before the clip closes */
   postBufferSeconds: number;
+  /** Longest a clip may run, pre-buffer included */
+  maxClipSeconds: number;
   mimeType: string;
   videoBitsPerSecond: number;
 }
@@ -11,25 +22,62 @@ export interface StoredClip {
   timestamp: number;
   confidence: number;
   deviceId: string;
+  /** The whole clip, or its first part when it is long */
   videoBlob?: Blob;
+  /** Remaining parts of a long clip, in order */
+  videoParts?: Blob[];
   imageBlob?: Blob;
+  /** Seconds of video actually in the clip */
+  duration?: number;
   synced: boolean;
 }
 
 const DEFAULT_CONFIG: RecordingConfig = {
   preBufferSeconds: 3,
   postBufferSeconds: 7,
+  maxClipSeconds: 120,
   mimeType: 'video/webm;codecs=vp8,opus',
   videoBitsPerSecond: 1_000_000,
 };
 
+// Ask for a keyframe every second so a clip can start close to the trigger
+// (Chrome only; elsewhere the ring just reaches back to the last keyframe)
+const KEYFRAME_INTERVAL_MS = 1000;
+// Bound memory when the encoder sends keyframes rarely
+const MAX_BUFFER_SECONDS = 30;
+// Long clips are stored and uploaded as standalone parts of about this length
+const CLIP_PART_SECONDS = 30;
+
+type KeyframeRecorderOptions = MediaRecorderOptions & { videoKeyFrameIntervalDuration?: number };
+
+interface ActiveCapture {
+  confidence: number;
+  /** When the clip closes unless more activity extends it */
+  endsAt: number;
+  /** Hard stop at the maximum clip length */
+  deadline: number;
+}
+
 const DB_NAME = 'pet-portal-clips';
 const DB_VERSION = 1;
 const STORE_NAME = 'clips';
 
+/**
+ * Keeps a rolling pre-buffer of the camera and cuts event clips from it.
+ * The buffer holds whole WebM clusters (see ./webm) and always starts on a
+ * keyframe, so every clip gets the stream's init segment and begins with a
+ * decodable frame. A clip stays open while activity continues (see
+ * extendCapture) up to maxClipSeconds; only one is recorded at a time.
+ */
 export class ClipRecorder {
   private mediaRecorder: MediaRecorder | null = null;
-  private preBuffer: Blob[] = [];
+  private parser: WebmStreamParser | null = null;
+  private preBuffer: WebmCluster[] = [];
+  // Captures in progress, collecting clusters as they complete
+  private collectors = new Set<(cluster: WebmCluster) => void>();
+  // Chunks are parsed in order; also lets a capture wait for the last one
+  private parsing: Promise<void> = Promise.resolve();
+  private capture: ActiveCapture | null = null;
   private config: RecordingConfig;
   private isBuffering = false;
   private db: IDBDatabase | null = null;
@@ -70,7 +118,7 @@ export class ClipRecorder {
       return;
     }
 
-    // Check for supported mime type
+    // Check for supported mime type; clips are cut at WebM cluster boundaries
     let mimeType = this.config.mimeType;
     if (!MediaRecorder.isTypeSupported(mimeType)) {
       mimeType = 'video/webm';
@@ -81,19 +129,25 @@ export class ClipRecorder {
     }
 
     try {
-      this.mediaRecorder = new MediaRecorder(stream, {
+      const options: KeyframeRecorderOptions = {
         mimeType,
         videoBitsPerSecond: this.config.videoBitsPerSecond,
-      });
+        videoKeyFrameIntervalDuration: KEYFRAME_INTERVAL_MS,
+      };
+      this.mediaRecorder = new MediaRecorder(stream, options);
+      const parser = new WebmStreamParser();
+      this.parser = parser;
 
       this.mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          this.preBuffer.push(e.data);
-          // Keep only last N seconds
-          while (this.preBuffer.length > this.config.preBufferSeconds) {
-            this.preBuffer.shift();
+        if (e.data.size === 0) return;
+        this.parsing = this.parsing.then(async () => {
+          try {
+            const clusters = parser.push(new Uint8Array(await e.data.arrayBuffer()));
+            for (const cluster of clusters) this.addCluster(cluster);
+          } catch (err) {
+            console.error('[ClipRecorder] Failed to parse recorder output:', err);
           }
-        }
+        });
       };
 
       this.mediaRecorder.onerror = (e) => {
@@ -108,6 +162,11 @@ export class ClipRecorder {
     }
   }
 
+  /**
+   * Record a clip around an event. Resolves with the clip once activity has
+   * been quiet for the post-buffer, or null if a clip was already being
+   * recorded, in which case the event extends that one instead.
+   */
   async captureEvent(
     type: 'motion' | 'sound',
     confidence: number,
@@ -118,13 +177,27 @@ export class ClipRecorder {
       console.warn('[ClipRecorder] Not buffering, cannot capture event');
       return null;
     }
+    if (this.extendCapture(confidence)) {
+      return null;
+    }
 
     const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const timestamp = Date.now();
+    const recorder = this.mediaRecorder;
+    const parser = this.parser!;
+    const capture: ActiveCapture = {
+      confidence,
+      endsAt: timestamp + this.config.postBufferSeconds * 1000,
+      deadline:
+        timestamp +
+        Math.max(this.config.maxClipSeconds - this.config.preBufferSeconds, this.config.postBufferSeconds) * 1000,
+    };
+    this.capture = capture;
 
-    // Grab pre-buffer
-    const preBufferClips = [...this.preBuffer];
-    const postBufferChunks: Blob[] = [];
+    // Grab pre-buffer, then collect clusters as they complete
+    const clusters = [...this.preBuffer];
+    const collect = (cluster: WebmCluster) => clusters.push(cluster);
+    this.collectors.add(collect);
 
     // Capture screenshot if video element provided
     let imageBlob: Blob | undefined;
@@ -132,34 +205,47 @@ export class ClipRecorder {
       imageBlob = await this.captureScreenshot(videoElement) || undefined;
     }
 
-    // Record post-buffer
-    const videoBlob = await new Promise<Blob>((resolve) => {
-      const captureHandler = (e: BlobEvent) => {
-        if (e.data.size > 0) {
-          postBufferChunks.push(e.data);
-        }
-      };
+    // Record until activity has been quiet for the post-buffer; extendCapture
+    // keeps pushing endsAt out
+    while (this.isBuffering && Date.now() < capture.endsAt) {
+      await new Promise((resolve) => setTimeout(resolve, capture.endsAt - Date.now()));
+    }
+    if (this.capture === capture) this.capture = null;
+
+    // Flush what the encoder is holding
+    if (recorder.state === 'recording') {
+      const flushed = new Promise((resolve) =>
+        recorder.addEventListener('dataavailable', resolve, { once: true })
+      );
+      recorder.requestData();
+      await flushed;
+    }
+    await this.parsing;
+    this.collectors.delete(collect);
 
-      this.mediaRecorder!.addEventListener('dataavailable', captureHandler);
+    const open = parser.peekOpenCluster();
+    if (open) clusters.push(open);
 
-      setTimeout(() => {
-        this.mediaRecorder!.removeEventListener('dataavailable', captureHandler);
-        const fullClip = new Blob(
-          [...preBufferClips, ...postBufferChunks],
-          { type: this.mediaRecorder!.mimeType }
-        );
-        resolve(fullClip);
-      }, this.config.postBufferSeconds * 1000);
-    });
+    const header = parser.header;
+    if (!header || clusters.length === 0) {
+      console.warn('[ClipRecorder] Nothing buffered yet, dropping clip');
+      return null;
+    }
+
+    const [first, ...rest] = splitAtKeyframes(header, clusters, CLIP_PART_SECONDS).map(
+      (part) => new Blob([buildWebm(header, part)], { type: 'video/webm' })
+    );
 
     const clip: StoredClip = {
       id,
       type,
       timestamp,
-      confidence,
+      confidence: capture.confidence,
       deviceId,
-      videoBlob,
+      videoBlob: first,
+      videoParts: rest.length > 0 ? rest : undefined,
       imageBlob,
+      duration: clustersDuration(header, clusters),
       synced: false,
     };
 
@@ -169,7 +255,46 @@ export class ClipRecorder {
     return clip;
   }
 
-  private captureScreenshot(videoElement: HTMLVideoElement): Promise<Blob | null> {
+  /**
+   * Keep the clip being recorded open for another post-buffer, up to the
+   * maximum length. Returns false when no clip is being recorded.
+   */
+  extendCapture(confidence = 0): boolean {
+    const capture = this.capture;
+    if (!capture) return false;
+    capture.confidence = Math.max(capture.confidence, confidence);
+    capture.endsAt = Math.min(
+      Math.max(capture.endsAt, Date.now() + this.config.postBufferSeconds * 1000),
+      capture.deadline
+    );
+    return true;
+  }
+
+  get capturing(): boolean {
+    return this.capture !== null;
+  }
+
+  // Keep clusters back to the last keyframe at or before the pre-buffer
+  // window, so a clip cut now covers the window and starts decodable
+  private addCluster(cluster: WebmCluster): void {
+    for (const collect of this.collectors) collect(cluster);
+    this.preBuffer.push(cluster);
+
+    const ticksPerSecond = 1e9 / (this.parser?.header?.timecodeScale ?? 1e6);
+    const now = cluster.timecode + cluster.lastBlockOffset;
+    const windowStart = now - this.config.preBufferSeconds * ticksPerSecond;
+    const limit = now - MAX_BUFFER_SECONDS * ticksPerSecond;
+
+    let start = 0;
+    this.preBuffer.forEach((c, i) => {
+      if (c.keyframe && c.timecode <= windowStart) start = i;
+    });
+    while (start + 1 < this.preBuffer.length && this.preBuffer[start].timecode < limit) start++;
+    if (start > 0) this.preBuffer.splice(0, start);
+  }
+
+  /** A JPEG of the current frame, or null before the video has one. */
+  captureScreenshot(videoElement: HTMLVideoElement): Promise<Blob | null> {
     return new Promise((resolve) => {
       if (videoElement.readyState < 2) {
         resolve(null);
@@ -323,7 +448,9 @@ export class ClipRecorder {
     if (this.mediaRecorder && this.isBuffering) {
       this.mediaRecorder.stop();
       this.mediaRecorder = null;
+      this.parser = null;
       this.preBuffer = [];
+      this.capture = null;
       this.isBuffering = false;
       console.log('[ClipRecorder] Stopped buffering');
     }
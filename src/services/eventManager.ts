@@ -1,10 +1,26 @@
-export type EventType = 'motion' | 'sound';
+import type { MotionZone, MotionMode } from './motionDetector';
+import { SOUND_CLASSES, type SoundClass } from './soundClassifier';
+import { isArmed, type ArmSchedule, type ArmingMode } from './armSchedule';
+import type { ProtocolMessage } from '../lib/protocol';
+
+export type EventType = 'motion' | 'sound' | 'inactivity';
 
 export interface DetectionEvent {
   type: EventType;
   timestamp: number;
   confidence: number;
   deviceId: string;
+  episodeId: string;
+  zoneId?: string | null;
+  zoneName?: string | null;
+  soundClass?: SoundClass | null;
+}
+
+/** Extra context a detector can attach to an event */
+export interface DetectionDetails {
+  zoneId?: string | null;
+  zoneName?: string | null;
+  soundClass?: SoundClass | null;
 }
 
 export interface DetectionSettings {
@@ -13,11 +29,43 @@ export interface DetectionSettings {
   motionSensitivity: number; // 0-1, maps to threshold
   soundSensitivity: number; // 0-1, maps to threshold
   cooldownSeconds: number;
+  maxClipSeconds: number; // clips extend while activity continues, up to this
+  motionMode: MotionMode;
+  backgroundAdaptation: number; // 0-1, maps to background learning rate
+  suppressLightingChanges: boolean;
+  soundClasses: SoundClass[]; // sound labels that raise events
+  adaptiveNoiseFloor: boolean;
+  soundLowCutHz: number; // 0 = no high-pass
+  soundHighCutHz: number; // 0 = no low-pass
+}
+
+export type EpisodePhase = 'update' | 'end';
+
+/**
+ * A run of detections of one type with no gap longer than the cooldown.
+ * The DetectionEvent emitted at its start carries the same id.
+ */
+export interface DetectionEpisode {
+  id: string;
+  type: EventType;
+  deviceId: string;
+  startedAt: number;
+  lastDetectionAt: number;
+  peakConfidence: number;
+  averageConfidence: number;
+  detectionCount: number;
 }
 
 export interface EventCallbacks {
   onEvent: (event: DetectionEvent) => Promise<void>;
+  onEpisodeChange?: (episode: DetectionEpisode, phase: EpisodePhase) => void;
+  /** A detection continued an open episode without raising a new event */
+  onActivity?: (episode: DetectionEpisode, confidence: number) => void;
   onSettingsReceived?: (settings: DetectionSettings) => void;
+  onZonesReceived?: (zones: MotionZone[]) => void;
+  /** A viewer changed room-level config; re-fetch it from the server */
+  onRoomConfigChanged?: () => void;
+  onArmingModeChanged?: (mode: ArmingMode) => void;
 }
 
 const DEFAULT_SETTINGS: DetectionSettings = {
@@ -26,8 +74,41 @@ const DEFAULT_SETTINGS: DetectionSettings = {
   motionSensitivity: 0.5,
   soundSensitivity: 0.5,
   cooldownSeconds: 30,
+  maxClipSeconds: 120,
+  motionMode: 'diff',
+  backgroundAdaptation: 0.5,
+  suppressLightingChanges: true,
+  soundClasses: [...SOUND_CLASSES],
+  adaptiveNoiseFloor: true,
+  soundLowCutHz: 0,
+  soundHighCutHz: 0,
 };
 
+// Ongoing episodes are reported at most this often
+const EPISODE_UPDATE_INTERVAL_MS = 15_000;
+
+interface OpenEpisode extends DetectionEpisode {
+  confidenceSum: number;
+  lastReportedAt: number;
+}
+
+function toEpisode(open: OpenEpisode): DetectionEpisode {
+  return {
+    id: open.id,
+    type: open.type,
+    deviceId: open.deviceId,
+    startedAt: open.startedAt,
+    lastDetectionAt: open.lastDetectionAt,
+    peakConfidence: open.peakConfidence,
+    averageConfidence: open.averageConfidence,
+    detectionCount: open.detectionCount,
+  };
+}
+
+export function episodeDurationSeconds(episode: DetectionEpisode): number {
+  return Math.round((episode.lastDetectionAt - episode.startedAt) / 1000);
+}
+
 // Map sensitivity (0-1) to actual threshold values
 // Higher sensitivity = lower threshold (easier to trigger)
 export function sensitivityToMotionThreshold(sensitivity: number): number {
@@ -40,13 +121,24 @@ export function sensitivityToSoundThreshold(sensitivity: number): number {
   return 0.3 - sensitivity * 0.25;
 }
 
+export function adaptationToLearningRate(adaptation: number): number {
+  // Adaptation 0 = 0.01 (background changes slowly), 1 = 0.2 (adapts within seconds)
+  return 0.01 + adaptation * 0.19;
+}
+
 export class EventManager {
   private lastEventTime: Record<EventType, number> = {
     motion: 0,
     sound: 0,
+    inactivity: 0,
   };
+  private episodes: Partial<Record<EventType, OpenEpisode>> = {};
   private callbacks: EventCallbacks;
   private settings: DetectionSettings;
+  // Room arm schedule; null = always armed
+  private schedule: ArmSchedule | null = null;
+  // Home still reports (the server skips push); Off reports nothing
+  private armingMode: ArmingMode = 'away';
   private deviceId: string;
 
   constructor(deviceId: string, callbacks: EventCallbacks) {
@@ -57,10 +149,16 @@ export class EventManager {
 
   async handleDetection(
     type: EventType,
-    confidence: number
+    confidence: number,
+    details: DetectionDetails = {}
   ): Promise<boolean> {
     const now = Date.now();
 
+    // With arming off or outside the room's armed windows nothing is reported
+    if (this.armingMode === 'off' || !isArmed(this.schedule, new Date(now))) {
+      return false;
+    }
+
     // Check if this type is enabled
     if (type === 'motion' && !this.settings.motionEnabled) {
       return false;
@@ -68,10 +166,11 @@ export class EventManager {
     if (type === 'sound' && !this.settings.soundEnabled) {
       return false;
     }
-
-    // Check cooldown
-    const cooldownMs = this.settings.cooldownSeconds * 1000;
-    if (now - this.lastEventTime[type] < cooldownMs) {
+    if (
+      type === 'sound' &&
+      details.soundClass &&
+      !this.settings.soundClasses.includes(details.soundClass)
+    ) {
       return false;
     }
 
@@ -80,23 +179,99 @@ export class EventManager {
       ? 0.6 - this.settings.motionSensitivity * 0.4  // 0.6 to 0.2
       : 0.6 - this.settings.soundSensitivity * 0.4;
 
-    if (confidence < minConfidence) {
+    // Inactivity alerts are raised by InactivityMonitor, not scored
+    if (type !== 'inactivity' && confidence < minConfidence) {
+      return false;
+    }
+
+    // Detections within the cooldown extend the open episode instead of
+    // raising a new event
+    const open = this.episodes[type];
+    if (open && now - open.lastDetectionAt < this.settings.cooldownSeconds * 1000) {
+      open.lastDetectionAt = now;
+      open.detectionCount++;
+      open.confidenceSum += confidence;
+      open.averageConfidence = open.confidenceSum / open.detectionCount;
+      open.peakConfidence = Math.max(open.peakConfidence, confidence);
+
+      if (now - open.lastReportedAt >= EPISODE_UPDATE_INTERVAL_MS) {
+        open.lastReportedAt = now;
+        this.callbacks.onEpisodeChange?.(toEpisode(open), 'update');
+      }
+      this.callbacks.onActivity?.(toEpisode(open), confidence);
       return false;
     }
+    if (open) {
+      this.endEpisode(type);
+    }
 
     this.lastEventTime[type] = now;
 
+    const episodeId = `ep_${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    this.episodes[type] = {
+      id: episodeId,
+      type,
+      deviceId: this.deviceId,
+      startedAt: now,
+      lastDetectionAt: now,
+      peakConfidence: confidence,
+      averageConfidence: confidence,
+      detectionCount: 1,
+      confidenceSum: confidence,
+      lastReportedAt: now,
+    };
+
     const event: DetectionEvent = {
       type,
       timestamp: now,
       confidence,
       deviceId: this.deviceId,
+      episodeId,
+      ...details,
     };
 
     await this.callbacks.onEvent(event);
     return true;
   }
 
+  /**
+   * End episodes that have been quiet for the cooldown. Call regularly,
+   * e.g. from the detection loop.
+   */
+  checkEpisodes(now = Date.now()): void {
+    const cooldownMs = this.settings.cooldownSeconds * 1000;
+    for (const type of Object.keys(this.episodes) as EventType[]) {
+      const open = this.episodes[type];
+      // Inactivity lasts until motion resumes, see clearInactivity()
+      if (type === 'inactivity') continue;
+      if (open && now - open.lastDetectionAt >= cooldownMs) {
+        this.endEpisode(type);
+      }
+    }
+  }
+
+  /** End the inactivity episode because motion resumed. */
+  clearInactivity(now = Date.now()): void {
+    const open = this.episodes.inactivity;
+    if (!open) return;
+    open.lastDetectionAt = now;
+    this.endEpisode('inactivity');
+  }
+
+  /** End every open episode, e.g. when detection stops. */
+  endEpisodes(): void {
+    for (const type of Object.keys(this.episodes) as EventType[]) {
+      this.endEpisode(type);
+    }
+  }
+
+  private endEpisode(type: EventType): void {
+    const open = this.episodes[type];
+    if (!open) return;
+    delete this.episodes[type];
+    this.callbacks.onEpisodeChange?.(toEpisode(open), 'end');
+  }
+
   updateSettings(settings: Partial<DetectionSettings>): void {
     this.settings = { ...this.settings, ...settings };
   }
@@ -105,41 +280,55 @@ export class EventManager {
     return { ...this.settings };
   }
 
-  // Handle settings received from viewer via LiveKit data channel
-  handleSettingsMessage(data: string): void {
-    try {
-      const parsed = JSON.parse(data);
-      if (parsed.type === 'detection_settings') {
-        this.updateSettings(parsed.settings);
-        this.callbacks.onSettingsReceived?.(this.settings);
-        console.log('[EventManager] Settings updated from viewer:', this.settings);
-      }
-    } catch (err) {
-      console.error('[EventManager] Failed to parse settings message:', err);
-    }
+  setArmSchedule(schedule: ArmSchedule | null): void {
+    this.schedule = schedule;
+  }
+
+  setArmingMode(mode: ArmingMode): void {
+    if (mode === this.armingMode) return;
+    this.armingMode = mode;
+    this.callbacks.onArmingModeChanged?.(mode);
   }
 
-  // Create message to send detection event to viewer
-  createEventMessage(event: DetectionEvent): string {
-    return JSON.stringify({
-      type: 'detection_event',
-      event,
-    });
+  getArmingMode(): ArmingMode {
+    return this.armingMode;
   }
 
-  // Create message to send current settings (for sync)
-  createSettingsMessage(): string {
-    return JSON.stringify({
-      type: 'detection_settings',
-      settings: this.settings,
-    });
+  // Live updates from viewers and the server over the data channel. Settings
+  // themselves are stored per device on the server and loaded at startup.
+  // Returns whether the message was meant for the camera.
+  handleMessage(message: ProtocolMessage): boolean {
+    switch (message.type) {
+      case 'detection_settings':
+        this.updateSettings(message.settings);
+        this.callbacks.onSettingsReceived?.(this.getSettings());
+        console.log('[EventManager] Settings updated from viewer:', this.settings);
+        return true;
+      case 'motion_zones':
+        this.callbacks.onZonesReceived?.(message.zones);
+        console.log('[EventManager] Motion zones updated from viewer:', message.zones.length);
+        return true;
+      case 'room_config_changed':
+        this.callbacks.onRoomConfigChanged?.();
+        return true;
+      case 'arming_mode':
+        // Sent by the server when the account or room mode is switched
+        this.setArmingMode(message.mode);
+        console.log('[EventManager] Arming mode changed:', message.mode);
+        return true;
+      default:
+        return false;
+    }
   }
 
+  // Ending the open episode lets the next detection raise a new event
   resetCooldown(type?: EventType): void {
     if (type) {
       this.lastEventTime[type] = 0;
+      this.endEpisode(type);
     } else {
-      this.lastEventTime = { motion: 0, sound: 0 };
+      this.lastEventTime = { motion: 0, sound: 0, inactivity: 0 };
+      this.endEpisodes();
     }
   }
 
@@ -148,7 +337,8 @@ export class EventManager {
   }
 
   isOnCooldown(type: EventType): boolean {
+    const open = this.episodes[type];
     const cooldownMs = this.settings.cooldownSeconds * 1000;
-    return Date.now() - this.lastEventTime[type] < cooldownMs;
+    return !!open && Date.now() - open.lastDetectionAt < cooldownMs;
   }
 }
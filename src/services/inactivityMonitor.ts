@@ -0,0 +1,100 @@
+import { localTime, minutesOfDay } from './armSchedule';
+
+export interface InactivityConfig {
+  /** Minutes without motion before alerting; null disables the alert */
+  thresholdMinutes: number | null;
+  /** Active hours as HH:MM in `timezone`; both null = all day */
+  start: string | null;
+  end: string | null;
+  /** The room's IANA timezone, shared with its arm schedule */
+  timezone: string;
+}
+
+const DEFAULT_CONFIG: InactivityConfig = {
+  thresholdMinutes: null,
+  start: null,
+  end: null,
+  // Until the room config loads
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+};
+
+/**
+ * Whether `date` falls in [start, end) in `timeZone`, wrapping past
+ * midnight when end < start.
+ */
+export function withinHours(
+  date: Date,
+  start: string | null,
+  end: string | null,
+  timeZone: string
+): boolean {
+  if (!start || !end) return true;
+  const now = localTime(date, timeZone).minutes;
+  const from = minutesOfDay(start);
+  const to = minutesOfDay(end);
+  if (from === to) return true;
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
+
+/**
+ * Tracks time since the last motion on this camera and decides when an
+ * inactivity alert starts and clears.
+ */
+export class InactivityMonitor {
+  private config: InactivityConfig;
+  private lastMotionAt: number;
+  private alerting = false;
+
+  constructor(config: Partial<InactivityConfig> = {}, now = Date.now()) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    // Nothing is known about the time before the camera started
+    this.lastMotionAt = now;
+  }
+
+  /** Returns true when this motion clears an active alert. */
+  recordMotion(now = Date.now()): boolean {
+    this.lastMotionAt = now;
+    if (!this.alerting) return false;
+    this.alerting = false;
+    return true;
+  }
+
+  /** Returns true once when the threshold is first exceeded. */
+  check(now = Date.now()): boolean {
+    const { thresholdMinutes, start, end, timezone } = this.config;
+    if (this.alerting || thresholdMinutes === null) return false;
+    if (!withinHours(new Date(now), start, end, timezone)) return false;
+    if (now - this.lastMotionAt < thresholdMinutes * 60_000) return false;
+
+    this.alerting = true;
+    return true;
+  }
+
+  /**
+   * Take back the alert check() just raised when it couldn't be reported
+   * (arming off or outside the armed hours), so it fires once re-armed.
+   */
+  cancelAlert(): void {
+    this.alerting = false;
+  }
+
+  /** Restart the timer, e.g. after detection was paused. Returns true if an alert was active. */
+  reset(now = Date.now()): boolean {
+    const wasAlerting = this.alerting;
+    this.lastMotionAt = now;
+    this.alerting = false;
+    return wasAlerting;
+  }
+
+  updateConfig(config: Partial<InactivityConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): InactivityConfig {
+    return { ...this.config };
+  }
+
+  get isAlerting(): boolean {
+    return this.alerting;
+  }
+}
@@ -1,14 +1,46 @@
+export interface ZonePoint {
+  x: number; // 0-1, fraction of frame width
+  y: number; // 0-1, fraction of frame height
+}
+
+export interface MotionZone {
+  id: string;
+  name: string;
+  kind: 'include' | 'exclude';
+  enabled: boolean;
+  points: ZonePoint[];
+}
+
+/**
+ * 'diff' compares consecutive frames; 'background' compares against a
+ * running-average background model, which ignores slow scene drift.
+ */
+export type MotionMode = 'diff' | 'background';
+
 export interface MotionConfig {
   width: number;
   height: number;
   threshold: number;
   motionThreshold: number;
+  zones: MotionZone[];
+  mode: MotionMode;
+  /** Background model adaptation per frame (0-1), background mode only */
+  learningRate: number;
+  /** Skip frames whose mean brightness jumps, e.g. lights or auto-exposure */
+  suppressLightingChanges: boolean;
+  /** Mean luma shift (0-255) treated as a lighting change */
+  illuminationThreshold: number;
 }
 
 export interface MotionResult {
   hasMotion: boolean;
   score: number;
   confidence: number;
+  /** Zone with the strongest motion; null when scoring the whole frame */
+  zoneId?: string | null;
+  zoneName?: string | null;
+  /** Frame was skipped because the whole scene changed brightness */
+  lightingChange?: boolean;
 }
 
 const DEFAULT_CONFIG: MotionConfig = {
@@ -16,91 +48,306 @@ const DEFAULT_CONFIG: MotionConfig = {
   height: 240,
   threshold: 25,
   motionThreshold: 0.02,
+  zones: [],
+  mode: 'diff',
+  learningRate: 0.05,
+  suppressLightingChanges: true,
+  illuminationThreshold: 20,
 };
 
-export class MotionDetector {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private previousFrame: ImageData | null = null;
+// Foreground pixels blend into the background this much slower, so a pet
+// that stops moving isn't absorbed within a few frames
+const FOREGROUND_LEARNING_FACTOR = 0.1;
+
+// Mask value for pixels that are not scored (excluded or outside every zone)
+const MASK_IGNORED = -1;
+
+/** Ray-casting point-in-polygon test in normalized coordinates. */
+export function pointInPolygon(x: number, y: number, points: ZonePoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * DOM-free motion scoring over RGBA frames. Shared by the in-thread
+ * MotionDetector and the detection worker.
+ */
+export class MotionAnalyzer {
+  private previousFrame: Uint8ClampedArray | null = null;
   private config: MotionConfig;
+  // Per-pixel index into scoredZones, or MASK_IGNORED
+  private mask: Int16Array | null = null;
+  // Zones being scored; a single null entry means "whole frame"
+  private scoredZones: (MotionZone | null)[] = [null];
+  private zonePixelCounts: number[] = [];
+  // Running-average luma per pixel (background mode)
+  private background: Float32Array | null = null;
+  private luma: Float32Array | null = null;
 
   constructor(config: Partial<MotionConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.canvas = document.createElement('canvas');
-    this.canvas.width = this.config.width;
-    this.canvas.height = this.config.height;
-    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) {
-      throw new Error('Failed to get canvas 2d context');
+    this.buildMask();
+  }
+
+  /**
+   * Rasterize zones into a per-pixel lookup so analyzeFrame() stays a single
+   * pass. Exclude zones win over include zones; with no active include
+   * zones the rest of the frame is scored as one unnamed zone.
+   */
+  private buildMask(): void {
+    const { width, height } = this.config;
+    const active = this.config.zones.filter((z) => z.enabled && z.points.length >= 3);
+    const includes = active.filter((z) => z.kind === 'include');
+    const excludes = active.filter((z) => z.kind === 'exclude');
+
+    if (active.length === 0) {
+      this.mask = null;
+      this.scoredZones = [null];
+      this.zonePixelCounts = [width * height];
+      return;
     }
-    this.ctx = ctx;
+
+    this.scoredZones = includes.length > 0 ? includes : [null];
+    this.zonePixelCounts = new Array(this.scoredZones.length).fill(0);
+    const mask = new Int16Array(width * height);
+
+    for (let py = 0; py < height; py++) {
+      const y = (py + 0.5) / height;
+      for (let px = 0; px < width; px++) {
+        const x = (px + 0.5) / width;
+        let value = MASK_IGNORED;
+
+        if (!excludes.some((z) => pointInPolygon(x, y, z.points))) {
+          if (includes.length === 0) {
+            value = 0;
+          } else {
+            // First matching include zone owns overlapping pixels
+            const index = includes.findIndex((z) => pointInPolygon(x, y, z.points));
+            if (index !== -1) value = index;
+          }
+        }
+
+        mask[py * width + px] = value;
+        if (value !== MASK_IGNORED) this.zonePixelCounts[value]++;
+      }
+    }
+
+    this.mask = mask;
   }
 
-  analyze(videoElement: HTMLVideoElement): MotionResult {
-    if (videoElement.readyState < 2) {
+  /** Score one RGBA frame of config.width x config.height pixels. */
+  analyzeFrame(currentFrame: Uint8ClampedArray): MotionResult {
+    const changedPixels = this.config.mode === 'background'
+      ? this.subtractBackground(currentFrame)
+      : this.diffFrames(currentFrame);
+
+    if (changedPixels === null) {
       return { hasMotion: false, score: 0, confidence: 0 };
     }
+    if (changedPixels === 'lighting') {
+      return { hasMotion: false, score: 0, confidence: 0, lightingChange: true };
+    }
 
-    this.ctx.drawImage(
-      videoElement,
-      0,
-      0,
-      this.config.width,
-      this.config.height
-    );
-    const currentFrame = this.ctx.getImageData(
-      0,
-      0,
-      this.config.width,
-      this.config.height
-    );
+    // Report the zone with the highest changed-pixel ratio
+    let best = 0;
+    let score = 0;
+    for (let z = 0; z < this.scoredZones.length; z++) {
+      const total = this.zonePixelCounts[z];
+      const zoneScore = total > 0 ? changedPixels[z] / total : 0;
+      if (zoneScore > score) {
+        score = zoneScore;
+        best = z;
+      }
+    }
 
+    const zone = this.scoredZones[best];
+    return {
+      hasMotion: score > this.config.motionThreshold,
+      score,
+      confidence: Math.min(score / this.config.motionThreshold, 1),
+      zoneId: zone?.id ?? null,
+      zoneName: zone?.name ?? null,
+    };
+  }
+
+  /** Changed pixels per scored zone against the previous frame. */
+  private diffFrames(currentFrame: Uint8ClampedArray): number[] | null {
     if (!this.previousFrame) {
       this.previousFrame = currentFrame;
-      return { hasMotion: false, score: 0, confidence: 0 };
+      return null;
     }
 
-    let changedPixels = 0;
-    const totalPixels = currentFrame.data.length / 4;
+    const changedPixels = new Array(this.scoredZones.length).fill(0);
     const threshold3 = this.config.threshold * 3;
+    const mask = this.mask;
+
+    for (let i = 0, p = 0; i < currentFrame.length; i += 4, p++) {
+      const zone = mask ? mask[p] : 0;
+      if (zone === MASK_IGNORED) continue;
 
-    for (let i = 0; i < currentFrame.data.length; i += 4) {
       const diff =
-        Math.abs(currentFrame.data[i] - this.previousFrame.data[i]) +
-        Math.abs(currentFrame.data[i + 1] - this.previousFrame.data[i + 1]) +
-        Math.abs(currentFrame.data[i + 2] - this.previousFrame.data[i + 2]);
+        Math.abs(currentFrame[i] - this.previousFrame[i]) +
+        Math.abs(currentFrame[i + 1] - this.previousFrame[i + 1]) +
+        Math.abs(currentFrame[i + 2] - this.previousFrame[i + 2]);
       if (diff > threshold3) {
-        changedPixels++;
+        changedPixels[zone]++;
       }
     }
 
     this.previousFrame = currentFrame;
-    const score = changedPixels / totalPixels;
+    return changedPixels;
+  }
 
-    return {
-      hasMotion: score > this.config.motionThreshold,
-      score,
-      confidence: Math.min(score / this.config.motionThreshold, 1),
-    };
+  /**
+   * Changed pixels per scored zone against the background model, or
+   * 'lighting' when the mean brightness jumped and the frame was skipped.
+   * Small global drift (auto-exposure) is compensated by comparing against
+   * the background shifted by the mean luma difference.
+   */
+  private subtractBackground(currentFrame: Uint8ClampedArray): number[] | 'lighting' | null {
+    const data = currentFrame;
+    const pixelCount = data.length / 4;
+
+    if (!this.luma || this.luma.length !== pixelCount) {
+      this.luma = new Float32Array(pixelCount);
+    }
+    const luma = this.luma;
+    for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+      luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+
+    if (!this.background || this.background.length !== pixelCount) {
+      this.background = Float32Array.from(luma);
+      return null;
+    }
+    const background = this.background;
+    const mask = this.mask;
+
+    // Global illumination shift over the scored area
+    let sumCurrent = 0;
+    let sumBackground = 0;
+    let scored = 0;
+    for (let p = 0; p < pixelCount; p++) {
+      if (mask && mask[p] === MASK_IGNORED) continue;
+      sumCurrent += luma[p];
+      sumBackground += background[p];
+      scored++;
+    }
+    const shift = scored > 0 ? (sumCurrent - sumBackground) / scored : 0;
+
+    if (
+      this.config.suppressLightingChanges &&
+      Math.abs(shift) > this.config.illuminationThreshold
+    ) {
+      // Re-seed rather than slowly adapt, or the whole frame stays "moving"
+      background.set(luma);
+      return 'lighting';
+    }
+
+    const changedPixels = new Array(this.scoredZones.length).fill(0);
+    const { threshold, learningRate } = this.config;
+    const foregroundRate = learningRate * FOREGROUND_LEARNING_FACTOR;
+
+    for (let p = 0; p < pixelCount; p++) {
+      const isForeground = Math.abs(luma[p] - (background[p] + shift)) > threshold;
+      background[p] += (isForeground ? foregroundRate : learningRate) * (luma[p] - background[p]);
+
+      const zone = mask ? mask[p] : 0;
+      if (isForeground && zone !== MASK_IGNORED) {
+        changedPixels[zone]++;
+      }
+    }
+
+    return changedPixels;
   }
 
   updateConfig(config: Partial<MotionConfig>): void {
+    const previousMode = this.config.mode;
     this.config = { ...this.config, ...config };
     if (
       config.width !== undefined ||
       config.height !== undefined
     ) {
-      this.canvas.width = this.config.width;
-      this.canvas.height = this.config.height;
       this.previousFrame = null;
+      this.background = null;
+    }
+    if (config.mode !== undefined && config.mode !== previousMode) {
+      this.previousFrame = null;
+      this.background = null;
+    }
+    if (
+      config.zones !== undefined ||
+      config.width !== undefined ||
+      config.height !== undefined
+    ) {
+      this.buildMask();
     }
   }
 
   reset(): void {
     this.previousFrame = null;
+    this.background = null;
   }
 
   getConfig(): MotionConfig {
     return { ...this.config };
   }
 }
+
+export class MotionDetector {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private analyzer: MotionAnalyzer;
+
+  constructor(config: Partial<MotionConfig> = {}) {
+    this.analyzer = new MotionAnalyzer(config);
+    const { width, height } = this.analyzer.getConfig();
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = width;
+    this.canvas.height = height;
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Failed to get canvas 2d context');
+    }
+    this.ctx = ctx;
+  }
+
+  analyze(videoElement: HTMLVideoElement): MotionResult {
+    if (videoElement.readyState < 2) {
+      return { hasMotion: false, score: 0, confidence: 0 };
+    }
+
+    const { width, height } = this.analyzer.getConfig();
+    this.ctx.drawImage(videoElement, 0, 0, width, height);
+    const currentFrame = this.ctx.getImageData(0, 0, width, height);
+
+    return this.analyzer.analyzeFrame(currentFrame.data);
+  }
+
+  updateConfig(config: Partial<MotionConfig>): void {
+    this.analyzer.updateConfig(config);
+    if (config.width !== undefined || config.height !== undefined) {
+      const { width, height } = this.analyzer.getConfig();
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+  }
+
+  reset(): void {
+    this.analyzer.reset();
+  }
+
+  getConfig(): MotionConfig {
+    return this.analyzer.getConfig();
+  }
+
+  /** Nothing to release in-thread; mirrors WorkerMotionDetector. */
+  dispose(): void {}
+}
@@ -0,0 +1,64 @@
+/**
+ * Detection worker: scales transferred frames on an OffscreenCanvas and
+ * scores them with MotionAnalyzer, off the camera page's main thread.
+ */
+import { MotionAnalyzer } from './motionDetector';
+import type { MotionWorkerRequest, MotionWorkerResponse } from './workerMotionDetector';
+
+// The app tsconfig only ships DOM typings, so describe the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<MotionWorkerRequest>) => void) | null;
+  postMessage(message: MotionWorkerResponse): void;
+};
+
+const analyzer = new MotionAnalyzer();
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+function getContext(width: number, height: number): OffscreenCanvasRenderingContext2D {
+  if (!canvas || !ctx) {
+    canvas = new OffscreenCanvas(width, height);
+    ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Failed to get offscreen 2d context');
+    }
+  } else if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return ctx;
+}
+
+scope.onmessage = (e) => {
+  const message = e.data;
+
+  switch (message.type) {
+    case 'configure':
+      analyzer.updateConfig(message.config);
+      break;
+
+    case 'reset':
+      analyzer.reset();
+      break;
+
+    case 'frame': {
+      const { bitmap } = message;
+      try {
+        const { width, height } = analyzer.getConfig();
+        const context = getContext(width, height);
+        context.drawImage(bitmap, 0, 0, width, height);
+        const frame = context.getImageData(0, 0, width, height);
+        scope.postMessage({ type: 'result', id: message.id, result: analyzer.analyzeFrame(frame.data) });
+      } catch (error) {
+        scope.postMessage({
+          type: 'error',
+          id: message.id,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        bitmap.close();
+      }
+      break;
+    }
+  }
+};
@@ -0,0 +1,141 @@
+import { WebmStreamParser, buildWebm } from './webm';
+
+export interface SegmentConfig {
+  segmentSeconds: number;
+  mimeType: string;
+  videoBitsPerSecond: number;
+}
+
+export interface RecordedSegment {
+  blob: Blob;
+  startedAt: number;
+  endedAt: number;
+}
+
+const DEFAULT_CONFIG: SegmentConfig = {
+  segmentSeconds: 60,
+  mimeType: 'video/webm;codecs=vp8,opus',
+  // Lower than event clips: this runs around the clock
+  videoBitsPerSecond: 600_000,
+};
+
+/**
+ * Rewrite a MediaRecorder file with a Duration and Cues (see ./webm) so the
+ * timeline can seek inside it. Falls back to the file as recorded if it
+ * can't be parsed.
+ */
+async function makeSeekable(blob: Blob): Promise<Blob> {
+  try {
+    const parser = new WebmStreamParser();
+    const clusters = parser.push(new Uint8Array(await blob.arrayBuffer()));
+    const open = parser.peekOpenCluster();
+    if (open) clusters.push(open);
+    if (!parser.header || clusters.length === 0) return blob;
+    return new Blob([buildWebm(parser.header, clusters)], { type: 'video/webm' });
+  } catch (err) {
+    console.error('[SegmentRecorder] Failed to index segment, keeping it as recorded:', err);
+    return blob;
+  }
+}
+
+/**
+ * Records a stream as back-to-back, fixed-length segments for continuous
+ * recording. Each segment comes from its own MediaRecorder so it is a
+ * complete, independently playable (and, once indexed, seekable) file. The next recorder starts before
+ * the previous one stops, so segments meet without a gap.
+ */
+export class SegmentRecorder {
+  private config: SegmentConfig;
+  private onSegment: (segment: RecordedSegment) => void;
+  private stream: MediaStream | null = null;
+  private mimeType: string | null = null;
+  private current: { recorder: MediaRecorder; startedAt: number } | null = null;
+  private rotateTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(onSegment: (segment: RecordedSegment) => void, config: Partial<SegmentConfig> = {}) {
+    this.onSegment = onSegment;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(stream: MediaStream): void {
+    if (this.stream) return;
+
+    this.mimeType = [this.config.mimeType, 'video/webm'].find((type) =>
+      MediaRecorder.isTypeSupported(type)
+    ) ?? null;
+    if (!this.mimeType) {
+      console.warn('[SegmentRecorder] No supported video mime type found');
+      return;
+    }
+
+    this.stream = stream;
+    this.current = this.startRecorder();
+    if (!this.current) {
+      this.stream = null;
+      return;
+    }
+    this.rotateTimer = setInterval(() => this.rotate(), this.config.segmentSeconds * 1000);
+    console.log('[SegmentRecorder] Started continuous recording');
+  }
+
+  /** Stop recording; the partial segment in progress is still delivered. */
+  stop(): void {
+    if (this.rotateTimer) clearInterval(this.rotateTimer);
+    this.rotateTimer = null;
+    this.finish(this.current);
+    this.current = null;
+    this.stream = null;
+    console.log('[SegmentRecorder] Stopped continuous recording');
+  }
+
+  get recording(): boolean {
+    return this.current !== null;
+  }
+
+  private rotate(): void {
+    const previous = this.current;
+    this.current = this.startRecorder();
+    this.finish(previous);
+  }
+
+  private startRecorder(): { recorder: MediaRecorder; startedAt: number } | null {
+    if (!this.stream || !this.mimeType) return null;
+
+    try {
+      const recorder = new MediaRecorder(this.stream, {
+        mimeType: this.mimeType,
+        videoBitsPerSecond: this.config.videoBitsPerSecond,
+      });
+      const startedAt = Date.now();
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = async () => {
+        if (chunks.length === 0) return;
+        const endedAt = Date.now();
+        this.onSegment({
+          blob: await makeSeekable(new Blob(chunks, { type: recorder.mimeType })),
+          startedAt,
+          endedAt,
+        });
+      };
+      recorder.onerror = (e) => {
+        console.error('[SegmentRecorder] MediaRecorder error:', e);
+      };
+
+      recorder.start(1000);
+      return { recorder, startedAt };
+    } catch (err) {
+      console.error('[SegmentRecorder] Failed to start MediaRecorder:', err);
+      return null;
+    }
+  }
+
+  private finish(segment: { recorder: MediaRecorder } | null): void {
+    if (segment && segment.recorder.state !== 'inactive') {
+      segment.recorder.stop();
+    }
+  }
+}
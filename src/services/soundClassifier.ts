@@ -0,0 +1,218 @@
+export type SoundClass = 'bark' | 'meow' | 'whine' | 'noise';
+
+export const SOUND_CLASSES: SoundClass[] = ['bark', 'meow', 'whine', 'noise'];
+
+export const SOUND_CLASS_LABELS: Record<SoundClass, string> = {
+  bark: 'Barking',
+  meow: 'Meowing',
+  whine: 'Whining',
+  noise: 'Noise',
+};
+
+/** Per-frame features taken from the AnalyserNode buffers */
+export interface SoundFeatures {
+  time: number; // ms, performance.now()
+  volume: number; // RMS, 0-1
+  loud: boolean;
+  pitch: number | null; // Hz, null when the frame is not periodic
+  clarity: number; // 0-1, strength of the periodicity
+  // Share of 0-8 kHz energy in each band
+  lowEnergy: number; // < 500 Hz
+  midEnergy: number; // 500-2000 Hz
+  highEnergy: number; // 2-8 kHz
+}
+
+export interface SoundClassification {
+  soundClass: SoundClass;
+  confidence: number;
+  peakVolume: number;
+  durationMs: number;
+}
+
+const MIN_PITCH_HZ = 100;
+const MAX_PITCH_HZ = 2500;
+const MIN_CLARITY = 0.5;
+// Below this score no pet class fits and the window is labelled noise
+const MIN_CLASS_SCORE = 0.35;
+
+function ramp(x: number, from: number, to: number): number {
+  return Math.min(Math.max((x - from) / (to - from), 0), 1);
+}
+
+/** 1 inside [lo, hi], fading to 0 over a quarter octave outside it */
+function within(x: number, lo: number, hi: number): number {
+  return ramp(x, lo * 0.8, lo) * (1 - ramp(x, hi, hi * 1.25));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Normalized square difference autocorrelation (McLeod pitch method).
+ * Skips the lag-0 lobe, then takes the first peak within 90% of the best.
+ */
+function estimatePitch(
+  samples: Float32Array,
+  sampleRate: number
+): { pitch: number | null; clarity: number } {
+  const minLag = Math.max(1, Math.floor(sampleRate / MAX_PITCH_HZ));
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), samples.length >> 1);
+  const window = samples.length - maxLag;
+  if (maxLag <= minLag) return { pitch: null, clarity: 0 };
+
+  const nsdf = new Float32Array(maxLag + 1);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let acf = 0;
+    let energy = 0;
+    for (let i = 0; i < window; i++) {
+      const a = samples[i];
+      const b = samples[i + lag];
+      acf += a * b;
+      energy += a * a + b * b;
+    }
+    nsdf[lag] = energy > 0 ? (2 * acf) / energy : 0;
+  }
+
+  let start = minLag;
+  while (start <= maxLag && nsdf[start] > 0) start++;
+
+  let best = 0;
+  for (let lag = start; lag <= maxLag; lag++) {
+    if (nsdf[lag] > best) best = nsdf[lag];
+  }
+  if (best < MIN_CLARITY) return { pitch: null, clarity: Math.max(best, 0) };
+
+  for (let lag = start; lag <= maxLag; lag++) {
+    const isPeak = nsdf[lag] >= nsdf[lag - 1] && (lag === maxLag || nsdf[lag] >= nsdf[lag + 1]);
+    if (isPeak && nsdf[lag] >= best * 0.9) {
+      return { pitch: sampleRate / lag, clarity: nsdf[lag] };
+    }
+  }
+  return { pitch: null, clarity: best };
+}
+
+export function extractSoundFeatures(
+  timeData: Float32Array,
+  frequencyData: Float32Array, // dB per bin
+  sampleRate: number,
+  volume: number,
+  loud: boolean,
+  time: number
+): SoundFeatures {
+  const binHz = sampleRate / (frequencyData.length * 2);
+  let low = 0;
+  let mid = 0;
+  let high = 0;
+  for (let i = 1; i < frequencyData.length; i++) {
+    const hz = i * binHz;
+    if (hz > 8000) break;
+    const power = Math.pow(10, frequencyData[i] / 10);
+    if (hz < 500) low += power;
+    else if (hz < 2000) mid += power;
+    else high += power;
+  }
+  const total = low + mid + high || 1;
+
+  // Quiet frames only mark gaps between bursts; skip the autocorrelation
+  const { pitch, clarity } = loud
+    ? estimatePitch(timeData, sampleRate)
+    : { pitch: null, clarity: 0 };
+
+  return {
+    time,
+    volume,
+    loud,
+    pitch,
+    clarity,
+    lowEnergy: low / total,
+    midEnergy: mid / total,
+    highEnergy: high / total,
+  };
+}
+
+/**
+ * Label a window of frames covering one sound episode.
+ *
+ * Heuristics: barks are short (< ~400 ms), partly voiced bursts with a low
+ * fundamental, often repeated; meows are voiced glides of roughly half a
+ * second to two seconds around 350-1200 Hz; whines are sustained, steady,
+ * high-pitched tones. Anything mostly unvoiced or broadband is noise.
+ */
+export function classifySoundWindow(frames: SoundFeatures[]): SoundClassification {
+  const loud = frames.filter((f) => f.loud);
+  const peakVolume = loud.reduce((max, f) => Math.max(max, f.volume), 0);
+  const durationMs = frames.length > 1 ? frames[frames.length - 1].time - frames[0].time : 0;
+
+  if (loud.length === 0) {
+    return { soundClass: 'noise', confidence: 0, peakVolume, durationMs };
+  }
+
+  // Frame spacing is set by the detection loop, not the analyser
+  const gaps = frames.slice(1).map((f, i) => f.time - frames[i].time);
+  const frameMs = gaps.length > 0 ? median(gaps) : 200;
+
+  // Runs of consecutive loud frames
+  const runs: number[] = [];
+  let run = 0;
+  for (const frame of frames) {
+    if (frame.loud) {
+      run++;
+    } else if (run > 0) {
+      runs.push(run * frameMs);
+      run = 0;
+    }
+  }
+  if (run > 0) runs.push(run * frameMs);
+  const longestRun = Math.max(...runs);
+  const meanRun = runs.reduce((a, b) => a + b, 0) / runs.length;
+
+  const voiced = loud.filter((f) => f.pitch !== null && f.clarity >= MIN_CLARITY);
+  const voicedRatio = voiced.length / loud.length;
+  const pitches = voiced.map((f) => f.pitch as number);
+  const pitch = pitches.length > 0 ? median(pitches) : 0;
+  // Ratio between highest and lowest pitch; 1 means a flat tone
+  const glide = pitches.length > 1 ? Math.max(...pitches) / Math.min(...pitches) : 1;
+
+  const mean = (key: 'lowEnergy' | 'midEnergy' | 'highEnergy') =>
+    loud.reduce((sum, f) => sum + f[key], 0) / loud.length;
+  const lowMid = mean('lowEnergy') + mean('midEnergy');
+  const high = mean('highEnergy');
+
+  const scores: Record<Exclude<SoundClass, 'noise'>, number> = {
+    bark:
+      ramp(voicedRatio, 0.2, 0.5) *
+      within(pitch, 150, 1000) *
+      (1 - ramp(meanRun, 400, 800)) *
+      ramp(lowMid, 0.5, 0.8) *
+      (0.7 + 0.3 * ramp(runs.length, 1, 3)),
+    meow:
+      ramp(voicedRatio, 0.4, 0.7) *
+      within(pitch, 350, 1200) *
+      ramp(longestRun, 300, 600) *
+      (1 - ramp(longestRun, 2000, 3000)) *
+      (0.6 + 0.4 * ramp(glide, 1.1, 1.4)),
+    whine:
+      ramp(voicedRatio, 0.5, 0.8) *
+      within(pitch, 500, 2500) *
+      ramp(longestRun, 1000, 1600) *
+      (0.6 + 0.4 * (1 - ramp(glide, 1.2, 1.6))),
+  };
+
+  let soundClass: SoundClass = 'noise';
+  let confidence = 0;
+  for (const [label, score] of Object.entries(scores) as [SoundClass, number][]) {
+    if (score > confidence) {
+      soundClass = label;
+      confidence = score;
+    }
+  }
+
+  if (confidence < MIN_CLASS_SCORE) {
+    const noiseScore = Math.max(1 - ramp(voicedRatio, 0.3, 0.6), ramp(high, 0.3, 0.6));
+    return { soundClass: 'noise', confidence: noiseScore, peakVolume, durationMs };
+  }
+
+  return { soundClass, confidence, peakVolume, durationMs };
+}
@@ -1,23 +1,64 @@
+import {
+  classifySoundWindow,
+  extractSoundFeatures,
+  type SoundClassification,
+  type SoundFeatures,
+} from './soundClassifier';
+
 export interface SoundConfig {
+  /** RMS above the noise floor (or above silence when not adaptive) */
   volumeThreshold: number;
   fftSize: number;
+  /** Keep learning the ambient level and trigger relative to it */
+  adaptiveFloor: boolean;
+  /** High-pass cutoff in Hz, 0 = off (e.g. 150 to ignore HVAC and fridge hum) */
+  lowCutHz: number;
+  /** Low-pass cutoff in Hz, 0 = off */
+  highCutHz: number;
 }
 
 export interface SoundResult {
   hasSound: boolean;
   volume: number;
+  /** Learned ambient RMS; 0 when the floor is not adaptive */
+  noiseFloor: number;
+  /** Set once a sound episode has ended and been labelled */
+  classification: SoundClassification | null;
 }
 
 const DEFAULT_CONFIG: SoundConfig = {
   volumeThreshold: 0.15,
   fftSize: 2048,
+  adaptiveFloor: true,
+  lowCutHz: 0,
+  highCutHz: 0,
 };
 
+// Noise floor time constants: drops quickly when the room gets quieter,
+// rises slowly for new ambient noise, and barely moves during a sound so a
+// long bark series isn't learned as background
+const FLOOR_FALL_MS = 2_000;
+const FLOOR_RISE_MS = 30_000;
+const FLOOR_RISE_DURING_SOUND_MS = 300_000;
+
+// An episode ends after this much quiet, so a series of barks stays one window
+const EPISODE_GAP_MS = 600;
+// Long sounds are labelled in windows of at most this length
+const MAX_EPISODE_MS = 2500;
+
 export class SoundDetector {
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private source: MediaStreamAudioSourceNode | null = null;
+  private highPass: BiquadFilterNode | null = null;
+  private lowPass: BiquadFilterNode | null = null;
   private dataArray: Uint8Array<ArrayBuffer> | null = null;
+  private timeData: Float32Array<ArrayBuffer> | null = null;
+  private frequencyData: Float32Array<ArrayBuffer> | null = null;
+  private episode: SoundFeatures[] = [];
+  private lastLoudAt = 0;
+  private noiseFloor: number | null = null;
+  private lastFloorUpdate = 0;
   private config: SoundConfig;
   private isConnected = false;
 
@@ -43,10 +84,19 @@ export class SoundDetector {
       this.analyser.minDecibels = -90;
       this.analyser.maxDecibels = -10;
 
+      // source → high-pass → low-pass → analyser
+      this.highPass = this.audioContext.createBiquadFilter();
+      this.highPass.type = 'highpass';
+      this.lowPass = this.audioContext.createBiquadFilter();
+      this.lowPass.type = 'lowpass';
+      this.applyBand();
+
       this.source = this.audioContext.createMediaStreamSource(stream);
-      this.source.connect(this.analyser);
+      this.source.connect(this.highPass);
+      this.highPass.connect(this.lowPass);
+      this.lowPass.connect(this.analyser);
 
-      this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+      this.allocateBuffers();
       this.isConnected = true;
     } catch (err) {
       console.error('[SoundDetector] Failed to connect:', err);
@@ -56,7 +106,7 @@ export class SoundDetector {
 
   analyze(): SoundResult {
     if (!this.analyser || !this.dataArray) {
-      return { hasSound: false, volume: 0 };
+      return { hasSound: false, volume: 0, noiseFloor: 0, classification: null };
     }
 
     this.analyser.getByteTimeDomainData(this.dataArray);
@@ -68,18 +118,109 @@ export class SoundDetector {
       sum += normalized * normalized;
     }
     const volume = Math.sqrt(sum / this.dataArray.length);
+    const noiseFloor = this.config.adaptiveFloor ? this.noiseFloor ?? volume : 0;
+    const hasSound = volume > noiseFloor + this.config.volumeThreshold;
+
+    if (this.config.adaptiveFloor) {
+      this.updateNoiseFloor(volume, hasSound);
+    }
 
     return {
-      hasSound: volume > this.config.volumeThreshold,
+      hasSound,
       volume,
+      noiseFloor,
+      classification: this.trackEpisode(volume, hasSound),
     };
   }
 
+  /** Asymmetric exponential average of RMS volume, time-based. */
+  private updateNoiseFloor(volume: number, hasSound: boolean): void {
+    const now = performance.now();
+    if (this.noiseFloor === null) {
+      this.noiseFloor = volume;
+      this.lastFloorUpdate = now;
+      return;
+    }
+
+    const elapsed = now - this.lastFloorUpdate;
+    this.lastFloorUpdate = now;
+
+    const tau = volume < this.noiseFloor
+      ? FLOOR_FALL_MS
+      : hasSound
+        ? FLOOR_RISE_DURING_SOUND_MS
+        : FLOOR_RISE_MS;
+    const alpha = 1 - Math.exp(-elapsed / tau);
+    this.noiseFloor += alpha * (volume - this.noiseFloor);
+  }
+
+  /** Cutoffs of 0 open the filter fully. */
+  private applyBand(): void {
+    if (!this.audioContext || !this.highPass || !this.lowPass) return;
+    const nyquist = this.audioContext.sampleRate / 2;
+    const { lowCutHz, highCutHz } = this.config;
+    this.highPass.frequency.value = lowCutHz > 0 ? Math.min(lowCutHz, nyquist) : 10;
+    this.lowPass.frequency.value = highCutHz > 0 ? Math.min(highCutHz, nyquist) : nyquist;
+  }
+
+  /**
+   * Collect spectral features while a sound episode is running and label
+   * the window once it goes quiet or hits MAX_EPISODE_MS.
+   */
+  private trackEpisode(volume: number, loud: boolean): SoundClassification | null {
+    if (!this.analyser || !this.audioContext || !this.timeData || !this.frequencyData) {
+      return null;
+    }
+    if (!loud && this.episode.length === 0) {
+      return null;
+    }
+
+    const now = performance.now();
+    this.analyser.getFloatTimeDomainData(this.timeData);
+    this.analyser.getFloatFrequencyData(this.frequencyData);
+    this.episode.push(
+      extractSoundFeatures(
+        this.timeData,
+        this.frequencyData,
+        this.audioContext.sampleRate,
+        volume,
+        loud,
+        now
+      )
+    );
+    if (loud) this.lastLoudAt = now;
+
+    const started = this.episode[0].time;
+    if (now - this.lastLoudAt < EPISODE_GAP_MS && now - started < MAX_EPISODE_MS) {
+      return null;
+    }
+
+    const classification = classifySoundWindow(this.episode);
+    this.episode = [];
+    return classification;
+  }
+
+  private allocateBuffers(): void {
+    if (!this.analyser) return;
+    this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+    this.timeData = new Float32Array(this.analyser.fftSize);
+    this.frequencyData = new Float32Array(this.analyser.frequencyBinCount);
+    this.episode = [];
+  }
+
   updateConfig(config: Partial<SoundConfig>): void {
     this.config = { ...this.config, ...config };
     if (this.analyser && config.fftSize !== undefined) {
       this.analyser.fftSize = config.fftSize;
-      this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+      this.allocateBuffers();
+    }
+    if (config.lowCutHz !== undefined || config.highCutHz !== undefined) {
+      this.applyBand();
+      // The filtered level differs, so relearn the floor
+      this.noiseFloor = null;
+    }
+    if (config.adaptiveFloor === false) {
+      this.noiseFloor = null;
     }
   }
 
@@ -88,12 +229,20 @@ export class SoundDetector {
       this.source.disconnect();
       this.source = null;
     }
+    this.highPass?.disconnect();
+    this.lowPass?.disconnect();
+    this.highPass = null;
+    this.lowPass = null;
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
     }
     this.analyser = null;
     this.dataArray = null;
+    this.timeData = null;
+    this.frequencyData = null;
+    this.episode = [];
+    this.noiseFloor = null;
     this.isConnected = false;
   }
 
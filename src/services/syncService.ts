@@ -1,19 +1,54 @@
-import { api } from '../lib/api';
+import { api, ApiError, type Clip, type ClipPart } from '../lib/api';
 
 export type SyncStatus = 'pending' | 'uploading' | 'synced' | 'failed';
 
 export interface SyncableClip {
   id: string;
+  /** Missing on records queued before segments existed */
+  kind?: 'clip';
   type: 'motion' | 'sound';
   timestamp: number;
   confidence: number;
   deviceId: string;
+  /** The whole clip, or its first part */
   videoBlob: Blob;
+  /** Remaining parts of a long clip, uploaded one request each */
+  videoParts?: Blob[];
+  /** Server ids of the events the clip covers */
+  eventIds?: string[];
+  /** Set once the first part is stored, so a retry resumes with the rest */
+  serverClipId?: string;
+  uploadedParts?: number;
+  /** The resumable upload in flight, and the last offset the server acknowledged */
+  upload?: UploadProgress;
   syncStatus: SyncStatus;
   syncAttempts: number;
   lastSyncError?: string;
 }
 
+export interface UploadProgress {
+  id: string;
+  /** 0 for the clip's own file, then each of videoParts */
+  part: number;
+  chunkSize: number;
+  receivedBytes: number;
+}
+
+/** A continuous-recording segment; timestamp is when it started. */
+export interface SyncableSegment {
+  id: string;
+  kind: 'segment';
+  timestamp: number;
+  endedAt: number;
+  deviceId: string;
+  videoBlob: Blob;
+  syncStatus: SyncStatus;
+  syncAttempts: number;
+  lastSyncError?: string;
+}
+
+type SyncableItem = SyncableClip | SyncableSegment;
+
 export interface SyncStats {
   pending: number;
   uploading: number;
@@ -28,6 +63,12 @@ const RETRY_DELAYS = [1000, 2000, 4000, 8000, 16000]; // Exponential backoff
 
 type SyncEventListener = (stats: SyncStats) => void;
 
+/** SHA-256 of a blob as hex, the form the server stores clip checksums in. */
+async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 /** Count records matching a key on an IDBIndex without deserializing blobs. */
 function countByIndex(index: IDBIndex, key: string): Promise<number> {
   return new Promise((resolve, reject) => {
@@ -97,22 +138,28 @@ class SyncService {
     this.listeners.forEach((listener) => listener(stats));
   }
 
-  async queueClip(clip: Omit<SyncableClip, 'syncStatus' | 'syncAttempts'>): Promise<void> {
-    if (!this.db) throw new Error('SyncService not initialized');
+  async queueClip(
+    clip: Omit<SyncableClip, 'kind' | 'syncStatus' | 'syncAttempts'>
+  ): Promise<void> {
+    return this.enqueue({ ...clip, kind: 'clip', syncStatus: 'pending', syncAttempts: 0 });
+  }
 
-    const syncableClip: SyncableClip = {
-      ...clip,
-      syncStatus: 'pending',
-      syncAttempts: 0,
-    };
+  async queueSegment(
+    segment: Omit<SyncableSegment, 'kind' | 'syncStatus' | 'syncAttempts'>
+  ): Promise<void> {
+    return this.enqueue({ ...segment, kind: 'segment', syncStatus: 'pending', syncAttempts: 0 });
+  }
+
+  private async enqueue(item: SyncableItem): Promise<void> {
+    if (!this.db) throw new Error('SyncService not initialized');
 
     return new Promise((resolve, reject) => {
       const tx = this.db!.transaction(STORE_NAME, 'readwrite');
       const store = tx.objectStore(STORE_NAME);
-      const request = store.add(syncableClip);
+      const request = store.add(item);
 
       request.onsuccess = () => {
-        console.log('[SyncService] Clip queued:', clip.id);
+        console.log(`[SyncService] ${item.kind === 'segment' ? 'Segment' : 'Clip'} queued:`, item.id);
         this.emitStats();
         resolve();
         this.processQueue();
@@ -142,10 +189,21 @@ class SyncService {
         if (!clip) continue;
 
         try {
-          await this.uploadClip(clip);
+          if (clip.kind === 'segment') {
+            await this.uploadSegment(clip);
+          } else {
+            await this.uploadClip(clip);
+          }
           await this.updateClipStatus(clipId, 'synced');
           console.log('[SyncService] Clip uploaded successfully:', clipId);
         } catch (error) {
+          // Recording was switched off for the room; the segment isn't wanted
+          if (clip.kind === 'segment' && error instanceof ApiError && error.status === 409) {
+            console.log('[SyncService] Dropping segment, recording is off:', clipId);
+            await this.deleteItem(clipId);
+            continue;
+          }
+
           console.error('[SyncService] Upload failed:', clipId, error);
           const attempts = clip.syncAttempts + 1;
           const status = attempts >= MAX_RETRY_ATTEMPTS ? 'failed' : 'pending';
@@ -170,15 +228,97 @@ class SyncService {
   private async uploadClip(clip: SyncableClip): Promise<void> {
     if (!this.roomId) throw new Error('Room ID not set');
 
+    let serverClipId = clip.serverClipId;
+    if (!serverClipId) {
+      const { clip: created } = await this.uploadResumable(clip, 0, clip.videoBlob);
+      serverClipId = created!.id;
+      await this.updateClipStatus(clip.id, 'uploading', {
+        serverClipId,
+        uploadedParts: 0,
+        upload: undefined,
+      });
+    }
+
+    // Parts go up one at a time; progress is saved after each
+    const parts = clip.videoParts ?? [];
+    for (let i = clip.uploadedParts ?? 0; i < parts.length; i++) {
+      await this.uploadResumable(clip, i + 1, parts[i], serverClipId);
+      await this.updateClipStatus(clip.id, 'uploading', { uploadedParts: i + 1, upload: undefined });
+    }
+  }
+
+  /**
+   * Send one file of a clip in chunks, saving the acknowledged offset after
+   * each so a retry (even after a reload) picks up where the last one stopped.
+   */
+  private async uploadResumable(
+    clip: SyncableClip,
+    part: number,
+    blob: Blob,
+    serverClipId?: string
+  ): Promise<{ clip?: Clip; part?: ClipPart }> {
+    let progress = clip.upload?.part === part ? clip.upload : null;
+
+    if (!progress) {
+      const { upload } = await api.createClipUpload({
+        roomId: this.roomId!,
+        deviceId: clip.deviceId,
+        detectionType: clip.type,
+        confidence: clip.confidence,
+        recordedAt: new Date(clip.timestamp).toISOString(),
+        // The server matches the bare type, without codec parameters
+        mimeType: blob.type.split(';')[0] || 'video/webm',
+        size: blob.size,
+        eventIds: clip.eventIds,
+        ...(serverClipId && { clipId: serverClipId, partIndex: part }),
+      });
+      progress = { id: upload.id, part, chunkSize: upload.chunkSize, receivedBytes: 0 };
+      await this.updateClipStatus(clip.id, 'uploading', { upload: progress });
+    }
+
+    while (progress.receivedBytes < blob.size) {
+      const start = progress.receivedBytes;
+      const chunk = blob.slice(start, start + progress.chunkSize);
+
+      let receivedBytes: number;
+      try {
+        const { upload } = await api.uploadClipChunk(progress.id, chunk, start, blob.size);
+        receivedBytes = upload.receivedBytes;
+      } catch (error) {
+        if (!(error instanceof ApiError)) throw error;
+        if (error.status === 404) {
+          // The session expired; the next attempt opens a new one
+          await this.updateClipStatus(clip.id, 'uploading', { upload: undefined });
+          throw error;
+        }
+        if (error.status !== 409) throw error;
+        // Out of step with the server (an earlier response was lost); ask where it is
+        const { upload } = await api.getClipUpload(progress.id);
+        receivedBytes = upload.receivedBytes;
+      }
+
+      progress = { ...progress, receivedBytes };
+      await this.updateClipStatus(clip.id, 'uploading', { upload: progress });
+    }
+
+    try {
+      return await api.completeClipUpload(progress.id, await sha256Hex(blob));
+    } catch (error) {
+      // Expired, or assembled wrong (422) and discarded: start this file over
+      if (error instanceof ApiError && (error.status === 404 || error.status === 422)) {
+        await this.updateClipStatus(clip.id, 'uploading', { upload: undefined });
+      }
+      throw error;
+    }
+  }
+
+  private async uploadSegment(segment: SyncableSegment): Promise<void> {
     const formData = new FormData();
-    formData.append('video', clip.videoBlob, `clip-${clip.id}.webm`);
-    formData.append('roomId', this.roomId);
-    formData.append('deviceId', clip.deviceId);
-    formData.append('detectionType', clip.type);
-    formData.append('confidence', clip.confidence.toString());
-    formData.append('recordedAt', new Date(clip.timestamp).toISOString());
-
-    await api.uploadClip(formData);
+    formData.append('video', segment.videoBlob, `segment-${segment.id}.webm`);
+    formData.append('startedAt', new Date(segment.timestamp).toISOString());
+    formData.append('endedAt', new Date(segment.endedAt).toISOString());
+
+    await api.uploadRecordingSegment(formData);
   }
 
   /** Get IDs only — no blob deserialization. */
@@ -189,7 +329,7 @@ class SyncService {
   }
 
   /** Load a single clip by ID (including blob). */
-  private async getClipById(id: string): Promise<SyncableClip | null> {
+  private async getClipById(id: string): Promise<SyncableItem | null> {
     return new Promise((resolve, reject) => {
       const tx = this.db!.transaction(STORE_NAME, 'readonly');
       const request = tx.objectStore(STORE_NAME).get(id);
@@ -198,10 +338,24 @@ class SyncService {
     });
   }
 
+  private async deleteItem(id: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction(STORE_NAME, 'readwrite');
+      const request = tx.objectStore(STORE_NAME).delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   private async updateClipStatus(
     id: string,
     status: SyncStatus,
-    extra?: Partial<SyncableClip>
+    extra?: Partial<
+      Pick<
+        SyncableClip,
+        'syncAttempts' | 'lastSyncError' | 'serverClipId' | 'uploadedParts' | 'upload'
+      >
+    >
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       const tx = this.db!.transaction(STORE_NAME, 'readwrite');
@@ -0,0 +1,464 @@
+/**
+ * Just enough WebM (EBML) handling to cut clips out of a live MediaRecorder
+ * stream. MediaRecorder writes the EBML header and track info once, then an
+ * endless run of clusters with no sizes, durations or cues. WebmStreamParser
+ * splits that stream into the init segment and whole clusters; buildWebm
+ * stitches a run of clusters back into a standalone, seekable file.
+ */
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Tags: 0x1254c367,
+  Chapters: 0x1043a770,
+  Attachments: 0x1941a469,
+} as const;
+
+// Children of Segment; seeing one inside an unknown-size cluster ends it
+const SEGMENT_CHILDREN = new Set<number>([
+  ID.SeekHead,
+  ID.Info,
+  ID.Tracks,
+  ID.Cluster,
+  ID.Cues,
+  ID.Tags,
+  ID.Chapters,
+  ID.Attachments,
+]);
+
+const UNKNOWN_SIZE = -1;
+const VIDEO_TRACK_TYPE = 1;
+
+export interface WebmHeader {
+  /** The EBML element, copied as-is */
+  ebml: Uint8Array;
+  /** Children of Info, without any Duration */
+  info: Uint8Array;
+  /** The whole Tracks element */
+  tracks: Uint8Array;
+  /** Nanoseconds per timecode tick; 1e6 (milliseconds) in practice */
+  timecodeScale: number;
+  videoTrack: number | null;
+}
+
+export interface WebmCluster {
+  /** Absolute cluster timecode, in ticks */
+  timecode: number;
+  /** Starts with a video keyframe, so playback can begin here */
+  keyframe: boolean;
+  /** Children except Timecode, which is rewritten on output */
+  body: Uint8Array;
+  /** Last block time relative to the cluster timecode */
+  lastBlockOffset: number;
+  blockCount: number;
+}
+
+// ── Reading ──────────────────────────────────────────────────────────
+
+function vintLength(first: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (first & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+}
+
+/** Element ID with its marker bits, or null if the bytes aren't there yet. */
+function readId(bytes: Uint8Array, pos: number): { id: number; length: number } | null {
+  if (pos >= bytes.length) return null;
+  const length = vintLength(bytes[pos]);
+  if (length === 0 || length > 4) throw new Error('Invalid EBML element ID');
+  if (pos + length > bytes.length) return null;
+  let id = 0;
+  for (let i = 0; i < length; i++) id = id * 256 + bytes[pos + i];
+  return { id, length };
+}
+
+function readSize(bytes: Uint8Array, pos: number): { size: number; length: number } | null {
+  if (pos >= bytes.length) return null;
+  const length = vintLength(bytes[pos]);
+  if (length === 0) throw new Error('Invalid EBML element size');
+  if (pos + length > bytes.length) return null;
+  let size = bytes[pos] & (0xff >> length);
+  let allOnes = size === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    size = size * 256 + bytes[pos + i];
+    if (bytes[pos + i] !== 0xff) allOnes = false;
+  }
+  return { size: allOnes ? UNKNOWN_SIZE : size, length };
+}
+
+function readUint(bytes: Uint8Array): number {
+  let value = 0;
+  for (const byte of bytes) value = value * 256 + byte;
+  return value;
+}
+
+interface ElementHeader {
+  id: number;
+  size: number;
+  headerLength: number;
+}
+
+function readHeader(bytes: Uint8Array, pos: number): ElementHeader | null {
+  const id = readId(bytes, pos);
+  if (!id) return null;
+  const size = readSize(bytes, pos + id.length);
+  if (!size) return null;
+  return { id: id.id, size: size.size, headerLength: id.length + size.length };
+}
+
+/** Walk the direct children of an element's payload. */
+function* children(payload: Uint8Array): Generator<{ id: number; data: Uint8Array; raw: Uint8Array }> {
+  let pos = 0;
+  while (pos < payload.length) {
+    const header = readHeader(payload, pos);
+    if (!header || header.size === UNKNOWN_SIZE) return;
+    const start = pos + header.headerLength;
+    const end = start + header.size;
+    if (end > payload.length) return;
+    yield { id: header.id, data: payload.subarray(start, end), raw: payload.subarray(pos, end) };
+    pos = end;
+  }
+}
+
+function parseVideoTrack(tracks: Uint8Array): number | null {
+  for (const entry of children(tracks)) {
+    if (entry.id !== ID.TrackEntry) continue;
+    let number: number | null = null;
+    let type: number | null = null;
+    for (const field of children(entry.data)) {
+      if (field.id === ID.TrackNumber) number = readUint(field.data);
+      if (field.id === ID.TrackType) type = readUint(field.data);
+    }
+    if (type === VIDEO_TRACK_TYPE && number !== null) return number;
+  }
+  return null;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+interface OpenCluster {
+  timecode: number;
+  keyframe: boolean;
+  sawVideoBlock: boolean;
+  parts: Uint8Array[];
+  lastBlockOffset: number;
+  blockCount: number;
+  /** Bytes left for a known-size cluster */
+  remaining: number | null;
+}
+
+/**
+ * Incremental parser for a MediaRecorder WebM stream. Feed it chunks in
+ * order; it returns each cluster once the next one starts.
+ */
+export class WebmStreamParser {
+  header: WebmHeader | null = null;
+
+  private buffer: Uint8Array = new Uint8Array(0);
+  private ebml: Uint8Array | null = null;
+  private info: Uint8Array | null = null;
+  private timecodeScale = 1_000_000;
+  private inSegment = false;
+  private cluster: OpenCluster | null = null;
+
+  push(chunk: Uint8Array): WebmCluster[] {
+    this.buffer = this.buffer.length ? concat([this.buffer, chunk]) : chunk;
+    const done: WebmCluster[] = [];
+    let pos = 0;
+
+    for (;;) {
+      if (this.cluster?.remaining === 0) done.push(this.closeCluster());
+
+      const header = readHeader(this.buffer, pos);
+      if (!header) break;
+      const { id, size, headerLength } = header;
+
+      if (!this.inSegment) {
+        if (id === ID.Segment) {
+          this.inSegment = true;
+          pos += headerLength;
+          continue;
+        }
+        if (size === UNKNOWN_SIZE) throw new Error('Unexpected unknown-size element');
+        if (pos + headerLength + size > this.buffer.length) break;
+        if (id === ID.EBML) this.ebml = this.buffer.slice(pos, pos + headerLength + size);
+        pos += headerLength + size;
+        continue;
+      }
+
+      // A segment-level element ends an open cluster of unknown size
+      if (this.cluster && this.cluster.remaining === null && SEGMENT_CHILDREN.has(id)) {
+        done.push(this.closeCluster());
+      }
+
+      if (!this.cluster) {
+        if (id === ID.Cluster) {
+          this.cluster = {
+            timecode: 0,
+            keyframe: false,
+            sawVideoBlock: false,
+            parts: [],
+            lastBlockOffset: 0,
+            blockCount: 0,
+            remaining: size === UNKNOWN_SIZE ? null : size,
+          };
+          pos += headerLength;
+          continue;
+        }
+        if (size === UNKNOWN_SIZE) throw new Error('Unexpected unknown-size element');
+        if (pos + headerLength + size > this.buffer.length) break;
+        this.readSegmentChild(id, this.buffer.subarray(pos, pos + headerLength + size), headerLength);
+        pos += headerLength + size;
+        continue;
+      }
+
+      // Inside a cluster: blocks and the cluster timecode all have sizes
+      if (size === UNKNOWN_SIZE) throw new Error('Unexpected unknown-size element');
+      const end = pos + headerLength + size;
+      if (end > this.buffer.length) break;
+      this.readClusterChild(id, this.buffer.subarray(pos + headerLength, end), this.buffer.slice(pos, end));
+      if (this.cluster.remaining !== null) this.cluster.remaining -= headerLength + size;
+      pos = end;
+    }
+
+    this.buffer = this.buffer.slice(pos);
+    return done;
+  }
+
+  /** The cluster still being written, as it stands now. */
+  peekOpenCluster(): WebmCluster | null {
+    if (!this.cluster || this.cluster.blockCount === 0) return null;
+    return this.toCluster(this.cluster);
+  }
+
+  private readSegmentChild(id: number, element: Uint8Array, headerLength: number): void {
+    const payload = element.subarray(headerLength);
+    if (id === ID.Info) {
+      const kept: Uint8Array[] = [];
+      for (const child of children(payload)) {
+        if (child.id === ID.TimecodeScale) this.timecodeScale = readUint(child.data);
+        if (child.id !== ID.Duration) kept.push(child.raw);
+      }
+      this.info = concat(kept);
+    } else if (id === ID.Tracks && this.ebml) {
+      this.header = {
+        ebml: this.ebml,
+        info: this.info ?? new Uint8Array(0),
+        tracks: element.slice(),
+        timecodeScale: this.timecodeScale,
+        videoTrack: parseVideoTrack(payload),
+      };
+    }
+  }
+
+  private readClusterChild(id: number, data: Uint8Array, raw: Uint8Array): void {
+    const cluster = this.cluster!;
+    if (id === ID.Timecode) {
+      cluster.timecode = readUint(data);
+      return;
+    }
+
+    cluster.parts.push(raw);
+    const block = id === ID.SimpleBlock ? data : id === ID.BlockGroup ? findBlock(data) : null;
+    if (!block) return;
+
+    const track = readSize(block, 0);
+    if (!track || block.length < track.length + 3) return;
+    const offset = new DataView(block.buffer, block.byteOffset + track.length, 2).getInt16(0);
+    cluster.lastBlockOffset = Math.max(cluster.lastBlockOffset, offset);
+    cluster.blockCount++;
+
+    const videoTrack = this.header?.videoTrack ?? null;
+    const isVideo = videoTrack === null || track.size === videoTrack;
+    if (isVideo && !cluster.sawVideoBlock) {
+      cluster.sawVideoBlock = true;
+      // Only SimpleBlock carries a keyframe flag; BlockGroups are never cut points
+      cluster.keyframe = id === ID.SimpleBlock && (block[track.length + 2] & 0x80) !== 0;
+    }
+  }
+
+  private closeCluster(): WebmCluster {
+    const cluster = this.toCluster(this.cluster!);
+    this.cluster = null;
+    return cluster;
+  }
+
+  private toCluster(open: OpenCluster): WebmCluster {
+    return {
+      timecode: open.timecode,
+      keyframe: open.keyframe,
+      body: concat(open.parts),
+      lastBlockOffset: open.lastBlockOffset,
+      blockCount: open.blockCount,
+    };
+  }
+}
+
+function findBlock(group: Uint8Array): Uint8Array | null {
+  for (const child of children(group)) {
+    if (child.id === ID.Block) return child.data;
+  }
+  return null;
+}
+
+// ── Writing ──────────────────────────────────────────────────────────
+
+function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return new Uint8Array(bytes);
+}
+
+function encodeSize(size: number): Uint8Array {
+  let length = 1;
+  // All-ones at a given length means "unknown", so stay one below it
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function encodeUint(value: number, width?: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  while (bytes.length < (width ?? 1)) bytes.unshift(0);
+  return new Uint8Array(bytes);
+}
+
+function element(id: number, payload: Uint8Array | Uint8Array[]): Uint8Array {
+  const body = Array.isArray(payload) ? concat(payload) : payload;
+  return concat([encodeId(id), encodeSize(body.length), body]);
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+  const payload = new Uint8Array(8);
+  new DataView(payload.buffer).setFloat64(0, value);
+  return element(id, payload);
+}
+
+/** Clip length in seconds, from first cluster to the end of the last frame. */
+export function clustersDuration(header: WebmHeader, clusters: WebmCluster[]): number {
+  return durationTicks(clusters) * (header.timecodeScale / 1e9);
+}
+
+/**
+ * Split a run of clusters into parts of about maxSeconds each. Parts break
+ * only where a cluster starts on a keyframe, so each can go through
+ * buildWebm on its own.
+ */
+export function splitAtKeyframes(
+  header: WebmHeader,
+  clusters: WebmCluster[],
+  maxSeconds: number
+): WebmCluster[][] {
+  const maxTicks = maxSeconds * (1e9 / header.timecodeScale);
+  const parts: WebmCluster[][] = [];
+  let current: WebmCluster[] = [];
+  for (const cluster of clusters) {
+    if (current.length > 0 && cluster.keyframe && cluster.timecode - current[0].timecode >= maxTicks) {
+      parts.push(current);
+      current = [];
+    }
+    current.push(cluster);
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
+
+function durationTicks(clusters: WebmCluster[]): number {
+  if (clusters.length === 0) return 0;
+  const base = clusters[0].timecode;
+  const last = clusters[clusters.length - 1];
+  const span = last.timecode + last.lastBlockOffset - base;
+  const blocks = clusters.reduce((sum, c) => sum + c.blockCount, 0);
+  // The last frame plays for about one frame interval
+  return blocks > 1 ? span + span / (blocks - 1) : span;
+}
+
+/**
+ * Assemble a standalone WebM from the stream header and a run of clusters
+ * (which should start on a keyframe). Timecodes are rebased to zero, and
+ * the file gets a known Segment size, a Duration and Cues so players can
+ * show its length and seek.
+ */
+export function buildWebm(header: WebmHeader, clusters: WebmCluster[]): Uint8Array<ArrayBuffer> {
+  const base = clusters.length ? clusters[0].timecode : 0;
+
+  const clusterElements = clusters.map((cluster) =>
+    element(ID.Cluster, [element(ID.Timecode, encodeUint(cluster.timecode - base)), cluster.body])
+  );
+
+  const info = element(ID.Info, [header.info, floatElement(ID.Duration, durationTicks(clusters))]);
+
+  // Fixed-width cue values keep the Cues size independent of the positions
+  // it points at, so it can sit ahead of the clusters
+  const cueTrack = header.videoTrack ?? 1;
+  const buildCues = (positions: number[]) =>
+    element(
+      ID.Cues,
+      clusters.flatMap((cluster, i) =>
+        cluster.keyframe
+          ? [
+              element(ID.CuePoint, [
+                element(ID.CueTime, encodeUint(cluster.timecode - base, 8)),
+                element(ID.CueTrackPositions, [
+                  element(ID.CueTrack, encodeUint(cueTrack)),
+                  element(ID.CueClusterPosition, encodeUint(positions[i] ?? 0, 8)),
+                ]),
+              ]),
+            ]
+          : []
+      )
+    );
+
+  // Positions are relative to the start of the Segment payload
+  const cuesLength = buildCues([]).length;
+  let offset = info.length + header.tracks.length + cuesLength;
+  const positions = clusterElements.map((cluster) => {
+    const position = offset;
+    offset += cluster.length;
+    return position;
+  });
+
+  const segment = element(ID.Segment, [
+    info,
+    header.tracks,
+    buildCues(positions),
+    ...clusterElements,
+  ]);
+  return concat([header.ebml, segment]);
+}
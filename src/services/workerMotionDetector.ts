@@ -0,0 +1,159 @@
+import { MotionDetector, type MotionConfig, type MotionResult } from './motionDetector';
+
+// Main thread → worker
+export type MotionWorkerRequest =
+  | { type: 'configure'; config: Partial<MotionConfig> }
+  | { type: 'reset' }
+  | { type: 'frame'; id: number; bitmap: ImageBitmap };
+
+// Worker → main thread
+export type MotionWorkerResponse =
+  | { type: 'result'; id: number; result: MotionResult }
+  | { type: 'error'; id: number; message: string };
+
+const NO_MOTION: MotionResult = { hasMotion: false, score: 0, confidence: 0 };
+
+/** Whether this browser can run motion analysis in a worker. */
+export function supportsMotionWorker(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  );
+}
+
+/**
+ * MotionDetector that grabs frames as ImageBitmaps on the main thread and
+ * transfers them to a worker for scoring. If the worker fails to start or
+ * crashes, it falls back to an in-thread MotionDetector with the same config.
+ */
+export class WorkerMotionDetector {
+  private worker: Worker | null;
+  private fallback: MotionDetector | null = null;
+  private config: Partial<MotionConfig>;
+  private nextId = 0;
+  private pending = new Map<number, (result: MotionResult) => void>();
+
+  constructor(config: Partial<MotionConfig> = {}) {
+    this.config = { ...config };
+    this.worker = new Worker(new URL('./motionWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.worker.onmessage = (e: MessageEvent<MotionWorkerResponse>) => {
+      const message = e.data;
+      const resolve = this.pending.get(message.id);
+      if (!resolve) return;
+      this.pending.delete(message.id);
+
+      if (message.type === 'error') {
+        console.error('[MotionWorker] Frame failed:', message.message);
+        resolve(NO_MOTION);
+        return;
+      }
+      resolve(message.result);
+    };
+    this.worker.onerror = (e) => {
+      console.error('[MotionWorker] Worker crashed, analyzing in-thread:', e.message);
+      this.switchToFallback();
+    };
+    this.post({ type: 'configure', config: this.config });
+  }
+
+  async analyze(videoElement: HTMLVideoElement): Promise<MotionResult> {
+    if (this.fallback || !this.worker) {
+      return this.getFallback().analyze(videoElement);
+    }
+    if (videoElement.readyState < 2) {
+      return NO_MOTION;
+    }
+
+    const { width = 320, height = 240 } = this.config;
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(videoElement, {
+        resizeWidth: width,
+        resizeHeight: height,
+        resizeQuality: 'low',
+      });
+    } catch (error) {
+      console.error('[MotionWorker] Failed to capture frame:', error);
+      return NO_MOTION;
+    }
+
+    // The worker may have died while the bitmap was being captured
+    const worker = this.worker;
+    if (!worker) {
+      bitmap.close();
+      return this.getFallback().analyze(videoElement);
+    }
+
+    const id = this.nextId++;
+    return new Promise<MotionResult>((resolve) => {
+      this.pending.set(id, resolve);
+      worker.postMessage({ type: 'frame', id, bitmap } satisfies MotionWorkerRequest, [bitmap]);
+    });
+  }
+
+  updateConfig(config: Partial<MotionConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (this.fallback) {
+      this.fallback.updateConfig(config);
+      return;
+    }
+    this.post({ type: 'configure', config });
+  }
+
+  reset(): void {
+    if (this.fallback) {
+      this.fallback.reset();
+      return;
+    }
+    this.post({ type: 'reset' });
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.resolvePending();
+  }
+
+  private post(message: MotionWorkerRequest): void {
+    this.worker?.postMessage(message);
+  }
+
+  private switchToFallback(): void {
+    this.dispose();
+    this.getFallback();
+  }
+
+  private getFallback(): MotionDetector {
+    if (!this.fallback) {
+      this.fallback = new MotionDetector(this.config);
+    }
+    return this.fallback;
+  }
+
+  private resolvePending(): void {
+    for (const resolve of this.pending.values()) {
+      resolve(NO_MOTION);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Worker-backed detector when the browser supports it, otherwise the
+ * in-thread MotionDetector.
+ */
+export function createMotionDetector(
+  config: Partial<MotionConfig> = {}
+): MotionDetector | WorkerMotionDetector {
+  if (supportsMotionWorker()) {
+    try {
+      return new WorkerMotionDetector(config);
+    } catch (error) {
+      console.error('[MotionWorker] Failed to start worker, analyzing in-thread:', error);
+    }
+  }
+  return new MotionDetector(config);
+}